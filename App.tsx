@@ -1,40 +1,257 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import UploadZone from './components/UploadZone';
 import CodeInput from './components/CodeInput';
 import AnalysisResult from './components/AnalysisResult';
-import { analyzeBug } from './services/geminiService';
-import { AnalysisState, BugReport, Step, ChatEntry } from './types';
+import StreamingReport from './components/StreamingReport';
+import SessionSidebar from './components/SessionSidebar';
+import ErrorBanner from './components/ErrorBanner';
+import TokenBudget from './components/TokenBudget';
+import CandidateSettings from './components/CandidateSettings';
+import LogEvidenceInput from './components/LogEvidenceInput';
+import { defaultAnalysisBackend } from './services/analysisService';
+import { DEFAULT_MODEL, getModelOption, MODELS } from './services/models';
+import { createSessionId, deleteSession, listSessions, saveSession } from './services/sessionStore';
+import { AnalysisState, BugReport, CachedContext, Candidate, Step, ChatEntry, EvidenceImage, ImageEvidence, LogEvidence, Session, SourceFile, UploadedMedia, VideoMetadata } from './types';
+import { renderEvidenceImage } from './utils/images';
+import { isAbortError } from './utils/async';
+import { toErrorInfo } from './services/errors';
+import { validateBugReport } from './services/reportValidation';
+import { BudgetRequest, checkBudget, formatTokens, trimToBudget } from './services/tokenBudget';
+import { readVideoDuration } from './utils/media';
+import { conversationPath, revisionIndices, revisionsOf } from './utils/conversation';
+import { candidateLabel, CandidateSpec, defaultCandidateSpecs, generateCandidates } from './services/candidates';
+
+// What the last request uploaded, cached or generated, which state doesn't hold yet when the session is saved
+interface SessionUpdate {
+  uploaded: UploadedMedia | null;
+  cache: CachedContext | null;
+  candidates: Candidate[] | null;
+  images: ImageEvidence[];
+}
 
 const App: React.FC = () => {
   const [videoFile, setVideoFile] = useState<File | null>(null);
-  const [codeContext, setCodeContext] = useState<string>('');
+  // Screenshots being prepared, and the flattened ones the session was analysed with
+  const [images, setImages] = useState<EvidenceImage[]>([]);
+  const [sentImages, setSentImages] = useState<ImageEvidence[]>([]);
+  // Console output, stack traces and HAR files, parsed when they are added
+  const [logs, setLogs] = useState<LogEvidence[]>([]);
+  const [codeContext, setCodeContext] = useState<SourceFile[]>([]);
   const [step, setStep] = useState<Step>(Step.UPLOAD);
-  // Default to Gemini 3 Pro as requested, with 2.5 Flash as an option
-  const [modelName, setModelName] = useState<string>('gemini-3-pro-preview');
+  // Default to Gemini 3 Pro as requested; other providers are listed in services/models.ts
+  const [modelName, setModelName] = useState<string>(DEFAULT_MODEL);
+  const modelLabel = getModelOption(modelName).label;
   
   const [state, setState] = useState<AnalysisState>({
     isLoading: false,
     error: null,
     history: [],
     latestReport: null,
+    partialReport: null,
   });
 
+  // Persisted sessions; the active one is updated after every model response
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [sessionCreatedAt, setSessionCreatedAt] = useState<number>(0);
+  // Metadata of the recording of a reopened session (the file itself isn't stored)
+  const [sessionVideo, setSessionVideo] = useState<VideoMetadata | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  // The recording as uploaded to the provider's file store, reused by refinements
+  const [uploadedVideo, setUploadedVideo] = useState<UploadedMedia | null>(null);
+  // The recording and code as cached by the provider, reused by refinements
+  const [contextCache, setContextCache] = useState<CachedContext | null>(null);
+  // Length of the recording that will be sent, for the token estimate
+  const [videoSeconds, setVideoSeconds] = useState<number | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  // How many alternative fixes the next analysis generates, and the ones the last one did
+  const [candidateSpecs, setCandidateSpecs] = useState<CandidateSpec[]>(defaultCandidateSpecs(1));
+  const [candidates, setCandidates] = useState<Candidate[] | null>(null);
+
+  const handleVideoSelect = (file: File) => {
+    setVideoFile(file);
+    setUploadedVideo(null);
+    setContextCache(null);
+    setVideoSeconds(null);
+    setCandidates(null);
+  };
+
+  // New screenshots change the input, so earlier candidates no longer apply
+  const handleImagesChange = (updated: EvidenceImage[]) => {
+    setImages(updated);
+    setCandidates(null);
+  };
+
+  useEffect(() => {
+    if (!videoFile) return;
+    // A slow read for a file that has since been replaced is ignored
+    let isCurrent = true;
+    readVideoDuration(videoFile).then(seconds => {
+      if (isCurrent) setVideoSeconds(seconds);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [videoFile]);
+
+  const refreshSessions = async () => {
+    try {
+      setSessions(await listSessions());
+    } catch (e) {
+      console.warn("Session history is unavailable:", e);
+    }
+  };
+
+  useEffect(() => {
+    refreshSessions();
+  }, []);
+
+  const buildSession = (id: string, createdAt: number, history: ChatEntry[], { uploaded, cache, candidates, images }: SessionUpdate): Session => {
+    const video: VideoMetadata | null = videoFile
+      ? { name: videoFile.name, size: videoFile.size, type: videoFile.type, duration: videoSeconds ?? undefined }
+      : sessionVideo;
+    return {
+      id,
+      createdAt,
+      updatedAt: Date.now(),
+      modelName,
+      codeContext,
+      video: video && uploaded ? { ...video, uploaded } : video,
+      images: images.length ? images : undefined,
+      logs: logs.length ? logs : undefined,
+      history,
+      revisions: revisionsOf(history),
+      contextCache: cache || undefined,
+      candidates: candidates || undefined,
+    };
+  };
+
+  const persistSession = async (id: string, createdAt: number, history: ChatEntry[], update: SessionUpdate) => {
+    try {
+      await saveSession(buildSession(id, createdAt, history, update));
+      await refreshSessions();
+    } catch (e) {
+      console.warn("Failed to save session:", e);
+    }
+  };
+
+  // Lets the user cancel the request that is currently running
+  const abortRef = useRef<AbortController | null>(null);
+
+  const startRequest = () => {
+    abortRef.current?.abort();
+    abortRef.current = new AbortController();
+    return abortRef.current.signal;
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const onPartial = (partial: Partial<BugReport>) => {
+    setState(prev => ({ ...prev, partialReport: partial }));
+  };
+
+  // Runs the analysis on the server with the shared options, reusing and remembering the uploaded video and cache
+  const runAnalysis = async (history: ChatEntry[], signal: AbortSignal, images: ImageEvidence[]) => {
+    let uploaded = uploadedVideo;
+    let cache = contextCache;
+    try {
+      const report = await defaultAnalysisBackend.analyze(videoFile, codeContext, history, modelName, {
+        onPartial,
+        onStatus: setStatusMessage,
+        signal,
+        images,
+        logs,
+        uploadedVideo,
+        onVideoUploaded: (media) => {
+          uploaded = media;
+          setUploadedVideo(media);
+        },
+        contextCache,
+        onContextCached: (cached) => {
+          cache = cached;
+          setContextCache(cached);
+        },
+      });
+      return { report, uploaded, cache, candidates: null };
+    } finally {
+      setStatusMessage(null);
+    }
+  };
+
+  // Generates the alternative fixes side by side; the best one becomes the first revision
+  const runCandidates = async (signal: AbortSignal, images: ImageEvidence[]) => {
+    let uploaded = uploadedVideo;
+    try {
+      const ranked = await generateCandidates(defaultAnalysisBackend, videoFile, codeContext, candidateSpecs, modelName, {
+        onPartial,
+        onStatus: setStatusMessage,
+        signal,
+        images,
+        logs,
+        uploadedVideo,
+        onVideoUploaded: (media) => {
+          uploaded = media;
+          setUploadedVideo(media);
+        },
+      });
+      return { report: ranked[0].report, uploaded, cache: null, candidates: ranked };
+    } finally {
+      setStatusMessage(null);
+    }
+  };
+
+  const hasCode = codeContext.some(file => file.content.trim());
+  const budgetRequest = useMemo<BudgetRequest>(
+    () => ({
+      codeContext,
+      history: [],
+      videoSeconds: videoFile || uploadedVideo ? videoSeconds : null,
+      imageCount: step === Step.UPLOAD ? images.length : sentImages.length,
+      logs,
+    }),
+    [codeContext, videoFile, uploadedVideo, videoSeconds, step, images, sentImages, logs]
+  );
+
   const handleAnalyze = async () => {
-    if (!codeContext.trim()) {
-      alert("Please provide the code snippet.");
+    if (!hasCode) {
+      alert("Please provide at least one source file.");
+      return;
+    }
+    // Every candidate's model has to take the request
+    const tooLarge = candidateSpecs
+      .map(spec => ({ model: spec.model || modelName, overBy: checkBudget(budgetRequest, spec.model || modelName).overBy }))
+      .find(check => check.overBy > 0);
+    if (tooLarge && !window.confirm(`This is about ${formatTokens(tooLarge.overBy)} tokens more than ${getModelOption(tooLarge.model).label} accepts, so the provider will probably reject it. Send it anyway?`)) {
       return;
     }
 
     setStep(Step.ANALYZING);
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    setState(prev => ({ ...prev, isLoading: true, error: null, partialReport: null }));
+    setStatusMessage(null);
+    const signal = startRequest();
 
     try {
+      // Annotations are drawn in once; refinements send the same images
+      if (images.length > 0) setStatusMessage("Preparing the screenshots...");
+      const rendered = await Promise.all(images.map(renderEvidenceImage));
+      setSentImages(rendered);
+      setStatusMessage(null);
+
       // Initial Chat Entry: User Request
+      const attachments = [
+        videoFile && 'the attached video',
+        rendered.length > 0 && `${rendered.length} screenshot${rendered.length === 1 ? '' : 's'}`,
+        logs.length > 0 && `${logs.length} log${logs.length === 1 ? '' : 's'}`,
+      ].filter(Boolean);
       const initialHistory: ChatEntry[] = [
-        { role: 'user', content: videoFile ? 'Analyze this bug with the attached video.' : 'Analyze this code.', timestamp: Date.now() }
+        { role: 'user', content: attachments.length ? `Analyze this bug with ${attachments.join(' and ')}.` : 'Analyze this code.', timestamp: Date.now() }
       ];
 
-      const report = await analyzeBug(videoFile, codeContext, [], modelName);
+      const { report, uploaded, cache, candidates: generated } = candidateSpecs.length > 1
+        ? await runCandidates(signal, rendered)
+        : await runAnalysis([], signal, rendered);
       
       const newHistory: ChatEntry[] = [
         ...initialHistory,
@@ -45,31 +262,51 @@ const App: React.FC = () => {
         isLoading: false, 
         error: null, 
         history: newHistory,
-        latestReport: report 
+        latestReport: report,
+        partialReport: null
       });
+      setCandidates(generated);
       setStep(Step.RESULTS);
 
+      const sessionId = createSessionId();
+      const createdAt = Date.now();
+      setActiveSessionId(sessionId);
+      setSessionCreatedAt(createdAt);
+      persistSession(sessionId, createdAt, newHistory, { uploaded, cache, candidates: generated, images: rendered });
+
     } catch (err: any) {
-      console.error(err);
+      const cancelled = isAbortError(err) || signal.aborted;
+      if (!cancelled) console.error(err);
       setState(prev => ({ 
         ...prev,
         isLoading: false, 
-        error: err.message || "Failed to analyze the vibe.", 
+        error: cancelled ? null : toErrorInfo(err),
+        partialReport: null,
       }));
       setStep(Step.UPLOAD);
     }
   };
 
-  const handleRefine = async (feedback: string) => {
+  const handleRefine = async (feedback: string, revision: number) => {
     // If we have a report, we can refine. Video is optional.
     if (!state.latestReport) return;
 
     // Add user message to history optimistically
-    const currentHistory = [...state.history, { role: 'user', content: feedback, timestamp: Date.now() } as ChatEntry];
-    setState(prev => ({ ...prev, history: currentHistory, isLoading: true }));
+    const previousHistory = state.history;
+    const currentHistory = [...state.history, { role: 'user', content: feedback, timestamp: Date.now(), refines: revision } as ChatEntry];
+    setState(prev => ({ ...prev, history: currentHistory, isLoading: true, partialReport: null }));
+    const signal = startRequest();
+
+    // Only the branch leading to the refined revision is sent, and long ones drop their older
+    // rounds to fit; the full history stays on screen and in the session
+    const { history: sentHistory } = trimToBudget(
+      { ...budgetRequest, history: conversationPath(currentHistory) },
+      modelName,
+      { trimFiles: false }
+    );
 
     try {
-      const report = await analyzeBug(videoFile, codeContext, currentHistory, modelName);
+      const { report, uploaded, cache } = await runAnalysis(sentHistory, signal, sentImages);
       
       const updatedHistory = [
         ...currentHistory,
@@ -80,38 +317,129 @@ const App: React.FC = () => {
         isLoading: false,
         error: null,
         history: updatedHistory,
-        latestReport: report
+        latestReport: report,
+        partialReport: null
       });
 
+      if (activeSessionId) {
+        persistSession(activeSessionId, sessionCreatedAt, updatedHistory, { uploaded, cache, candidates, images: sentImages });
+      }
+
     } catch (err: any) {
+      // A cancelled refinement drops the feedback it was answering
+      const cancelled = isAbortError(err) || signal.aborted;
       setState(prev => ({ 
         ...prev, 
         isLoading: false, 
-        error: "Failed to refine fix: " + err.message 
+        history: cancelled ? previousHistory : prev.history,
+        error: cancelled ? null : { ...toErrorInfo(err), message: "Failed to refine fix: " + toErrorInfo(err).message },
+        partialReport: null
       }));
     }
   };
 
+  // Continues the session from another candidate: it becomes the latest revision, so feedback refines it
+  const handlePromote = (candidate: Candidate) => {
+    if (!candidates || state.isLoading) return;
+    const rank = candidates.indexOf(candidate) + 1;
+    const updatedHistory: ChatEntry[] = [
+      ...state.history,
+      { role: 'user', content: `Use fix ${rank} (${candidateLabel(candidate)}) instead.`, timestamp: Date.now(), refines: revisionIndices(state.history).length },
+      { role: 'model', content: candidate.report, timestamp: Date.now() },
+    ];
+    setState(prev => ({ ...prev, history: updatedHistory, latestReport: candidate.report }));
+    if (activeSessionId) {
+      persistSession(activeSessionId, sessionCreatedAt, updatedHistory, { uploaded: uploadedVideo, cache: contextCache, candidates, images: sentImages });
+    }
+  };
+
   const handleReset = () => {
+    abortRef.current?.abort();
     setStep(Step.UPLOAD);
     setVideoFile(null);
-    setCodeContext('');
-    setState({ isLoading: false, error: null, history: [], latestReport: null });
+    setImages([]);
+    setSentImages([]);
+    setLogs([]);
+    setCodeContext([]);
+    setState({ isLoading: false, error: null, history: [], latestReport: null, partialReport: null });
+    setActiveSessionId(null);
+    setSessionVideo(null);
+    setUploadedVideo(null);
+    setContextCache(null);
+    setCandidates(null);
+    setStatusMessage(null);
+    setVideoSeconds(null);
+  };
+
+  const handleOpenSession = (session: Session) => {
+    abortRef.current?.abort();
+    const latest = session.revisions[session.revisions.length - 1];
+    // Reports saved by older versions may lack fields the results view relies on
+    const checked = latest ? validateBugReport(latest).report : null;
+    const latestReport = checked && { ...checked, verification: latest.verification, usage: latest.usage };
+    setVideoFile(null);
+    setImages([]);
+    setSentImages(session.images || []);
+    setLogs(session.logs || []);
+    setSessionVideo(session.video);
+    setUploadedVideo(session.video?.uploaded || null);
+    setContextCache(session.contextCache || null);
+    setCandidates(session.candidates || null);
+    setStatusMessage(null);
+    setVideoSeconds(session.video?.duration ?? null);
+    setCodeContext(session.codeContext);
+    setModelName(session.modelName);
+    setActiveSessionId(session.id);
+    setSessionCreatedAt(session.createdAt);
+    setState({ isLoading: false, error: null, history: session.history, latestReport, partialReport: null });
+    setStep(latestReport ? Step.RESULTS : Step.UPLOAD);
+    setIsHistoryOpen(false);
+  };
+
+  const handleDeleteSession = async (session: Session) => {
+    try {
+      await deleteSession(session.id);
+    } catch (e) {
+      console.warn("Failed to delete session:", e);
+    }
+    if (session.id === activeSessionId) handleReset();
+    await refreshSessions();
   };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-vibe-dark to-slate-900 text-vibe-text selection:bg-vibe-accent/30 selection:text-white pb-10">
       
+      <SessionSidebar
+        sessions={sessions}
+        activeSessionId={activeSessionId}
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        onOpen={handleOpenSession}
+        onDelete={handleDeleteSession}
+      />
+
       {/* Navbar */}
       <nav className="border-b border-vibe-muted/10 bg-vibe-dark/80 backdrop-blur-md sticky top-0 z-50">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
-          <div className="flex items-center gap-2 cursor-pointer" onClick={handleReset}>
-            <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-vibe-accent to-purple-600 flex items-center justify-center shadow-lg shadow-vibe-accent/20">
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => setIsHistoryOpen(open => !open)}
+              className="p-2 rounded-lg text-vibe-muted hover:text-white hover:bg-vibe-card transition-colors"
+              aria-label="Past bugs"
+              title="Past bugs"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
               </svg>
+            </button>
+            <div className="flex items-center gap-2 cursor-pointer" onClick={handleReset}>
+              <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-vibe-accent to-purple-600 flex items-center justify-center shadow-lg shadow-vibe-accent/20">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                </svg>
+              </div>
+              <span className="font-bold text-xl tracking-tight text-white">Vibe<span className="text-vibe-accent">Fix</span></span>
             </div>
-            <span className="font-bold text-xl tracking-tight text-white">Vibe<span className="text-vibe-accent">Fix</span></span>
           </div>
           
           <div className="relative group">
@@ -125,8 +453,9 @@ const App: React.FC = () => {
                   disabled={step !== Step.UPLOAD}
                   className="appearance-none bg-vibe-card border border-vibe-muted/20 text-vibe-muted text-xs font-medium px-4 py-2 pr-8 rounded-full focus:outline-none focus:border-vibe-accent/50 focus:text-white hover:border-vibe-muted/40 transition-all cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  <option value="gemini-3-pro-preview">Gemini 3 Pro</option>
-                  <option value="gemini-2.5-flash">Gemini 2.5 Flash</option>
+                  {MODELS.map(model => (
+                    <option key={model.id} value={model.id}>{model.label}</option>
+                  ))}
                 </select>
                 <div className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none text-vibe-muted">
                   <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -142,12 +471,11 @@ const App: React.FC = () => {
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         
         {state.error && (
-          <div className="mb-6 p-4 rounded-xl bg-red-500/10 border border-red-500/20 text-red-200 flex items-center gap-3 animate-fade-in">
-             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-red-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-              </svg>
-             {state.error}
-          </div>
+          <ErrorBanner
+            error={state.error}
+            modelLabel={modelLabel}
+            onDismiss={() => setState(prev => ({ ...prev, error: null }))}
+          />
         )}
 
         {step === Step.UPLOAD && (
@@ -159,10 +487,13 @@ const App: React.FC = () => {
                   <span className="flex items-center justify-center w-6 h-6 rounded-full bg-vibe-muted/20 text-xs text-vibe-muted">1</span>
                   The Evidence
                 </h2>
-                <div className="flex-1 flex flex-col">
-                   <UploadZone onFileSelect={setVideoFile} selectedFile={videoFile} />
+                <div className="flex-1 flex flex-col gap-4">
+                   <UploadZone onFileSelect={handleVideoSelect} selectedFile={videoFile} images={images} onImagesChange={handleImagesChange} />
+                   <LogEvidenceInput logs={logs} onChange={setLogs} files={codeContext} />
                 </div>
               </div>
+              {hasCode && <TokenBudget request={budgetRequest} modelName={modelName} onTrim={setCodeContext} />}
+              {hasCode && <CandidateSettings specs={candidateSpecs} onChange={setCandidateSpecs} modelName={modelName} budget={budgetRequest} />}
             </div>
 
             {/* Right Column: Code */}
@@ -173,21 +504,21 @@ const App: React.FC = () => {
                   The Code
                 </h2>
                 <div className="flex-1">
-                   <CodeInput code={codeContext} setCode={setCodeContext} />
+                   <CodeInput files={codeContext} setFiles={setCodeContext} />
                 </div>
                 
                 {/* Floating Action Button */}
                 <div className="absolute bottom-6 right-6 left-6 z-10">
                   <button
                     onClick={handleAnalyze}
-                    disabled={!codeContext.trim()}
+                    disabled={!hasCode}
                     className={`w-full py-4 rounded-xl font-bold text-lg shadow-lg transition-all duration-300 transform hover:scale-[1.02] active:scale-[0.98]
-                      ${(!codeContext.trim()) 
+                      ${(!hasCode) 
                         ? 'bg-vibe-muted/20 text-vibe-muted cursor-not-allowed' 
                         : 'bg-gradient-to-r from-vibe-accent to-purple-600 text-white hover:shadow-vibe-accent/25'
                       }`}
                   >
-                    {videoFile ? 'Analyze Vibe' : 'Analyze Code'}
+                    {candidateSpecs.length > 1 ? `Generate ${candidateSpecs.length} Fixes` : videoFile ? 'Analyze Vibe' : 'Analyze Code'}
                   </button>
                 </div>
               </div>
@@ -210,21 +541,41 @@ const App: React.FC = () => {
               <h2 className="text-3xl font-bold text-white">VibeFix is thinking...</h2>
               <p className="text-vibe-muted max-w-md mx-auto">
                 {videoFile 
-                  ? `Correlating pixel data with source code structure using ${modelName === 'gemini-3-pro-preview' ? 'Gemini 3 Pro' : 'Gemini 2.5 Flash'}.`
-                  : `Scanning code patterns and logic using ${modelName === 'gemini-3-pro-preview' ? 'Gemini 3 Pro' : 'Gemini 2.5 Flash'}.`
+                  ? `Correlating pixel data with source code structure using ${modelLabel}.`
+                  : `Scanning code patterns and logic using ${modelLabel}.`
                 }
               </p>
+              {statusMessage && <p className="text-sm text-vibe-accent">{statusMessage}</p>}
             </div>
+            {state.partialReport && <StreamingReport partial={state.partialReport} />}
+            <button
+              onClick={handleCancel}
+              className="px-5 py-2 rounded-xl border border-vibe-muted/30 text-sm text-vibe-muted hover:text-white hover:border-red-400/50 transition-colors"
+            >
+              Cancel
+            </button>
           </div>
         )}
 
         {step === Step.RESULTS && state.latestReport && (
           <AnalysisResult 
+            key={activeSessionId || 'new'}
             history={state.history} 
             latestReport={state.latestReport}
+            codeContext={codeContext}
+            videoFile={videoFile}
+            modelLabel={modelLabel}
             onRefine={handleRefine}
+            onCancelRefine={handleCancel}
             isRefining={state.isLoading}
+            statusMessage={statusMessage}
+            partialReport={state.partialReport}
             onReset={handleReset}
+            candidates={candidates}
+            onPromote={handlePromote}
+            session={activeSessionId
+              ? buildSession(activeSessionId, sessionCreatedAt, state.history, { uploaded: uploadedVideo, cache: contextCache, candidates, images: sentImages })
+              : null}
           />
         )}
 
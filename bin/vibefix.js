@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI through tsx, so `npm link` gives a working `vibefix` command
+import { register } from 'tsx/esm/api';
+
+register();
+await import('../cli/index.ts');
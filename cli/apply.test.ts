@@ -0,0 +1,63 @@
+import { mkdir, mkdtemp, readFile, rm, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BugReport, SourceFile } from '../types';
+import { applyReport } from './apply';
+
+let root: string;
+let outside: string;
+
+const files: SourceFile[] = [{ path: 'src/a.css', content: '.a { color: white; }\n' }];
+
+const report = (...edits: Array<[string, string]>): BugReport => ({
+  bug_summary: 'Button is invisible',
+  user_sentiment: 'Frustrated',
+  explanation: 'The text had the background colour.',
+  edits: edits.map(([file_to_edit, code_patch]) => ({ file_to_edit, code_patch, explanation: '' })),
+});
+
+beforeEach(async () => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  root = await mkdtemp(path.join(tmpdir(), 'vibefix-apply-test-'));
+  outside = await mkdtemp(path.join(tmpdir(), 'vibefix-apply-outside-'));
+  await mkdir(path.join(root, 'src'));
+  await mkdir(path.join(root, '.git/hooks'), { recursive: true });
+  await writeFile(path.join(root, 'src/a.css'), files[0].content);
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await rm(root, { recursive: true, force: true });
+  await rm(outside, { recursive: true, force: true });
+});
+
+describe('applyReport', () => {
+  it('overwrites submitted files and adds new ones next to them', async () => {
+    await applyReport(root, report(['src/a.css', '.a { color: black; }\n'], ['src/tests/a.test.ts', 'test']), files);
+    expect(await readFile(path.join(root, 'src/a.css'), 'utf8')).toBe('.a { color: black; }\n');
+    expect(await readFile(path.join(root, 'src/tests/a.test.ts'), 'utf8')).toBe('test');
+  });
+
+  it('refuses paths outside the project, in .git or in ignored folders', async () => {
+    for (const file of ['../evil.sh', '.git/hooks/pre-commit', 'src/../.git/config', 'node_modules/react/index.js']) {
+      await expect(applyReport(root, report([file, 'x']), files)).rejects.toThrow(`Refusing to write ${file}`);
+    }
+  });
+
+  it('refuses files that were not sent, and new files outside the folders that were', async () => {
+    await writeFile(path.join(root, 'src/b.css'), '');
+    await expect(applyReport(root, report(['src/b.css', 'x']), files)).rejects.toThrow(/wasn't sent to the model/);
+    await expect(applyReport(root, report(['scripts/run.sh', 'x']), files)).rejects.toThrow(/outside the folders that were sent/);
+  });
+
+  it("doesn't follow a link out of the project", async () => {
+    await symlink(outside, path.join(root, 'src/linked'));
+    await expect(applyReport(root, report(['src/linked/new.ts', 'x']), files)).rejects.toThrow(/links outside/);
+  });
+
+  it('writes nothing when one of the edits is refused', async () => {
+    await expect(applyReport(root, report(['src/a.css', 'changed'], ['.git/hooks/pre-commit', 'x']), files)).rejects.toThrow();
+    expect(await readFile(path.join(root, 'src/a.css'), 'utf8')).toBe(files[0].content);
+  });
+});
@@ -0,0 +1,69 @@
+import { lstat, mkdir, realpath, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { BugReport, FileEdit, SourceFile } from '../types';
+import { editsWithTest, isIgnored, normalizePath, resolveSourcePath } from '../utils/sourceFiles';
+
+const isWithin = (root: string, target: string) => {
+  const relative = path.relative(root, target);
+  return relative !== '..' && !relative.startsWith('..' + path.sep) && !path.isAbsolute(relative);
+};
+
+const exists = async (target: string) => {
+  try {
+    await lstat(target);
+    return true;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return false;
+    throw error;
+  }
+};
+
+// The real path of the nearest folder of `target` that exists, where its missing folders would be created
+const realParent = async (target: string): Promise<string> => {
+  let dir = path.dirname(target);
+  while (!(await exists(dir))) dir = path.dirname(dir);
+  return realpath(dir);
+};
+
+/**
+ * Where an edit may be written: over a file that was sent to the model, or as a new file in
+ * a folder that holds one. Never into .git or node_modules, and never through a link that
+ * leads out of the project, whatever path the model answered with.
+ */
+const writeTarget = async (root: string, edit: FileEdit, files: SourceFile[]): Promise<string> => {
+  const refuse = (reason: string) => new Error(`Refusing to write ${edit.file_to_edit}: ${reason}.`);
+  const submitted = resolveSourcePath(edit.file_to_edit, files);
+  const target = path.resolve(root, submitted ?? normalizePath(edit.file_to_edit));
+  const relative = normalizePath(path.relative(root, target));
+  if (!isWithin(root, target) || !relative) throw refuse(`it is outside ${root}`);
+  if (isIgnored(relative)) throw refuse("VibeFix doesn't edit files in .git, node_modules or build output");
+  if (!isWithin(root, await realParent(target))) throw refuse(`its folder links outside ${root}`);
+
+  if (submitted) {
+    if ((await lstat(target)).isSymbolicLink()) throw refuse('it is a link');
+    return target;
+  }
+  if (await exists(target)) throw refuse("it wasn't sent to the model, so the fix can't have taken it into account");
+  const dir = path.posix.dirname(relative);
+  const tracked = files.some(file => {
+    const fileDir = path.posix.dirname(normalizePath(file.path));
+    return fileDir === '.' || dir === fileDir || dir.startsWith(fileDir + '/');
+  });
+  if (!tracked) throw refuse('it is a new file outside the folders that were sent');
+  return target;
+};
+
+/**
+ * Writes every edited file, creating the ones the fix adds. Every path is checked before
+ * anything is written, so a refused edit leaves the project as it was.
+ */
+export const applyReport = async (root: string, report: BugReport, files: SourceFile[]) => {
+  const realRoot = await realpath(root);
+  const edits = editsWithTest(report);
+  const targets = await Promise.all(edits.map(edit => writeTarget(realRoot, edit, files)));
+  for (const [index, target] of targets.entries()) {
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, edits[index].code_patch);
+    console.error(`Wrote ${path.relative(process.cwd(), target) || target}`);
+  }
+};
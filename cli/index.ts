@@ -0,0 +1,154 @@
+import { writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { SourceFile } from '../types';
+import { analyzeBug } from '../services/geminiService';
+import { AnalysisBackend, createHttpAnalysisBackend } from '../services/analysisService';
+import { toErrorInfo } from '../services/errors';
+import { DEFAULT_MODEL, getModelOption, MODELS } from '../services/models';
+import { buildRepoIndex, retrieveRelevantFiles } from '../services/retrieval';
+import { loadEnvFiles } from '../server/env';
+import { readSources } from '../services/localSources';
+import { isAbortError } from '../utils/async';
+import { createEditsPatch } from '../utils/diff';
+import { editsWithTest } from '../utils/sourceFiles';
+import { applyReport } from './apply';
+import { formatReport } from './output';
+import { readImage, readLog, readVideo } from './sources';
+
+const USAGE = `Usage:
+  vibefix analyze [options] <files or directories...>
+  vibefix models
+
+Options:
+  --video <file>          Screen recording of the bug (MP4, WebM, MOV...)
+  --image <file[=label]>  Screenshot of the bug, e.g. actual.png=Actual (PNG, JPEG, WebP, GIF); repeatable
+  --log <file>            Console output, a stack trace or a .har network log; repeatable
+  --model <id>            Model to analyze with (default: ${DEFAULT_MODEL}; see \`vibefix models\`)
+  --root <dir>            Project directory the source paths are relative to (default: current directory)
+  --describe <text>       Send only the files most relevant to this description of the bug
+  --format <pretty|json>  How to print the report (default: pretty)
+  --write-patch <file>    Write the fix, regression test included, as a unified patch
+  --apply                 Write the patched files into the project directory
+  --force                 Apply even if the patched files fail the syntax checks
+  --max-repairs <n>       Rounds of sending syntax errors back to the model (default: 2)
+  --server <url>          Analyze on a VibeFix server instead of calling the provider directly
+  -h, --help              Show this help
+
+Exit codes: 0 on success, 1 when the analysis fails or the fix can't be applied, 2 on bad usage.`;
+
+// Bad arguments: printed with the usage instead of as an analysis failure
+class UsageError extends Error {}
+
+const analyze = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      video: { type: 'string' },
+      image: { type: 'string', multiple: true },
+      log: { type: 'string', multiple: true },
+      model: { type: 'string', default: DEFAULT_MODEL },
+      root: { type: 'string', default: '.' },
+      describe: { type: 'string' },
+      format: { type: 'string', default: 'pretty' },
+      'write-patch': { type: 'string' },
+      apply: { type: 'boolean', default: false },
+      force: { type: 'boolean', default: false },
+      'max-repairs': { type: 'string' },
+      server: { type: 'string' },
+    },
+  });
+
+  if (values.format !== 'pretty' && values.format !== 'json') throw new UsageError(`Unknown format "${values.format}".`);
+  if (positionals.length === 0) throw new UsageError("Pass at least one source file or directory.");
+  const maxRepairRounds = values['max-repairs'] === undefined ? undefined : Number(values['max-repairs']);
+  if (maxRepairRounds !== undefined && !(Number.isInteger(maxRepairRounds) && maxRepairRounds >= 0)) {
+    throw new UsageError("--max-repairs must be a whole number.");
+  }
+
+  const root = path.resolve(values.root!);
+  let codeContext: SourceFile[] = await readSources(root, positionals);
+  if (codeContext.length === 0) throw new UsageError("None of the given paths contain source files.");
+  if (values.describe) {
+    const matches = retrieveRelevantFiles(buildRepoIndex(codeContext), values.describe);
+    if (matches.length === 0) throw new UsageError("No file matches the description; pass the files to send instead.");
+    matches.forEach(match => console.error(`Picked ${match.file.path}: ${match.reasons.join('; ')}`));
+    codeContext = matches.map(match => ({ ...match.file, reasons: match.reasons }));
+  }
+  const video = values.video ? await readVideo(values.video) : null;
+  const images = await Promise.all((values.image || []).map(readImage));
+  const logs = await Promise.all((values.log || []).map(readLog));
+
+  const backend: AnalysisBackend = values.server
+    ? createHttpAnalysisBackend(`${values.server.replace(/\/$/, '')}/api`)
+    : { analyze: analyzeBug };
+
+  // Ctrl+C cancels the request instead of leaving it running at the provider
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  const { label } = getModelOption(values.model!);
+  const attachments = [video?.name, images.length > 0 && `${images.length} image(s)`, logs.length > 0 && `${logs.length} log(s)`].filter(Boolean);
+  console.error(`Analyzing ${codeContext.length} file(s)${attachments.length ? ` and ${attachments.join(' and ')}` : ''} with ${label}...`);
+  const report = await backend.analyze(video, codeContext, [], values.model!, {
+    signal: controller.signal,
+    images,
+    logs,
+    maxRepairRounds,
+    onStatus: message => message && console.error(message),
+  });
+
+  console.log(values.format === 'json' ? JSON.stringify(report, null, 2) : formatReport(report, codeContext, label));
+
+  if (values['write-patch']) {
+    await writeFile(values['write-patch'], createEditsPatch(codeContext, editsWithTest(report)));
+    console.error(`Wrote the patch to ${values['write-patch']}`);
+  }
+  if (values.apply) {
+    if (report.verification?.status === 'failed' && !values.force) {
+      console.error("Not applying: the patched files fail the syntax checks. Pass --force to apply anyway.");
+      return 1;
+    }
+    await applyReport(root, report, codeContext);
+  }
+  return 0;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const [command, ...args] = argv;
+  if (!command || command === '-h' || command === '--help' || args.includes('--help') || args.includes('-h')) {
+    console.log(USAGE);
+    return command ? 0 : 2;
+  }
+
+  // Keys come from the environment, or the same .env files the server reads
+  loadEnvFiles();
+
+  try {
+    if (command === 'models') {
+      MODELS.forEach(model => console.log(`${model.id.padEnd(24)} ${model.label} (${model.provider})`));
+      return 0;
+    }
+    if (command === 'analyze') return await analyze(args);
+    throw new UsageError(`Unknown command "${command}".`);
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      console.error(error.message);
+      return 2;
+    }
+    if (error instanceof UsageError || error?.code?.startsWith?.('ERR_PARSE_ARGS')) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    if (isAbortError(error)) {
+      console.error("Cancelled.");
+      return 130;
+    }
+    const info = toErrorInfo(error);
+    console.error(`Analysis failed (${info.category}${info.status ? `, HTTP ${info.status}` : ''}): ${info.message}`);
+    return 1;
+  }
+};
+
+process.exitCode = await main(process.argv.slice(2));
@@ -0,0 +1,83 @@
+import { BugReport, LineRange, SourceFile } from '../types';
+import { formatCost, formatTokens } from '../services/tokenBudget';
+import { createEditsPatch } from '../utils/diff';
+import { formatDuration } from '../utils/media';
+import { editsWithTest } from '../utils/sourceFiles';
+
+// Colours only when writing to a terminal that hasn't opted out
+const useColor = process.stdout.isTTY && !process.env.NO_COLOR;
+const paint = (code: number) => (text: string) => (useColor ? `\x1b[${code}m${text}\x1b[0m` : text);
+const bold = paint(1);
+const dim = paint(2);
+const red = paint(31);
+const green = paint(32);
+const cyan = paint(36);
+
+const colorPatchLine = (line: string) => {
+  if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('diff ')) return bold(line);
+  if (line.startsWith('@@')) return cyan(line);
+  if (line.startsWith('+')) return green(line);
+  if (line.startsWith('-')) return red(line);
+  return line;
+};
+
+const formatVerification = ({ verification }: BugReport): string => {
+  if (!verification) return dim('not checked');
+  const repairs = verification.repairRounds > 0 ? ` after ${verification.repairRounds} repair round(s)` : '';
+  if (verification.status === 'passed') return green(`passed${repairs}`) + dim(` (${verification.checkedFiles.join(', ')})`);
+  if (verification.status === 'skipped') return dim('skipped (no files in a language VibeFix can check)');
+  const issues = verification.issues.map(issue => `\n  ${issue.path}${issue.line ? `:${issue.line}` : ''} ${issue.message}`);
+  return red(`failed with ${verification.issues.length} error(s)${repairs}`) + issues.join('');
+};
+
+const formatUsage = ({ usage }: BugReport): string => {
+  if (!usage) return dim('not recorded');
+  const approx = usage.estimated ? '~' : '';
+  return `${approx}${formatTokens(usage.inputTokens)} in / ${approx}${formatTokens(usage.outputTokens)} out, ${formatCost(usage.costUsd)}`
+    + dim(` (${usage.requests} request(s)${usage.estimated ? ', estimated' : ''})`);
+};
+
+const formatLines = ({ start_line, end_line }: LineRange): string =>
+  start_line === end_line ? String(start_line) : `${start_line}-${end_line}`;
+
+const formatTriage = ({ severity, root_cause, confidence }: BugReport): string => {
+  const parts = [
+    severity && `${severity} severity`,
+    root_cause && `${root_cause} bug`,
+    confidence !== undefined && `${Math.round(confidence * 100)}% sure`,
+  ].filter(Boolean);
+  return parts.length ? parts.join(', ') : dim('not given');
+};
+
+/**
+ * Renders a report for reading in a terminal: summary, explanation, evidence and the patch.
+ */
+export const formatReport = (report: BugReport, codeContext: SourceFile[], modelLabel: string): string => {
+  const lines = [
+    `${bold('Bug:')} ${report.bug_summary}`,
+    `${bold('Model:')} ${modelLabel}   ${bold('Sentiment:')} ${report.user_sentiment}`,
+    `${bold('Triage:')} ${formatTriage(report)}`,
+    `${bold('Checks:')} ${formatVerification(report)}`,
+    `${bold('Usage:')} ${formatUsage(report)}`,
+    '',
+    report.explanation,
+  ];
+
+  if (report.evidence?.length) {
+    lines.push('', bold('Evidence:'));
+    report.evidence.forEach(item => {
+      lines.push(`  ${cyan(`${formatDuration(item.start_seconds)}–${formatDuration(item.end_seconds)}`)} ${item.description}`);
+    });
+  }
+
+  lines.push('', bold('Edits:'));
+  report.edits.forEach(edit => lines.push(`  ${edit.file_to_edit}${edit.line_range ? cyan(`:${formatLines(edit.line_range)}`) : ''}${edit.explanation ? dim(` — ${edit.explanation}`) : ''}`));
+  if (report.regression_test) {
+    const test = report.regression_test;
+    lines.push(`  ${test.file_path} ${dim(`(${test.framework} regression test)`)}`);
+  }
+
+  const patch = createEditsPatch(codeContext, editsWithTest(report));
+  if (patch) lines.push('', patch.trimEnd().split('\n').map(colorPatchLine).join('\n'));
+  return lines.join('\n');
+};
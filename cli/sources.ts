@@ -0,0 +1,54 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { ImageEvidence, LogEvidence } from '../types';
+import { createLogEvidence } from '../utils/logs';
+
+const VIDEO_TYPES: Record<string, string> = {
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  mpeg: 'video/mpeg',
+  mpg: 'video/mpeg',
+  avi: 'video/x-msvideo',
+  wmv: 'video/x-ms-wmv',
+  '3gp': 'video/3gpp',
+};
+
+/**
+ * Reads a recording from disk as a File, typed from its extension.
+ */
+export const readVideo = async (file: string): Promise<File> => {
+  const ext = path.extname(file).slice(1).toLowerCase();
+  const type = VIDEO_TYPES[ext];
+  if (!type) throw new Error(`${file} is not a video VibeFix can send (${Object.keys(VIDEO_TYPES).join(', ')}).`);
+  return new File([await readFile(file)], path.basename(file), { type });
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+/**
+ * Reads a screenshot from disk, given as `file` or `file=label`. Without a label the
+ * prompt refers to it by its file name.
+ */
+export const readImage = async (spec: string): Promise<ImageEvidence> => {
+  const separator = spec.lastIndexOf('=');
+  const file = separator > 0 ? spec.slice(0, separator) : spec;
+  const label = separator > 0 ? spec.slice(separator + 1).trim() : '';
+  const ext = path.extname(file).slice(1).toLowerCase();
+  const mimeType = IMAGE_TYPES[ext];
+  if (!mimeType) throw new Error(`${file} is not an image VibeFix can send (${Object.keys(IMAGE_TYPES).join(', ')}).`);
+  return { name: path.basename(file), label, mimeType, data: (await readFile(file)).toString('base64'), annotated: false };
+};
+
+// HAR files are read as network logs; anything else is taken as console output or a stack trace by its content
+export const readLog = async (file: string): Promise<LogEvidence> => {
+  const name = path.basename(file);
+  return createLogEvidence(await readFile(file, 'utf8'), name, path.extname(file).toLowerCase() === '.har' ? 'har' : undefined);
+};
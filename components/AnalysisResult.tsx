@@ -1,74 +1,156 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { BugReport, ChatEntry } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { BugReport, Candidate, ChatEntry, Session, ShipResult, SourceFile } from '../types';
+import DiffViewer, { DiffViewMode } from './DiffViewer';
+import EvidencePlayer from './EvidencePlayer';
+import PreviewSandbox from './PreviewSandbox';
+import VerificationStatus from './VerificationStatus';
+import CandidateComparison from './CandidateComparison';
+import ReportTriage, { EditLocation } from './ReportTriage';
+import ExportMenu from './ExportMenu';
+import { createEditsPatch } from '../utils/diff';
+import { applyEdits, editsWithTest, findSourceFile } from '../utils/sourceFiles';
+import { defaultShippingBackend, ShippingBackend } from '../services/shipService';
+import { validateBugReport } from '../services/reportValidation';
+import { conversationPath, revisionIndices, revisionsOf } from '../utils/conversation';
+import { formatCost, formatTokens } from '../services/tokenBudget';
 
 interface AnalysisResultProps {
   history: ChatEntry[];
   latestReport: BugReport;
-  onRefine: (feedback: string) => void;
+  codeContext: SourceFile[];
+  videoFile: File | null;
+  modelLabel: string;
+  // Feedback on a revision, counting the model's reports from 1; an older one starts a branch
+  onRefine: (feedback: string, revision: number) => void;
+  onCancelRefine: () => void;
   isRefining: boolean;
+  // Progress of the running refinement, e.g. a repair round after failed verification
+  statusMessage?: string | null;
+  partialReport: Partial<BugReport> | null;
   onReset: () => void;
+  // Alternative fixes generated with the first report, best first
+  candidates?: Candidate[] | null;
+  onPromote?: (candidate: Candidate) => void;
+  // The session as saved, for exporting it as a ticket
+  session?: Session | null;
+  shippingBackend?: ShippingBackend;
 }
 
-const AnalysisResult: React.FC<AnalysisResultProps> = ({ history, latestReport, onRefine, isRefining, onReset }) => {
+const AnalysisResult: React.FC<AnalysisResultProps> = ({ history, latestReport, codeContext, videoFile, modelLabel, onRefine, onCancelRefine, isRefining, statusMessage, partialReport, onReset, candidates, onPromote, session, shippingBackend = defaultShippingBackend }) => {
   const [input, setInput] = useState('');
   const scrollRef = useRef<HTMLDivElement>(null);
-  const codeRef = useRef<HTMLElement>(null);
 
-  // Shipping Simulation State
-  const [shippingStatus, setShippingStatus] = useState<'idle' | 'shipping' | 'shipped'>('idle');
+  // Shipping State
+  const [shippingStatus, setShippingStatus] = useState<'idle' | 'shipping' | 'shipped' | 'failed'>('idle');
   const [terminalLogs, setTerminalLogs] = useState<string[]>([]);
+  const [shipResult, setShipResult] = useState<ShipResult | null>(null);
+  const [shipError, setShipError] = useState<string | null>(null);
   const [extraMessages, setExtraMessages] = useState<ChatEntry[]>([]);
 
+  // The revision shown and refined; null follows the latest one
+  const [selectedRevision, setSelectedRevision] = useState<number | null>(null);
+  const revisions = useMemo(() => revisionIndices(history), [history]);
+  const latestRevision = revisions.length;
+  const report = useMemo(() => {
+    const entry = selectedRevision ? history[revisions[selectedRevision - 1]] : null;
+    if (!entry || typeof entry.content === 'string') return latestReport;
+    // Revisions saved by older versions may lack fields the view relies on
+    const checked = validateBugReport(entry.content).report;
+    return checked ? { ...checked, verification: entry.content.verification, usage: entry.content.usage } : latestReport;
+  }, [selectedRevision, history, revisions, latestReport]);
+  const isBranching = selectedRevision !== null && selectedRevision !== latestRevision;
+  // The revision the shown one refined, so the header can show what the refinement changed
+  const previousReport = useMemo(() => {
+    const index = revisions[(selectedRevision ?? latestRevision) - 1];
+    if (index === undefined) return null;
+    const earlier = revisionsOf(conversationPath(history.slice(0, index + 1)).slice(0, -1));
+    return earlier[earlier.length - 1] ?? null;
+  }, [selectedRevision, latestRevision, history, revisions]);
+
+  // A new report is shown as soon as it arrives
+  useEffect(() => {
+    setSelectedRevision(null);
+  }, [latestReport]);
+
+  // Which file of a multi-file patch is currently shown
+  const [activeEditIndex, setActiveEditIndex] = useState(0);
+  const edits = report.edits;
+  // The regression test gets the last tab and is part of the patch like any other file
+  const test = report.regression_test;
+  const tabs = useMemo(() => editsWithTest(report), [report]);
+  const isTestTab = (idx: number) => !!test && idx === tabs.length - 1;
+  const activeIndex = Math.min(activeEditIndex, tabs.length - 1);
+  const activeEdit = tabs[activeIndex];
+
+  const [viewMode, setViewMode] = useState<DiffViewMode>('inline');
+  // The patch as a diff, or the page rendered before and after it
+  const [panel, setPanel] = useState<'diff' | 'preview'>('diff');
+  const [patchCopied, setPatchCopied] = useState(false);
+  const [isComparing, setIsComparing] = useState(false);
+  const hasCandidates = !!candidates && candidates.length > 1 && !!onPromote;
+
+  // The model returns each file in full; the diff is taken against what the user submitted.
+  // Paths that were never submitted are treated as new files.
+  const originalOf = (path: string) => findSourceFile(path, codeContext)?.content ?? '';
+  const isNewFile = (path: string) => !findSourceFile(path, codeContext);
+  const patch = useMemo(() => createEditsPatch(codeContext, tabs), [tabs, codeContext]);
+  const patchedFiles = useMemo(() => applyEdits(codeContext, edits), [edits, codeContext]);
+  const failedVerification = report.verification?.status === 'failed';
+  const usage = report.usage;
+
+  // A refinement may return a different set of files, so start again from the first one
+  useEffect(() => {
+    setActiveEditIndex(0);
+  }, [report]);
+
   // Auto-scroll to bottom of chat
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [history, isRefining, extraMessages]);
+  }, [history, isRefining, extraMessages, partialReport?.explanation]);
 
-  // Trigger syntax highlighting when code changes or view switches
-  useEffect(() => {
-    if (codeRef.current && (window as any).Prism) {
-       // Small timeout to ensure DOM is ready and ref is attached
-       setTimeout(() => {
-         (window as any).Prism.highlightElement(codeRef.current);
-       }, 0);
+  const handleCopyPatch = async () => {
+    try {
+      await navigator.clipboard.writeText(patch);
+      setPatchCopied(true);
+      setTimeout(() => setPatchCopied(false), 2000);
+    } catch (e) {
+      console.error("Failed to copy patch to clipboard", e);
     }
-  }, [latestReport, shippingStatus]);
+  };
 
-  const triggerShippingSequence = () => {
+  const triggerShippingSequence = async () => {
     setShippingStatus('shipping');
+    setTerminalLogs([]);
+    setShipError(null);
     
     // Add local chat messages
-    setExtraMessages([
+    setExtraMessages(prev => [
+      ...prev,
       { role: 'user', content: 'Ship it.', timestamp: Date.now() },
       { role: 'model', content: { explanation: 'On it! 👨‍💻 Initiating deployment sequence...' } as any, timestamp: Date.now() + 100 }
     ]);
 
-    // Simulate Terminal Logs
-    const steps = [
-      { msg: '> git checkout -b vibefix/mobile-red-button', delay: 800 },
-      { msg: '> git add .', delay: 1500 },
-      { msg: '> git commit -m "fix: mobile button visibility and color"', delay: 2200 },
-      { msg: '> git push origin vibefix/mobile-red-button', delay: 3000 },
-      { msg: '> gh pr create --title "Fix: Mobile Button Visibility" --body "Analyzed by VibeFix"', delay: 4200 },
-    ];
-
-    let currentDelay = 0;
-    steps.forEach(({ msg, delay }) => {
-      setTimeout(() => {
-        setTerminalLogs(prev => [...prev, msg]);
-      }, delay);
-      currentDelay = delay;
-    });
-
-    setTimeout(() => {
+    try {
+      const result = await shippingBackend.ship(
+        { bug_summary: report.bug_summary, explanation: report.explanation, patch },
+        message => setTerminalLogs(prev => [...prev, message])
+      );
+      setShipResult(result);
       setShippingStatus('shipped');
       setExtraMessages(prev => [
         ...prev,
-        { role: 'model', content: { explanation: 'Pull Request Open! View on GitHub.' } as any, timestamp: Date.now() }
+        { role: 'model', content: { explanation: `Pull Request #${result.pullRequestNumber} is open! View on GitHub.` } as any, timestamp: Date.now() }
+      ]);
+    } catch (err: any) {
+      setShipError(err.message || 'Shipping failed.');
+      setShippingStatus('failed');
+      setExtraMessages(prev => [
+        ...prev,
+        { role: 'model', content: { explanation: `Shipping failed: ${err.message}` } as any, timestamp: Date.now() }
       ]);
-    }, currentDelay + 1000);
+    }
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -82,33 +164,13 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ history, latestReport,
       return;
     }
 
-    onRefine(input);
+    onRefine(input, selectedRevision ?? latestRevision);
     setInput('');
   };
 
-  // Determine language class for Prism
-  const getLanguageClass = (filename: string) => {
-     if (!filename) return 'language-css';
-     const ext = filename.split('.').pop()?.toLowerCase();
-     switch(ext) {
-         case 'css': return 'language-css';
-         case 'js': return 'language-javascript';
-         case 'jsx': return 'language-jsx';
-         case 'ts': 
-         case 'tsx': return 'language-tsx';
-         case 'html': return 'language-markup';
-         case 'json': return 'language-json';
-         default: return 'language-css';
-     }
-  };
-
   // Merge history with local extra messages for display
   const displayHistory = [...history, ...extraMessages];
 
-  // Construct GitHub URL
-  const targetRepo = process.env.TARGET_REPO || 'google-gemini/vibefix-demo';
-  const githubUrl = `https://github.com/${targetRepo}/pulls`;
-
   return (
     <div className="h-[calc(100vh-8rem)] min-h-[600px] flex gap-6 animate-fade-in">
       
@@ -120,11 +182,17 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ history, latestReport,
             VibeFix Chat
           </h2>
         </div>
+
+        <EvidencePlayer video={videoFile} evidence={report.evidence || []} />
         
         {/* Messages Area */}
         <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-6">
-          {displayHistory.filter(h => h.role !== 'user' || typeof h.content === 'string').map((entry, idx) => {
+          {displayHistory.map((entry, idx) => {
             const isUser = entry.role === 'user';
+            if (isUser && typeof entry.content !== 'string') return null;
+            // Reports in the session's history are revisions that can be picked to view and refine
+            const revision = revisions.indexOf(idx) + 1;
+            const isSelected = revision > 0 && revision === (selectedRevision ?? latestRevision);
             
             // For the first model message, or any model message, we extract the explanation.
             let messageText = '';
@@ -144,10 +212,22 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ history, latestReport,
                   className={`max-w-[90%] rounded-2xl p-3 text-sm leading-relaxed
                   ${isUser 
                     ? 'bg-vibe-accent text-white rounded-tr-sm' 
-                    : 'bg-vibe-dark border border-vibe-muted/20 text-vibe-text rounded-tl-sm'
+                    : `bg-vibe-dark border text-vibe-text rounded-tl-sm ${isSelected && revisions.length > 1 ? 'border-vibe-accent/60' : 'border-vibe-muted/20'}`
                   }`}
                 >
+                  {isUser && entry.refines && entry.refines !== revisions.filter(i => i < idx).length && (
+                    <p className="text-[11px] text-white/70 mb-1">↳ on revision {entry.refines}</p>
+                  )}
                   <p>{messageText}</p>
+                  {revision > 0 && revisions.length > 1 && (
+                    <button
+                      onClick={() => setSelectedRevision(revision === latestRevision ? null : revision)}
+                      disabled={isRefining}
+                      className={`mt-2 text-[11px] ${isSelected ? 'text-vibe-accent' : 'text-vibe-muted hover:text-white underline'}`}
+                    >
+                      Revision {revision}{isSelected ? ' · shown' : ''}
+                    </button>
+                  )}
                 </div>
               </div>
             );
@@ -155,13 +235,19 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ history, latestReport,
           
           {isRefining && (
             <div className="flex justify-start">
-              <div className="bg-vibe-dark border border-vibe-muted/20 rounded-2xl rounded-tl-sm p-4 flex items-center gap-2">
-                 <div className="flex space-x-1">
-                    <div className="w-2 h-2 bg-vibe-muted/50 rounded-full animate-bounce delay-0"></div>
-                    <div className="w-2 h-2 bg-vibe-muted/50 rounded-full animate-bounce delay-150"></div>
-                    <div className="w-2 h-2 bg-vibe-muted/50 rounded-full animate-bounce delay-300"></div>
+              <div className="max-w-[90%] bg-vibe-dark border border-vibe-muted/20 rounded-2xl rounded-tl-sm p-3 text-sm leading-relaxed space-y-2">
+                 {partialReport?.explanation && <p>{partialReport.explanation}</p>}
+                 <div className="flex items-center gap-2">
+                   <div className="flex space-x-1">
+                      <div className="w-2 h-2 bg-vibe-muted/50 rounded-full animate-bounce delay-0"></div>
+                      <div className="w-2 h-2 bg-vibe-muted/50 rounded-full animate-bounce delay-150"></div>
+                      <div className="w-2 h-2 bg-vibe-muted/50 rounded-full animate-bounce delay-300"></div>
+                   </div>
+                   <span className="text-xs text-vibe-muted">{statusMessage || 'Refining fix...'}</span>
+                   <button onClick={onCancelRefine} className="text-xs text-vibe-muted hover:text-red-400 underline">
+                     Stop
+                   </button>
                  </div>
-                 <span className="text-xs text-vibe-muted">Refining fix...</span>
               </div>
             </div>
           )}
@@ -169,6 +255,12 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ history, latestReport,
 
         {/* Input Area */}
         <div className="p-4 border-t border-vibe-muted/10 bg-vibe-dark/30">
+          {isBranching && (
+            <p className="mb-2 text-xs text-vibe-muted">
+              Showing revision {selectedRevision} of {latestRevision}; feedback continues from it.{' '}
+              <button onClick={() => setSelectedRevision(null)} className="underline hover:text-white">Back to latest</button>
+            </p>
+          )}
           <form onSubmit={handleSubmit} className="relative">
             <input
               type="text"
@@ -195,20 +287,52 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ history, latestReport,
       <div className="w-2/3 flex flex-col space-y-4">
         
         {/* State 1: Code View (Normal) */}
-        {shippingStatus === 'idle' && (
+        {shippingStatus === 'idle' && isComparing && hasCandidates && (
+          <CandidateComparison
+            candidates={candidates!}
+            codeContext={codeContext}
+            currentReport={report}
+            onPromote={(candidate) => {
+              onPromote!(candidate);
+              setIsComparing(false);
+            }}
+            onClose={() => setIsComparing(false)}
+            isRefining={isRefining}
+          />
+        )}
+
+        {shippingStatus === 'idle' && !(isComparing && hasCandidates) && (
           <>
             <div className="flex justify-between items-center bg-vibe-card p-4 rounded-xl border border-vibe-muted/20">
               <div>
                 <h3 className="font-bold text-lg text-white">Current Patch</h3>
-                <p className="text-xs text-vibe-muted font-mono">{latestReport.file_to_edit}</p>
+                <p className="text-xs text-vibe-muted font-mono">
+                  {edits.length <= 3
+                    ? edits.map((edit, i) => (
+                        <React.Fragment key={edit.file_to_edit}>
+                          {i > 0 && ', '}
+                          <EditLocation edit={edit} previous={previousReport} />
+                        </React.Fragment>
+                      ))
+                    : `${edits.length} files changed`}
+                  {test && ' + regression test'}
+                </p>
               </div>
-              <div className="flex items-center gap-3">
+              <div className="flex flex-wrap items-center justify-end gap-3">
+                 <ReportTriage report={report} previous={previousReport} />
+                 <VerificationStatus verification={report.verification} />
                  <div className={`px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wide border
-                  ${latestReport.user_sentiment.toLowerCase().includes('frustrated') ? 'bg-red-500/10 text-red-400 border-red-500/20' : 
+                  ${(report.user_sentiment || '').toLowerCase().includes('frustrated') ? 'bg-red-500/10 text-red-400 border-red-500/20' : 
                     'bg-vibe-success/10 text-vibe-success border-vibe-success/20'
                   }`}>
-                  Mood: {latestReport.user_sentiment}
+                  Mood: {report.user_sentiment || 'Unknown'}
                 </div>
+                {hasCandidates && (
+                  <button onClick={() => setIsComparing(true)} className="text-xs text-vibe-muted hover:text-white underline">
+                    Compare {candidates!.length} fixes
+                  </button>
+                )}
+                {session && <ExportMenu session={session} revision={selectedRevision ?? latestRevision} />}
                 <button onClick={onReset} className="text-xs text-vibe-muted hover:text-white underline">
                   New Bug
                 </button>
@@ -222,40 +346,116 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ history, latestReport,
                     <div className="w-3 h-3 rounded-full bg-[#ffbd2e]"></div>
                     <div className="w-3 h-3 rounded-full bg-[#27c93f]"></div>
                   </div>
-                  <span className="text-xs text-vibe-muted font-mono">vibe_fix.diff</span>
-                  <div className="w-10"></div> 
+                  <div className="flex-1 flex gap-1 mx-4 overflow-x-auto">
+                    {tabs.map((edit, idx) => (
+                      <button
+                        key={`${edit.file_to_edit}-${idx}`}
+                        onClick={() => setActiveEditIndex(idx)}
+                        title={edit.line_range ? `${edit.file_to_edit}, lines ${edit.line_range.start_line}–${edit.line_range.end_line}` : edit.file_to_edit}
+                        className={`px-3 py-1 rounded-md text-xs font-mono whitespace-nowrap transition-colors
+                          ${idx === activeIndex
+                            ? 'bg-vibe-accent/20 text-white border border-vibe-accent/40'
+                            : 'text-vibe-muted hover:text-white border border-transparent'
+                          }`}
+                      >
+                        {isTestTab(idx) ? `🧪 Test · ${test!.framework}` : edit.file_to_edit.split('/').pop() || edit.file_to_edit}
+                        {!isTestTab(idx) && isNewFile(edit.file_to_edit) && <span className="ml-1 text-yellow-400">+</span>}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex rounded-md border border-vibe-muted/20 overflow-hidden text-xs mr-2">
+                    {(['diff', 'preview'] as const).map(option => (
+                      <button
+                        key={option}
+                        onClick={() => setPanel(option)}
+                        className={`px-2 py-1 transition-colors ${panel === option ? 'bg-vibe-accent/20 text-white' : 'text-vibe-muted hover:text-white'}`}
+                      >
+                        {option === 'diff' ? 'Diff' : 'Preview'}
+                      </button>
+                    ))}
+                  </div>
+                  <div className={`flex rounded-md border border-vibe-muted/20 overflow-hidden text-xs ${panel === 'preview' ? 'invisible' : ''}`}>
+                    {(['inline', 'split'] as DiffViewMode[]).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setViewMode(mode)}
+                        className={`px-2 py-1 transition-colors ${viewMode === mode ? 'bg-vibe-accent/20 text-white' : 'text-vibe-muted hover:text-white'}`}
+                      >
+                        {mode === 'inline' ? 'Inline' : 'Side by side'}
+                      </button>
+                    ))}
+                  </div>
                </div>
+
+               {panel === 'diff' && activeEdit && (
+                 <div className="px-4 py-2 bg-[#161b22]/60 border-b border-vibe-muted/10 text-xs text-vibe-muted">
+                   <span className="font-mono text-vibe-text">{activeEdit.file_to_edit}</span>
+                   {isTestTab(activeIndex) ? (
+                     <span className="ml-2 px-1.5 py-0.5 rounded bg-vibe-accent/10 text-vibe-accent border border-vibe-accent/20">
+                       {test!.framework} regression test
+                     </span>
+                   ) : isNewFile(activeEdit.file_to_edit) && (
+                     <span className="ml-2 px-1.5 py-0.5 rounded bg-yellow-500/10 text-yellow-400 border border-yellow-500/20">
+                       not in submitted files
+                     </span>
+                   )}
+                   {activeEdit.explanation && <span> — {activeEdit.explanation}</span>}
+                 </div>
+               )}
                
                <div className="relative flex-1 overflow-auto">
-                 <pre className="p-6 text-sm font-mono leading-relaxed">
-                   <code 
-                      key={latestReport.code_patch}
-                      ref={codeRef} 
-                      className={`${getLanguageClass(latestReport.file_to_edit)} outline-none`}
-                   >
-                     {latestReport.code_patch}
-                   </code>
-                 </pre>
+                 {panel === 'preview' && <PreviewSandbox original={codeContext} patched={patchedFiles} />}
+                 {panel === 'diff' && activeEdit && (
+                   <DiffViewer
+                     filePath={activeEdit.file_to_edit}
+                     oldText={originalOf(activeEdit.file_to_edit)}
+                     newText={activeEdit.code_patch}
+                     mode={viewMode}
+                   />
+                 )}
                  <div className="absolute top-0 right-0 w-64 h-64 bg-vibe-accent/5 rounded-full blur-3xl pointer-events-none"></div>
                </div>
 
                <div className="p-4 bg-[#161b22] border-t border-vibe-muted/10 flex justify-between items-center">
                  <div className="text-xs text-vibe-muted">
-                   Generated by Gemini 3 Pro
+                   Generated by {modelLabel}
+                   {usage && (
+                     <span
+                       className="ml-2 font-mono"
+                       title={`${usage.requests} request${usage.requests === 1 ? '' : 's'} to ${usage.model}${usage.estimated ? '; the provider reported no usage, so this is estimated' : ''}`}
+                     >
+                       · {usage.estimated ? '~' : ''}{formatTokens(usage.inputTokens)} in / {formatTokens(usage.outputTokens)} out · {formatCost(usage.costUsd)}
+                     </span>
+                   )}
+                 </div>
+                 <div className="flex items-center gap-3">
+                   <button
+                    onClick={handleCopyPatch}
+                    disabled={!patch}
+                    className="px-4 py-2 border border-vibe-muted/30 text-vibe-text text-sm rounded-lg hover:bg-vibe-dark transition-colors disabled:opacity-50"
+                   >
+                     {patchCopied ? 'Copied!' : 'Copy as .patch'}
+                   </button>
+                   <button 
+                    onClick={() => triggerShippingSequence()}
+                    disabled={!patch}
+                    title={failedVerification ? 'The patched files have syntax errors' : undefined}
+                    className={`px-4 py-2 font-bold text-sm rounded-lg transition-colors disabled:opacity-50
+                      ${failedVerification
+                        ? 'border border-red-500/40 text-red-300 hover:bg-red-500/10'
+                        : 'bg-vibe-success text-vibe-dark hover:bg-vibe-success/90 shadow-lg shadow-vibe-success/20'
+                      }`}
+                   >
+                     {failedVerification ? 'Apply Anyway' : 'Apply Fix'}
+                   </button>
                  </div>
-                 <button 
-                  onClick={() => triggerShippingSequence()}
-                  className="px-4 py-2 bg-vibe-success text-vibe-dark font-bold text-sm rounded-lg hover:bg-vibe-success/90 transition-colors shadow-lg shadow-vibe-success/20"
-                 >
-                   Apply Fix
-                 </button>
                </div>
             </div>
           </>
         )}
 
-        {/* State 2: Shipping (Terminal) */}
-        {shippingStatus === 'shipping' && (
+        {/* State 2: Shipping (Terminal), kept on screen if it fails */}
+        {(shippingStatus === 'shipping' || shippingStatus === 'failed') && (
           <div className="flex-1 bg-[#0d1117] rounded-xl border border-vibe-muted/20 overflow-hidden flex flex-col p-6 font-mono text-sm shadow-2xl">
              <div className="flex space-x-2 mb-4">
                 <div className="w-3 h-3 rounded-full bg-[#ff5f56]"></div>
@@ -269,13 +469,27 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ history, latestReport,
                     {log}
                   </div>
                 ))}
-                <div className="animate-pulse text-green-400">_</div>
+                {shippingStatus === 'shipping' && <div className="animate-pulse text-green-400">_</div>}
+                {shipError && (
+                  <div className="text-red-400 whitespace-pre-wrap">
+                    <span className="mr-2">✗</span>
+                    {shipError}
+                  </div>
+                )}
              </div>
+             {shippingStatus === 'failed' && (
+               <button
+                 onClick={() => setShippingStatus('idle')}
+                 className="self-start mt-4 px-4 py-2 border border-vibe-muted/30 text-vibe-text text-xs rounded-lg hover:bg-vibe-card transition-colors font-sans"
+               >
+                 Back to patch
+               </button>
+             )}
           </div>
         )}
 
         {/* State 3: Shipped (Success) */}
-        {shippingStatus === 'shipped' && (
+        {shippingStatus === 'shipped' && shipResult && (
           <div className="flex-1 flex flex-col items-center justify-center space-y-6 animate-fade-in bg-vibe-card rounded-xl border border-vibe-muted/20 relative overflow-hidden">
              
              {/* Background Effects */}
@@ -289,13 +503,13 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ history, latestReport,
              </div>
 
              <div className="text-center relative z-10 space-y-2">
-                <h2 className="text-3xl font-bold text-white">Pull Request Open!</h2>
-                <p className="text-vibe-muted">Branch <span className="font-mono text-vibe-accent bg-vibe-accent/10 px-2 py-0.5 rounded">vibefix/mobile-red-button</span> created.</p>
+                <h2 className="text-3xl font-bold text-white">Pull Request #{shipResult.pullRequestNumber} Open!</h2>
+                <p className="text-vibe-muted">Branch <span className="font-mono text-vibe-accent bg-vibe-accent/10 px-2 py-0.5 rounded">{shipResult.branch}</span> created.</p>
              </div>
 
              <div className="flex gap-4 relative z-10 mt-8">
                 <a 
-                  href={githubUrl}
+                  href={shipResult.pullRequestUrl}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="px-6 py-3 bg-vibe-card border border-vibe-muted/30 rounded-xl text-white font-semibold hover:bg-vibe-dark transition-colors flex items-center gap-2 group"
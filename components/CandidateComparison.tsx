@@ -0,0 +1,85 @@
+import React, { useMemo } from 'react';
+import { BugReport, Candidate, SourceFile } from '../types';
+import VerificationStatus from './VerificationStatus';
+import { candidateLabel, isSameFix } from '../services/candidates';
+import { createEditsPatch } from '../utils/diff';
+
+interface CandidateComparisonProps {
+  // Best first
+  candidates: Candidate[];
+  codeContext: SourceFile[];
+  currentReport: BugReport;
+  onPromote: (candidate: Candidate) => void;
+  onClose: () => void;
+  isRefining: boolean;
+}
+
+const lineClass = (line: string) => {
+  if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('diff ')) return 'text-white font-semibold';
+  if (line.startsWith('@@')) return 'text-cyan-400';
+  if (line.startsWith('+')) return 'text-green-400 bg-green-500/10';
+  if (line.startsWith('-')) return 'text-red-400 bg-red-500/10';
+  return 'text-vibe-muted';
+};
+
+// The alternative fixes next to each other, each with its patch, so one can be picked to continue with
+const CandidateComparison: React.FC<CandidateComparisonProps> = ({ candidates, codeContext, currentReport, onPromote, onClose, isRefining }) => {
+  const patches = useMemo(
+    () => candidates.map(candidate => createEditsPatch(codeContext, candidate.report.edits)),
+    [candidates, codeContext]
+  );
+
+  return (
+    <div className="flex-1 flex flex-col bg-vibe-card rounded-xl border border-vibe-muted/20 overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b border-vibe-muted/10">
+        <div>
+          <h3 className="font-bold text-lg text-white">{candidates.length} candidate fixes</h3>
+          <p className="text-xs text-vibe-muted">Ranked by the model's confidence, then by the size of the patch.</p>
+        </div>
+        <button onClick={onClose} className="text-xs text-vibe-muted hover:text-white underline">Back to patch</button>
+      </div>
+
+      <div className="flex-1 flex gap-3 p-3 overflow-x-auto">
+        {candidates.map((candidate, index) => {
+          const { report } = candidate;
+          const isCurrent = isSameFix(report, currentReport);
+          return (
+            <div key={candidate.id} className={`min-w-[20rem] flex-1 flex flex-col rounded-xl border bg-vibe-dark/50 overflow-hidden ${isCurrent ? 'border-vibe-accent/50' : 'border-vibe-muted/20'}`}>
+              <div className="p-3 space-y-2 border-b border-vibe-muted/10">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-semibold text-white">#{index + 1} {candidateLabel(candidate)}</p>
+                  {isCurrent ? (
+                    <span className="text-xs text-vibe-accent font-semibold">Current</span>
+                  ) : (
+                    <button
+                      onClick={() => onPromote(candidate)}
+                      disabled={isRefining}
+                      className="px-3 py-1 rounded-md bg-vibe-accent/20 text-vibe-accent text-xs font-semibold hover:bg-vibe-accent/30 disabled:opacity-50"
+                    >
+                      Use this fix
+                    </button>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 text-xs text-vibe-muted">
+                  <span>{report.confidence === undefined ? 'No confidence' : `${Math.round(report.confidence * 100)}% confident`}</span>
+                  <span>· {candidate.changedLines} line{candidate.changedLines === 1 ? '' : 's'} changed</span>
+                  <span>· {report.edits.length} file{report.edits.length === 1 ? '' : 's'}</span>
+                  {report.root_cause && <span>· {report.root_cause}</span>}
+                  <VerificationStatus verification={report.verification} />
+                </div>
+                <p className="text-xs text-vibe-text line-clamp-4">{report.explanation}</p>
+              </div>
+              <pre className="flex-1 overflow-auto p-3 text-[11px] leading-relaxed font-mono">
+                {patches[index]
+                  ? patches[index].split('\n').map((line, i) => <div key={i} className={lineClass(line)}>{line || ' '}</div>)
+                  : <span className="text-vibe-muted">No changes.</span>}
+              </pre>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CandidateComparison;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { FixStrategy } from '../types';
+import { MODELS } from '../services/models';
+import { CandidateSpec, defaultCandidateSpecs, FIX_STRATEGIES, MAX_CANDIDATES } from '../services/candidates';
+import { BudgetRequest, checkBudget, formatCost } from '../services/tokenBudget';
+
+interface CandidateSettingsProps {
+  specs: CandidateSpec[];
+  onChange: (specs: CandidateSpec[]) => void;
+  modelName: string;
+  budget: BudgetRequest;
+}
+
+const selectClass = 'bg-vibe-dark border border-vibe-muted/20 rounded-md px-2 py-1 text-xs text-vibe-text focus:outline-none focus:border-vibe-accent/50';
+
+// How many alternative fixes to generate, and the strategy and model behind each
+const CandidateSettings: React.FC<CandidateSettingsProps> = ({ specs, onChange, modelName, budget }) => {
+  const update = (index: number, change: Partial<CandidateSpec>) =>
+    onChange(specs.map((spec, i) => (i === index ? { ...spec, ...change } : spec)));
+
+  // Each fix is a full analysis, so the estimate adds up; unknown prices make the total unknown
+  const costs = specs.map(spec => checkBudget(budget, spec.model || modelName).costUsd);
+  const total = costs.some(cost => cost === null) ? null : (costs as number[]).reduce((sum, cost) => sum + cost, 0);
+
+  return (
+    <div className="bg-vibe-card rounded-2xl p-4 border border-vibe-muted/10 shadow-xl shadow-black/20 space-y-3 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <label className="text-vibe-muted flex items-center gap-2">
+          Fixes to generate
+          <select
+            value={specs.length}
+            onChange={(e) => onChange(defaultCandidateSpecs(Number(e.target.value)))}
+            className={selectClass}
+          >
+            {Array.from({ length: MAX_CANDIDATES }, (_, i) => i + 1).map(count => (
+              <option key={count} value={count}>{count}</option>
+            ))}
+          </select>
+        </label>
+        {specs.length > 1 && <span className="text-vibe-muted">{formatCost(total)} in total</span>}
+      </div>
+
+      {specs.length > 1 && specs.map((spec, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <span className="w-4 text-vibe-muted">{index + 1}.</span>
+          <select
+            value={spec.strategy}
+            onChange={(e) => update(index, { strategy: e.target.value as FixStrategy })}
+            className={`${selectClass} flex-1`}
+          >
+            {FIX_STRATEGIES.map(strategy => <option key={strategy.id} value={strategy.id}>{strategy.label}</option>)}
+          </select>
+          <select
+            value={spec.model || ''}
+            onChange={(e) => update(index, { model: e.target.value || undefined })}
+            className={`${selectClass} flex-1`}
+          >
+            <option value="">Selected model</option>
+            {MODELS.map(model => <option key={model.id} value={model.id}>{model.label}</option>)}
+          </select>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CandidateSettings;
@@ -1,8 +1,11 @@
-import React from 'react';
+import React, { useCallback, useRef, useState } from 'react';
+import { SourceFile } from '../types';
+import { mergeSourceFiles, readDroppedSources, readFileListSources } from '../utils/sourceFiles';
+import RepoSearch from './RepoSearch';
 
 interface CodeInputProps {
-  code: string;
-  setCode: (code: string) => void;
+  files: SourceFile[];
+  setFiles: (files: SourceFile[]) => void;
 }
 
 const MESSY_SNIPPET = `<!DOCTYPE html>
@@ -49,28 +52,182 @@ const MESSY_SNIPPET = `<!DOCTYPE html>
 </body>
 </html>`;
 
-const CodeInput: React.FC<CodeInputProps> = ({ code, setCode }) => {
+const CodeInput: React.FC<CodeInputProps> = ({ files, setFiles }) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isRepoSearchOpen, setIsRepoSearchOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const activeFile = files[Math.min(activeIndex, files.length - 1)];
+
+  const addFiles = useCallback((incoming: SourceFile[]) => {
+    if (incoming.length === 0) {
+      alert("No readable source files found.");
+      return;
+    }
+    const merged = mergeSourceFiles(files, incoming);
+    setFiles(merged);
+    setActiveIndex(merged.findIndex(f => f.path === incoming[0].path));
+  }, [files, setFiles]);
+
+  const updateActiveFile = (patch: Partial<SourceFile>) => {
+    setFiles(files.map(f => (f === activeFile ? { ...f, ...patch } : f)));
+  };
+
+  const handleAddBlank = () => {
+    let n = files.length + 1;
+    while (files.some(f => f.path === `untitled-${n}.tsx`)) n++;
+    setFiles([...files, { path: `untitled-${n}.tsx`, content: '' }]);
+    setActiveIndex(files.length);
+  };
+
+  const handleRemove = (idx: number) => {
+    setFiles(files.filter((_, i) => i !== idx));
+    setActiveIndex(Math.max(0, Math.min(activeIndex, files.length - 2)));
+  };
+
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    try {
+      addFiles(await readDroppedSources(e.dataTransfer));
+    } catch (err: any) {
+      alert("Failed to read dropped files: " + err.message);
+    }
+  }, [addFiles]);
+
+  const handleFileInput = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      addFiles(await readFileListSources(e.target.files));
+    }
+    e.target.value = '';
+  }, [addFiles]);
+
   return (
-    <div className="flex flex-col h-full">
+    <div
+      className="flex flex-col h-full relative"
+      onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+      onDragLeave={(e) => { e.preventDefault(); setIsDragging(false); }}
+      onDrop={handleDrop}
+    >
+      <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleFileInput} />
+      <input
+        ref={folderInputRef}
+        type="file"
+        className="hidden"
+        onChange={handleFileInput}
+        {...({ webkitdirectory: '', directory: '' } as any)}
+      />
+
       <label className="text-sm font-medium text-vibe-muted mb-2 flex justify-between items-center">
-        <span>Relevant Code Snippet</span>
-        <button 
-          onClick={() => setCode(MESSY_SNIPPET)}
-          className="text-xs text-vibe-accent hover:text-white transition-colors bg-vibe-accent/10 px-2 py-1 rounded-md"
-        >
-          Paste Demo Code
-        </button>
+        <span>Source Files</span>
+        <div className="flex gap-2">
+          <button 
+            onClick={handleAddBlank}
+            className="text-xs text-vibe-muted hover:text-white transition-colors bg-vibe-muted/10 px-2 py-1 rounded-md"
+          >
+            + New File
+          </button>
+          <button 
+            onClick={() => fileInputRef.current?.click()}
+            className="text-xs text-vibe-muted hover:text-white transition-colors bg-vibe-muted/10 px-2 py-1 rounded-md"
+          >
+            Open Files
+          </button>
+          <button 
+            onClick={() => folderInputRef.current?.click()}
+            className="text-xs text-vibe-muted hover:text-white transition-colors bg-vibe-muted/10 px-2 py-1 rounded-md"
+          >
+            Open Folder
+          </button>
+          <button 
+            onClick={() => setIsRepoSearchOpen(open => !open)}
+            className={`text-xs transition-colors px-2 py-1 rounded-md ${isRepoSearchOpen ? 'bg-vibe-accent/20 text-white' : 'text-vibe-muted hover:text-white bg-vibe-muted/10'}`}
+          >
+            From Repo
+          </button>
+          <button 
+            onClick={() => addFiles([{ path: 'index.html', content: MESSY_SNIPPET }])}
+            className="text-xs text-vibe-accent hover:text-white transition-colors bg-vibe-accent/10 px-2 py-1 rounded-md"
+          >
+            Paste Demo Code
+          </button>
+        </div>
       </label>
-      <textarea
-        className="flex-1 w-full bg-vibe-card border border-vibe-muted/20 rounded-xl p-4 font-mono text-sm text-vibe-text focus:outline-none focus:border-vibe-accent/50 focus:ring-1 focus:ring-vibe-accent/50 resize-none transition-all placeholder-vibe-muted/30"
-        placeholder={`// Paste your broken component here...
+
+      {isRepoSearchOpen ? (
+        <RepoSearch
+          onUseFiles={(picked) => {
+            addFiles(picked);
+            setIsRepoSearchOpen(false);
+          }}
+          onClose={() => setIsRepoSearchOpen(false)}
+        />
+      ) : files.length === 0 ? (
+        <div
+          onClick={handleAddBlank}
+          className={`flex-1 border-2 border-dashed rounded-xl flex flex-col items-center justify-center text-center p-6 cursor-pointer transition-all
+            ${isDragging ? 'border-vibe-accent bg-vibe-accent/10' : 'border-vibe-muted/20 hover:border-vibe-accent/50'}`}
+        >
+          <p className="font-semibold text-white">Drop source files or a folder here</p>
+          <p className="text-sm text-vibe-muted mt-1">or click to paste code into a new file</p>
+          <p className="text-xs text-vibe-muted/70 mt-3 max-w-xs">Each file keeps its relative path so VibeFix knows exactly what it is editing.</p>
+        </div>
+      ) : (
+        <div className={`flex-1 flex flex-col bg-vibe-card border rounded-xl overflow-hidden transition-all
+          ${isDragging ? 'border-vibe-accent' : 'border-vibe-muted/20'}`}
+        >
+          <div className="flex gap-1 p-1 overflow-x-auto border-b border-vibe-muted/10 bg-vibe-dark/30">
+            {files.map((file, idx) => (
+              <div
+                key={idx}
+                className={`group flex items-center gap-1 px-2 py-1 rounded-md text-xs font-mono whitespace-nowrap cursor-pointer
+                  ${file === activeFile ? 'bg-vibe-accent/20 text-white' : 'text-vibe-muted hover:text-white'}`}
+                onClick={() => setActiveIndex(idx)}
+                title={file.reasons ? `${file.path}\nPicked from the repository: ${file.reasons.join('; ')}` : file.path}
+              >
+                {file.reasons && <span className="text-vibe-accent" aria-label="Picked from the repository">✦</span>}
+                {file.path.split('/').pop() || file.path}
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleRemove(idx); }}
+                  className="opacity-50 hover:opacity-100 hover:text-red-400"
+                  aria-label={`Remove ${file.path}`}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+          {activeFile && (
+            <>
+              <input
+                type="text"
+                value={activeFile.path}
+                onChange={(e) => updateActiveFile({ path: e.target.value })}
+                placeholder="src/components/Button.tsx"
+                className="bg-transparent border-b border-vibe-muted/10 px-4 py-2 font-mono text-xs text-vibe-muted focus:outline-none focus:text-white"
+                spellCheck={false}
+              />
+              {activeFile.reasons && (
+                <p className="px-4 py-1.5 border-b border-vibe-muted/10 text-[11px] text-vibe-muted">
+                  <span className="text-vibe-accent">✦ Picked from the repository:</span> {activeFile.reasons.join('; ')}
+                </p>
+              )}
+              <textarea
+                className="flex-1 w-full bg-transparent p-4 font-mono text-sm text-vibe-text focus:outline-none resize-none placeholder-vibe-muted/30"
+                placeholder={`// Paste your broken component here...
 export const Button = () => {
   return <button className="invisible-on-mobile">Click Me</button>;
 }`}
-        value={code}
-        onChange={(e) => setCode(e.target.value)}
-        spellCheck={false}
-      />
+                value={activeFile.content}
+                onChange={(e) => updateActiveFile({ content: e.target.value })}
+                spellCheck={false}
+              />
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 };
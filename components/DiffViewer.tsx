@@ -0,0 +1,137 @@
+import React, { useMemo } from 'react';
+import { buildHunks, diffLines, DiffLine } from '../utils/diff';
+
+export type DiffViewMode = 'inline' | 'split';
+
+interface DiffViewerProps {
+  filePath: string;
+  oldText: string;
+  newText: string;
+  mode: DiffViewMode;
+}
+
+interface SplitRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// Determine Prism language for a file
+const getLanguage = (filename: string) => {
+  const ext = filename.split('.').pop()?.toLowerCase();
+  switch (ext) {
+    case 'js': return 'javascript';
+    case 'jsx': return 'jsx';
+    case 'ts':
+    case 'tsx': return 'tsx';
+    case 'html': return 'markup';
+    case 'json': return 'json';
+    default: return 'css';
+  }
+};
+
+// Highlight a single line with Prism if it's loaded, falling back to escaped text
+const highlightLine = (text: string, language: string): string => {
+  const prism = (window as any).Prism;
+  const grammar = prism?.languages?.[language];
+  if (grammar) return prism.highlight(text, grammar, language);
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+// Pair up runs of removed and added lines so they sit next to each other
+const toSplitRows = (lines: DiffLine[]): SplitRow[] => {
+  const rows: SplitRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  lines.forEach(line => {
+    if (line.type === 'remove') {
+      removed.push(line);
+    } else if (line.type === 'add') {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  });
+  flush();
+  return rows;
+};
+
+const LINE_STYLES: Record<DiffLine['type'], string> = {
+  context: 'text-vibe-text',
+  add: 'bg-green-500/10 text-green-200',
+  remove: 'bg-red-500/10 text-red-200',
+};
+
+const LINE_PREFIX: Record<DiffLine['type'], string> = {
+  context: ' ',
+  add: '+',
+  remove: '-',
+};
+
+const Gutter: React.FC<{ value?: number }> = ({ value }) => (
+  <td className="w-10 px-2 text-right text-vibe-muted/40 select-none align-top">{value ?? ''}</td>
+);
+
+const CodeCell: React.FC<{ line?: DiffLine; language: string }> = ({ line, language }) => {
+  if (!line) return <td className="bg-vibe-dark/40" />;
+  return (
+    <td className={`px-2 whitespace-pre ${LINE_STYLES[line.type]}`}>
+      <span className="select-none text-vibe-muted/60 mr-2">{LINE_PREFIX[line.type]}</span>
+      <code dangerouslySetInnerHTML={{ __html: highlightLine(line.text, language) }} />
+    </td>
+  );
+};
+
+const DiffViewer: React.FC<DiffViewerProps> = ({ filePath, oldText, newText, mode }) => {
+  const language = getLanguage(filePath);
+  const hunks = useMemo(() => buildHunks(diffLines(oldText, newText), 5), [oldText, newText]);
+
+  if (hunks.length === 0) {
+    return (
+      <div className="p-6 text-sm text-vibe-muted font-mono">No changes in this file.</div>
+    );
+  }
+
+  return (
+    <table className="w-full text-sm font-mono leading-relaxed border-collapse">
+      <tbody>
+        {hunks.map((hunk, hunkIdx) => (
+          <React.Fragment key={hunkIdx}>
+            <tr className="bg-vibe-accent/5 text-vibe-accent/70 text-xs">
+              <td colSpan={mode === 'split' ? 4 : 3} className="px-3 py-1">
+                @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+              </td>
+            </tr>
+            {mode === 'inline'
+              ? hunk.lines.map((line, idx) => (
+                  <tr key={idx}>
+                    <Gutter value={line.oldLine} />
+                    <Gutter value={line.newLine} />
+                    <CodeCell line={line} language={language} />
+                  </tr>
+                ))
+              : toSplitRows(hunk.lines).map((row, idx) => (
+                  <tr key={idx}>
+                    <Gutter value={row.left?.oldLine} />
+                    <CodeCell line={row.left} language={language} />
+                    <Gutter value={row.right?.newLine} />
+                    <CodeCell line={row.right} language={language} />
+                  </tr>
+                ))}
+          </React.Fragment>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default DiffViewer;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { AnalysisErrorInfo, ErrorCategory } from '../types';
+
+interface ErrorBannerProps {
+  error: AnalysisErrorInfo;
+  modelLabel: string;
+  onDismiss: () => void;
+}
+
+interface Guidance {
+  title: string;
+  advice: (error: AnalysisErrorInfo, modelLabel: string) => string | null;
+}
+
+const waitHint = ({ retryAfterMs }: AnalysisErrorInfo) =>
+  retryAfterMs ? `try again in ${Math.ceil(retryAfterMs / 1000)}s` : 'wait a minute and try again';
+
+// What the user can do about each kind of failure
+const GUIDANCE: Record<ErrorCategory, Guidance> = {
+  quota: {
+    title: 'Out of quota',
+    advice: (error, model) => `${model} is rate limited or out of quota, and its fallbacks didn't help. Either ${waitHint(error)}, or pick a model from another provider.`,
+  },
+  auth: {
+    title: 'API key rejected',
+    advice: () => 'Check the key for this provider in .env.local (GEMINI_API_KEY, OPENAI_API_KEY or ANTHROPIC_API_KEY), then restart the VibeFix server (npm run server).',
+  },
+  'model-not-found': {
+    title: 'Model not available',
+    advice: (_error, model) => `Your key can't use ${model}, or the model name is wrong. Pick another model from the menu.`,
+  },
+  'invalid-input': {
+    title: 'Request rejected',
+    advice: () => 'The provider refused the input. Make sure the video is MP4 or WebM (Shrink video makes it smaller), or send fewer files.',
+  },
+  'parse-failure': {
+    title: 'Unreadable answer',
+    advice: () => 'The model did not answer with JSON, even after being asked again. Try again, or pick another model.',
+  },
+  'invalid-response': {
+    title: 'Incomplete answer',
+    advice: () => 'The model answered with an incomplete report, even after being asked again. Try again, or pick another model.',
+  },
+  network: {
+    title: "Can't reach the provider",
+    advice: () => 'Check your connection and that the VibeFix server is running. For Ollama or llama.cpp, make sure the local server is running.',
+  },
+  server: {
+    title: 'Provider error',
+    advice: (error) => `The provider had a problem on its side; ${waitHint(error)}.`,
+  },
+  unknown: {
+    title: 'Something went wrong',
+    advice: () => null,
+  },
+};
+
+const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, modelLabel, onDismiss }) => {
+  const guidance = GUIDANCE[error.category] || GUIDANCE.unknown;
+  const advice = guidance.advice(error, modelLabel);
+
+  return (
+    <div className="mb-6 p-4 rounded-xl bg-red-500/10 border border-red-500/20 text-red-200 flex items-start gap-3 animate-fade-in">
+      <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-red-400 shrink-0 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+      </svg>
+      <div className="flex-1 min-w-0 space-y-1">
+        <p className="font-semibold text-red-100">
+          {guidance.title}
+          {error.status && <span className="ml-2 text-xs font-mono text-red-300/70">HTTP {error.status}</span>}
+        </p>
+        {advice && <p className="text-sm">{advice}</p>}
+        <p className="text-xs text-red-200/60 break-words">{error.message}</p>
+      </div>
+      <button onClick={onDismiss} className="text-red-300/70 hover:text-white text-sm" aria-label="Dismiss error">×</button>
+    </div>
+  );
+};
+
+export default ErrorBanner;
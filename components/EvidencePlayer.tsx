@@ -0,0 +1,107 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { VideoEvidence } from '../types';
+import { formatDuration } from '../utils/media';
+
+interface EvidencePlayerProps {
+  // Null when the recording isn't available, e.g. in a session reopened from history
+  video: File | null;
+  evidence: VideoEvidence[];
+}
+
+const formatRange = ({ start_seconds, end_seconds }: VideoEvidence) =>
+  end_seconds > start_seconds
+    ? `${formatDuration(start_seconds)}–${formatDuration(end_seconds)}`
+    : formatDuration(start_seconds);
+
+const EvidencePlayer: React.FC<EvidencePlayerProps> = ({ video, evidence }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [url, setUrl] = useState<string | null>(null);
+  const [duration, setDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  useEffect(() => {
+    if (!video) return;
+    const objectUrl = URL.createObjectURL(video);
+    setUrl(objectUrl);
+    return () => {
+      URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [video]);
+
+  // MediaRecorder output often reports an infinite duration; the last marker is the best guess then
+  const lastMoment = evidence.reduce((max, item) => Math.max(max, item.end_seconds), 0);
+  const timelineLength = Number.isFinite(duration) && duration > 0 ? duration : lastMoment || 1;
+
+  const seek = (item: VideoEvidence) => {
+    const player = videoRef.current;
+    if (!player) return;
+    player.currentTime = item.start_seconds;
+    player.play().catch(() => {});
+  };
+
+  const isActive = (item: VideoEvidence) =>
+    currentTime >= item.start_seconds && currentTime <= Math.max(item.end_seconds, item.start_seconds + 1);
+
+  if (!video && evidence.length === 0) return null;
+
+  return (
+    <div className="p-4 border-b border-vibe-muted/10 space-y-3">
+      {url && (
+        <>
+          <video
+            ref={videoRef}
+            src={url}
+            controls
+            onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+            onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+            className="w-full max-h-48 rounded-lg bg-black"
+          />
+          {evidence.length > 0 && (
+            <div className="relative h-2 rounded-full bg-vibe-dark">
+              {evidence.map((item, idx) => (
+                <button
+                  key={idx}
+                  onClick={() => seek(item)}
+                  title={`${formatRange(item)} ${item.description}`}
+                  className={`absolute top-0 h-2 min-w-[6px] rounded-full transition-colors ${isActive(item) ? 'bg-vibe-accent' : 'bg-red-400/70 hover:bg-red-400'}`}
+                  style={{
+                    left: `${Math.min(100, (item.start_seconds / timelineLength) * 100)}%`,
+                    width: `${Math.min(100, ((item.end_seconds - item.start_seconds) / timelineLength) * 100)}%`,
+                  }}
+                />
+              ))}
+              <div
+                className="absolute -top-0.5 w-0.5 h-3 bg-white pointer-events-none"
+                style={{ left: `${Math.min(100, (currentTime / timelineLength) * 100)}%` }}
+              />
+            </div>
+          )}
+        </>
+      )}
+
+      {evidence.length > 0 && (
+        <ul className="space-y-1 max-h-32 overflow-y-auto">
+          {evidence.map((item, idx) => (
+            <li key={idx}>
+              <button
+                onClick={() => seek(item)}
+                disabled={!url}
+                className={`w-full text-left flex gap-2 px-2 py-1 rounded-lg text-xs transition-colors disabled:cursor-default
+                  ${url && isActive(item) ? 'bg-vibe-accent/15 text-white' : 'text-vibe-muted enabled:hover:bg-vibe-dark/60 enabled:hover:text-white'}`}
+              >
+                <span className="font-mono text-vibe-accent shrink-0">{formatRange(item)}</span>
+                <span>{item.description}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {!url && evidence.length > 0 && (
+        <p className="text-xs text-vibe-muted/70">Recordings aren't stored with saved bugs, so these moments can't be played here.</p>
+      )}
+    </div>
+  );
+};
+
+export default EvidencePlayer;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { ExportFormat, ExportResult, Session } from '../types';
+import { EXPORT_FORMATS, exportFileContent, exportSession, sendExport } from '../services/exporters';
+
+interface ExportMenuProps {
+  session: Session;
+  // The revision on screen, which is the one exported
+  revision: number;
+  send?: typeof sendExport;
+}
+
+type SendState =
+  | { status: 'sending' }
+  | { status: 'sent'; result: ExportResult }
+  | { status: 'failed'; error: string };
+
+const downloadFile = (name: string, type: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Turns the session into a ticket or report, to download or send to the configured tracker
+const ExportMenu: React.FC<ExportMenuProps> = ({ session, revision, send = sendExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [sends, setSends] = useState<Partial<Record<ExportFormat, SendState>>>({});
+
+  const handleDownload = (format: ExportFormat) => {
+    const exported = exportSession(session, format, { revision });
+    downloadFile(exported.filename, exported.mimeType, exportFileContent(exported));
+  };
+
+  const handleSend = async (format: ExportFormat) => {
+    const { title, content } = exportSession(session, format, { revision });
+    setSends(prev => ({ ...prev, [format]: { status: 'sending' } }));
+    try {
+      const result = await send({ format, title, content });
+      setSends(prev => ({ ...prev, [format]: { status: 'sent', result } }));
+    } catch (e: any) {
+      setSends(prev => ({ ...prev, [format]: { status: 'failed', error: e.message || 'Export failed.' } }));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => setIsOpen(open => !open)} className="text-xs text-vibe-muted hover:text-white underline">
+        Export
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-6 z-20 w-80 bg-vibe-card border border-vibe-muted/20 rounded-xl shadow-2xl shadow-black/40 p-3 space-y-2 text-xs">
+          <p className="text-vibe-muted">Revision {revision} as a ticket, with the patch, recording and refinement history.</p>
+          {EXPORT_FORMATS.map(({ id, label }) => {
+            const state = sends[id];
+            return (
+              <div key={id} className="p-2 rounded-lg bg-vibe-dark/60 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-white font-medium">{label}</span>
+                  <div className="flex gap-2">
+                    <button onClick={() => handleDownload(id)} className="px-2 py-1 rounded-md border border-vibe-muted/20 text-vibe-text hover:border-vibe-accent/50">
+                      Download
+                    </button>
+                    <button
+                      onClick={() => handleSend(id)}
+                      disabled={state?.status === 'sending'}
+                      className="px-2 py-1 rounded-md bg-vibe-accent/20 text-vibe-accent font-semibold hover:bg-vibe-accent/30 disabled:opacity-50"
+                    >
+                      {state?.status === 'sending' ? 'Sending...' : 'Send'}
+                    </button>
+                  </div>
+                </div>
+                {state?.status === 'sent' && (
+                  <p className="text-vibe-success">
+                    Sent{state.result.id ? ` as ${state.result.id}` : ''}.{' '}
+                    {state.result.url && <a href={state.result.url} target="_blank" rel="noreferrer" className="underline">Open</a>}
+                  </p>
+                )}
+                {state?.status === 'failed' && <p className="text-red-400">{state.error}</p>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
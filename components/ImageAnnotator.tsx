@@ -0,0 +1,105 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { EvidenceImage, ImageAnnotation } from '../types';
+import { drawAnnotation } from '../utils/images';
+
+interface ImageAnnotatorProps {
+  image: EvidenceImage;
+  onChange: (annotations: ImageAnnotation[]) => void;
+  onClose: () => void;
+}
+
+// Drags shorter than this (as a fraction of the image) are taken as stray clicks
+const MIN_DRAG = 0.01;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Draws boxes and arrows on a screenshot to point the model at the problem
+const ImageAnnotator: React.FC<ImageAnnotatorProps> = ({ image, onChange, onClose }) => {
+  const [tool, setTool] = useState<ImageAnnotation['kind']>('box');
+  const [draft, setDraft] = useState<ImageAnnotation | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const url = useMemo(() => URL.createObjectURL(image.file), [image.file]);
+  useEffect(() => () => URL.revokeObjectURL(url), [url]);
+
+  // The overlay is drawn the way the annotations will be flattened into the image
+  const redraw = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    canvas.width = canvas.clientWidth;
+    canvas.height = canvas.clientHeight;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    [...image.annotations, ...(draft ? [draft] : [])].forEach(annotation => drawAnnotation(context, annotation, canvas.width, canvas.height));
+  };
+  useEffect(redraw);
+
+  const pointAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = pointAt(e);
+    setDraft({ kind: tool, x1: x, y1: y, x2: x, y2: y });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!draft) return;
+    const { x, y } = pointAt(e);
+    setDraft({ ...draft, x2: x, y2: y });
+  };
+
+  const handlePointerUp = () => {
+    if (draft && Math.hypot(draft.x2 - draft.x1, draft.y2 - draft.y1) >= MIN_DRAG) {
+      onChange([...image.annotations, draft]);
+    }
+    setDraft(null);
+  };
+
+  const toolClass = (kind: ImageAnnotation['kind']) =>
+    `px-3 py-1 rounded-md text-xs font-semibold ${tool === kind ? 'bg-vibe-accent/20 text-white border border-vibe-accent/40' : 'text-vibe-muted border border-vibe-muted/20 hover:text-white'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-vibe-card rounded-2xl border border-vibe-muted/20 p-4 max-w-5xl w-full space-y-3" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm text-white font-semibold truncate">{image.label || image.name}</p>
+          <div className="flex items-center gap-2">
+            <button onClick={() => setTool('box')} className={toolClass('box')}>▭ Box</button>
+            <button onClick={() => setTool('arrow')} className={toolClass('arrow')}>↗ Arrow</button>
+            <button
+              onClick={() => onChange(image.annotations.slice(0, -1))}
+              disabled={image.annotations.length === 0}
+              className="px-3 py-1 text-xs text-vibe-muted hover:text-white disabled:opacity-40"
+            >
+              Undo
+            </button>
+            <button
+              onClick={() => onChange([])}
+              disabled={image.annotations.length === 0}
+              className="px-3 py-1 text-xs text-vibe-muted hover:text-white disabled:opacity-40"
+            >
+              Clear
+            </button>
+            <button onClick={onClose} className="px-3 py-1 rounded-md bg-vibe-accent text-white text-xs font-semibold">Done</button>
+          </div>
+        </div>
+        <div className="relative w-fit mx-auto">
+          <img src={url} alt={image.name} onLoad={redraw} className="block max-h-[70vh] max-w-full select-none" draggable={false} />
+          <canvas
+            ref={canvasRef}
+            className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={() => setDraft(null)}
+          />
+        </div>
+        <p className="text-xs text-vibe-muted">Drag to draw. The model is told that the red marks were added by you.</p>
+      </div>
+    </div>
+  );
+};
+
+export default ImageAnnotator;
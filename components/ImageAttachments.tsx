@@ -0,0 +1,73 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { EvidenceImage } from '../types';
+import { IMAGE_LABELS } from '../utils/images';
+import ImageAnnotator from './ImageAnnotator';
+
+interface ImageAttachmentsProps {
+  images: EvidenceImage[];
+  onChange: (images: EvidenceImage[]) => void;
+}
+
+const Thumbnail: React.FC<{ image: EvidenceImage }> = ({ image }) => {
+  const url = useMemo(() => URL.createObjectURL(image.file), [image.file]);
+  useEffect(() => () => URL.revokeObjectURL(url), [url]);
+  return <img src={url} alt={image.name} className="w-16 h-12 object-cover rounded-md border border-vibe-muted/20" />;
+};
+
+// The screenshots sent with the bug, each with a label the prompt refers to it by
+const ImageAttachments: React.FC<ImageAttachmentsProps> = ({ images, onChange }) => {
+  const [annotatingId, setAnnotatingId] = useState<string | null>(null);
+  const annotating = images.find(image => image.id === annotatingId) || null;
+
+  const update = (id: string, change: Partial<EvidenceImage>) =>
+    onChange(images.map(image => (image.id === id ? { ...image, ...change } : image)));
+
+  if (images.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <datalist id="image-labels">
+        {IMAGE_LABELS.map(label => <option key={label} value={label} />)}
+      </datalist>
+      {images.map((image, index) => (
+        <div key={image.id} className="flex items-center gap-3 p-2 rounded-xl bg-vibe-dark/60 border border-vibe-muted/10">
+          <button onClick={() => setAnnotatingId(image.id)} title="Annotate" className="shrink-0">
+            <Thumbnail image={image} />
+          </button>
+          <div className="flex-1 min-w-0 space-y-1">
+            <input
+              value={image.label}
+              onChange={(e) => update(image.id, { label: e.target.value })}
+              list="image-labels"
+              placeholder={`Image ${index + 1}, e.g. Expected or Actual`}
+              className="w-full bg-vibe-dark border border-vibe-muted/20 rounded-md px-2 py-1 text-xs text-vibe-text focus:outline-none focus:border-vibe-accent/50"
+            />
+            <p className="text-[11px] text-vibe-muted truncate">
+              {image.name}
+              {image.annotations.length > 0 && ` · ${image.annotations.length} mark${image.annotations.length === 1 ? '' : 's'}`}
+            </p>
+          </div>
+          <button onClick={() => setAnnotatingId(image.id)} className="text-xs text-vibe-muted hover:text-white underline">
+            Annotate
+          </button>
+          <button
+            onClick={() => onChange(images.filter(other => other.id !== image.id))}
+            className="text-xs text-vibe-muted hover:text-red-400"
+            aria-label={`Remove ${image.name}`}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      {annotating && (
+        <ImageAnnotator
+          image={annotating}
+          onChange={(annotations) => update(annotating.id, { annotations })}
+          onClose={() => setAnnotatingId(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ImageAttachments;
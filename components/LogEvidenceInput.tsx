@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { LogEvidence, SourceFile } from '../types';
+import { createLogEvidence, formatFrame, LOG_KINDS, LogKind, mapStackFrame, summarizeLog } from '../utils/logs';
+
+interface LogEvidenceInputProps {
+  logs: LogEvidence[];
+  onChange: (logs: LogEvidence[]) => void;
+  // The submitted code, which stack frames are matched against
+  files: SourceFile[];
+}
+
+const LogDetails: React.FC<{ log: LogEvidence; files: SourceFile[] }> = ({ log, files }) => {
+  if (log.kind === 'har') {
+    if (log.failed.length === 0) return <p className="text-vibe-muted">No request failed.</p>;
+    return (
+      <ul className="space-y-1">
+        {log.failed.map((request, i) => (
+          <li key={i} className="font-mono break-all">
+            <span className={request.status === 0 || request.status >= 500 ? 'text-red-400' : 'text-amber-400'}>
+              {request.status || 'failed'}
+            </span>{' '}
+            {request.method} {request.url}
+          </li>
+        ))}
+      </ul>
+    );
+  }
+  if (log.frames.length === 0) return <pre className="whitespace-pre-wrap break-all text-vibe-muted max-h-40 overflow-auto">{log.text}</pre>;
+  return (
+    <ul className="space-y-1">
+      {log.frames.map((frame, i) => {
+        const path = mapStackFrame(frame, files);
+        return (
+          <li key={i} className="font-mono break-all">
+            {path ? <span className="text-vibe-success">{path}:{frame.line}</span> : <span className="text-vibe-muted">{formatFrame(frame)}</span>}
+            {path && frame.functionName && <span className="text-vibe-muted"> in {frame.functionName}</span>}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+// Console output, stack traces and HAR files sent with the bug, pasted or picked from disk
+const LogEvidenceInput: React.FC<LogEvidenceInputProps> = ({ logs, onChange, files }) => {
+  const [text, setText] = useState('');
+  const [kind, setKind] = useState<LogKind | ''>('');
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Every item is parsed before any is added, so one bad file doesn't drop the others
+  const add = (items: { content: string; name: string; as?: LogKind }[]) => {
+    const added: LogEvidence[] = [];
+    const errors: string[] = [];
+    items.forEach(({ content, name, as }) => {
+      try {
+        added.push(createLogEvidence(content, name, as));
+      } catch (e: any) {
+        errors.push(e.message);
+      }
+    });
+    if (added.length > 0) onChange([...logs, ...added]);
+    setError(errors.length ? errors.join(' ') : null);
+    return errors.length === 0;
+  };
+
+  const handleAdd = () => {
+    if (!text.trim()) return;
+    const label = LOG_KINDS.find(option => option.id === kind)?.label || 'Pasted log';
+    if (add([{ content: text, name: `${label} ${logs.length + 1}`, as: kind || undefined }])) setText('');
+  };
+
+  const handleFileInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked: File[] = Array.from(e.target.files || []);
+    e.target.value = '';
+    add(await Promise.all(picked.map(async file => ({
+      content: await file.text(),
+      name: file.name,
+      as: file.name.toLowerCase().endsWith('.har') ? 'har' as const : undefined,
+    }))));
+  };
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={3}
+        placeholder="Paste console output, a stack trace or a HAR export"
+        className="w-full bg-vibe-dark border border-vibe-muted/20 rounded-xl px-3 py-2 text-xs font-mono text-vibe-text focus:outline-none focus:border-vibe-accent/50 resize-y"
+      />
+      <div className="flex items-center gap-2">
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as LogKind | '')}
+          className="bg-vibe-dark border border-vibe-muted/20 rounded-md px-2 py-1 text-xs text-vibe-muted focus:outline-none focus:border-vibe-accent/50"
+        >
+          <option value="">Detect kind</option>
+          {LOG_KINDS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+        </select>
+        <button
+          onClick={handleAdd}
+          disabled={!text.trim()}
+          className="px-3 py-1 rounded-md bg-vibe-accent/20 border border-vibe-accent/40 text-xs font-semibold text-white disabled:opacity-40"
+        >
+          Add
+        </button>
+        <label className="ml-auto text-xs text-vibe-muted hover:text-white underline cursor-pointer">
+          Attach .har or .log files
+          <input type="file" accept=".har,.log,.txt,.json" multiple onChange={handleFileInput} className="hidden" />
+        </label>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {logs.map(log => (
+        <div key={log.id} className="p-2 rounded-xl bg-vibe-dark/60 border border-vibe-muted/10 text-xs space-y-2">
+          <div className="flex items-center gap-3">
+            <button onClick={() => setExpandedId(expandedId === log.id ? null : log.id)} className="flex-1 min-w-0 text-left">
+              <p className="text-vibe-text truncate">
+                <span className="text-vibe-accent font-semibold">{LOG_KINDS.find(option => option.id === log.kind)?.label}</span> · {log.name}
+              </p>
+              <p className="text-[11px] text-vibe-muted">{summarizeLog(log, files)}</p>
+            </button>
+            <button
+              onClick={() => onChange(logs.filter(other => other.id !== log.id))}
+              className="text-vibe-muted hover:text-red-400"
+              aria-label={`Remove ${log.name}`}
+            >
+              ×
+            </button>
+          </div>
+          {expandedId === log.id && <LogDetails log={log} files={files} />}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default LogEvidenceInput;
@@ -0,0 +1,102 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SourceFile } from '../types';
+import { buildPreviewDocument, findPreviewEntry, VIEWPORT_PRESETS, ViewportPreset } from '../utils/preview';
+
+interface PreviewSandboxProps {
+  original: SourceFile[];
+  patched: SourceFile[];
+}
+
+interface PreviewPaneProps {
+  title: string;
+  html: string | null;
+  preset: ViewportPreset;
+  width: number;
+}
+
+// Renders the page at the preset's real size and scales it down to fit the pane,
+// so media queries see e.g. 375px even when the pane is narrower
+const PreviewPane: React.FC<PreviewPaneProps> = ({ title, html, preset, width }) => {
+  const scale = width > 0 ? Math.min(1, width / preset.width) : 1;
+  return (
+    <div className="flex-1 min-w-0 flex flex-col gap-2">
+      <div className="text-xs text-vibe-muted flex justify-between">
+        <span className="font-semibold text-vibe-text">{title}</span>
+        <span>{preset.width}×{preset.height}{scale < 1 && ` · ${Math.round(scale * 100)}%`}</span>
+      </div>
+      <div
+        className="overflow-hidden rounded-lg border border-vibe-muted/20 bg-white"
+        style={{ width: preset.width * scale, height: preset.height * scale }}
+      >
+        {html === null ? (
+          <div className="h-full flex items-center justify-center text-xs text-gray-500 p-4 text-center">
+            This version has no HTML page to render.
+          </div>
+        ) : (
+          <iframe
+            title={title}
+            srcDoc={html}
+            // Scripts run, but without same-origin access to VibeFix itself
+            sandbox="allow-scripts"
+            style={{ width: preset.width, height: preset.height, transform: `scale(${scale})`, transformOrigin: 'top left' }}
+            className="border-0"
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+const PreviewSandbox: React.FC<PreviewSandboxProps> = ({ original, patched }) => {
+  const [preset, setPreset] = useState<ViewportPreset>(VIEWPORT_PRESETS[0]);
+  const [paneWidth, setPaneWidth] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Both versions render the same page; a fix may also add the page it needs
+  const entry = findPreviewEntry(original) ?? findPreviewEntry(patched);
+  const before = useMemo(() => (entry ? buildPreviewDocument(original, entry) : null), [original, entry]);
+  const after = useMemo(() => (entry ? buildPreviewDocument(patched, entry) : null), [patched, entry]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    // Two panes side by side with a gap-4 (16px) between them
+    const observer = new ResizeObserver(([item]) => setPaneWidth((item.contentRect.width - 16) / 2));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  return (
+    <div className="h-full flex flex-col gap-3 p-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-vibe-muted font-mono truncate">{entry ?? 'No HTML page submitted'}</p>
+        <div className="flex rounded-md border border-vibe-muted/20 overflow-hidden text-xs shrink-0">
+          {VIEWPORT_PRESETS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setPreset(option)}
+              className={`px-2 py-1 transition-colors ${preset.id === option.id ? 'bg-vibe-accent/20 text-white' : 'text-vibe-muted hover:text-white'}`}
+            >
+              {option.label} · {option.width}px
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div ref={containerRef} className="flex-1 overflow-auto">
+        {entry ? (
+          <div className="flex gap-4 items-start">
+            <PreviewPane title="Before" html={before} preset={preset} width={paneWidth} />
+            <PreviewPane title="After" html={after} preset={preset} width={paneWidth} />
+          </div>
+        ) : (
+          <p className="text-sm text-vibe-muted p-4">
+            The preview renders an HTML page from the submitted files, with its linked stylesheets and scripts. Add the page that uses these files to see the fix rendered.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PreviewSandbox;
@@ -0,0 +1,183 @@
+import React, { useRef, useState } from 'react';
+import { RetrievedFile, SourceFile } from '../types';
+import { buildRepoIndex, RepoIndex, retrieveRelevantFiles } from '../services/retrieval';
+import { searchServerRepo } from '../services/repoService';
+import { readFileListSources } from '../utils/sourceFiles';
+
+interface RepoSearchProps {
+  onUseFiles: (files: SourceFile[]) => void;
+  onClose: () => void;
+}
+
+type RepoSource = 'folder' | 'server';
+
+// Indexes a whole repository and picks the files that match a description of the bug
+const RepoSearch: React.FC<RepoSearchProps> = ({ onUseFiles, onClose }) => {
+  const [source, setSource] = useState<RepoSource>('folder');
+  const [folder, setFolder] = useState<{ name: string; index: RepoIndex } | null>(null);
+  const [serverPath, setServerPath] = useState('');
+  const [query, setQuery] = useState('');
+  const [matches, setMatches] = useState<RetrievedFile[] | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [status, setStatus] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const showMatches = (found: RetrievedFile[], indexedFiles: number) => {
+    setMatches(found);
+    setSelected(new Set(found.map(match => match.file.path)));
+    setStatus(found.length === 0
+      ? `Nothing in ${indexedFiles} files matches the description. Try words you'd find in the code: component names, class names, visible text.`
+      : `Picked ${found.length} of ${indexedFiles} files.`);
+  };
+
+  const handleFolder = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const list = e.target.files;
+    if (!list || list.length === 0) return;
+    setIsBusy(true);
+    setStatus("Indexing the repository...");
+    try {
+      const files = await readFileListSources(list);
+      const name = files[0]?.path.split('/')[0] || 'repository';
+      // The picker keeps the folder's own name in every path; the project's paths start below it
+      const prefix = files.every(file => file.path.startsWith(`${name}/`)) ? `${name}/` : '';
+      const index = buildRepoIndex(files.map(file => ({ ...file, path: file.path.slice(prefix.length) })));
+      setFolder({ name, index });
+      setMatches(null);
+      setStatus(`Indexed ${index.files.length} files from ${name}.`);
+    } catch (err: any) {
+      setStatus(`Could not read the folder: ${err.message}`);
+    } finally {
+      setIsBusy(false);
+      e.target.value = '';
+    }
+  };
+
+  const handleSearch = async () => {
+    if (source === 'folder') {
+      if (!folder) return;
+      showMatches(retrieveRelevantFiles(folder.index, query), folder.index.files.length);
+      return;
+    }
+    setIsBusy(true);
+    setStatus("Indexing the repository on the server...");
+    try {
+      const result = await searchServerRepo({ root: serverPath, query });
+      showMatches(result.matches, result.indexedFiles);
+    } catch (err: any) {
+      setMatches(null);
+      setStatus(err.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const toggle = (path: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const handleUse = () => {
+    onUseFiles((matches || [])
+      .filter(match => selected.has(match.file.path))
+      .map(match => ({ path: match.file.path, content: match.file.content, reasons: match.reasons })));
+  };
+
+  const canSearch = !isBusy && query.trim() !== '' && (source === 'folder' ? !!folder : serverPath.trim() !== '');
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 rounded-md text-xs font-medium transition-colors ${active ? 'bg-vibe-accent/20 text-white' : 'text-vibe-muted hover:text-white'}`;
+
+  return (
+    <div className="flex-1 flex flex-col gap-3 bg-vibe-dark/40 border border-vibe-muted/20 rounded-xl p-4 overflow-hidden">
+      <input
+        ref={folderInputRef}
+        type="file"
+        className="hidden"
+        onChange={handleFolder}
+        {...({ webkitdirectory: '', directory: '' } as any)}
+      />
+
+      <div className="flex items-center gap-1">
+        <button onClick={() => setSource('folder')} className={tabClass(source === 'folder')}>Folder on this computer</button>
+        <button onClick={() => setSource('server')} className={tabClass(source === 'server')}>Path on the server</button>
+        <button onClick={onClose} className="ml-auto text-vibe-muted hover:text-white text-sm" aria-label="Close repository search">×</button>
+      </div>
+
+      {source === 'folder' ? (
+        <button
+          onClick={() => folderInputRef.current?.click()}
+          disabled={isBusy}
+          className="px-3 py-2 rounded-lg border border-dashed border-vibe-muted/30 text-sm text-vibe-muted hover:text-white hover:border-vibe-accent/50 disabled:opacity-50 transition-colors"
+        >
+          {folder ? `${folder.name} · choose another folder` : 'Choose repository folder'}
+        </button>
+      ) : (
+        <input
+          type="text"
+          value={serverPath}
+          onChange={(e) => setServerPath(e.target.value)}
+          placeholder="/home/me/projects/my-app (inside the server's REPO_ROOTS)"
+          className="bg-vibe-dark border border-vibe-muted/20 rounded-lg px-3 py-2 font-mono text-xs text-vibe-text focus:outline-none focus:border-vibe-accent/50"
+          spellCheck={false}
+        />
+      )}
+
+      <textarea
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Describe the bug, or paste the narration transcript or text from a screenshot. E.g. “The Order Now button disappears on mobile”"
+        className="h-24 bg-vibe-dark border border-vibe-muted/20 rounded-lg p-3 text-sm text-vibe-text focus:outline-none focus:border-vibe-accent/50 resize-none"
+      />
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleSearch}
+          disabled={!canSearch}
+          className="px-3 py-1.5 rounded-lg bg-vibe-accent/20 text-vibe-accent text-xs font-semibold hover:bg-vibe-accent/30 disabled:opacity-50 transition-colors"
+        >
+          Find relevant files
+        </button>
+        {status && <span className="text-xs text-vibe-muted">{status}</span>}
+      </div>
+
+      {matches && matches.length > 0 && (
+        <>
+          <div className="flex-1 overflow-y-auto space-y-1 pr-1">
+            {matches.map(match => (
+              <label key={match.file.path} className="flex items-start gap-2 p-2 rounded-lg hover:bg-vibe-card cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.has(match.file.path)}
+                  onChange={() => toggle(match.file.path)}
+                  className="mt-0.5 accent-vibe-accent"
+                />
+                <div className="min-w-0">
+                  <p className="font-mono text-xs text-white truncate">
+                    {match.file.path}
+                    {match.score > 0 && <span className="ml-2 text-vibe-muted">score {match.score}</span>}
+                  </p>
+                  {match.reasons.map((reason, idx) => (
+                    <p key={idx} className="text-[11px] text-vibe-muted">{reason}</p>
+                  ))}
+                </div>
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={handleUse}
+            disabled={selected.size === 0}
+            className="px-3 py-2 rounded-lg bg-gradient-to-r from-vibe-accent to-purple-600 text-white text-sm font-semibold disabled:opacity-50"
+          >
+            Use {selected.size} file{selected.size === 1 ? '' : 's'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RepoSearch;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { BugReport, FileEdit, LineRange, Severity } from '../types';
+
+interface ReportTriageProps {
+  report: BugReport;
+  // The revision this one refines, to show what the refinement changed
+  previous: BugReport | null;
+}
+
+const SEVERITY_STYLES: Record<Severity, string> = {
+  critical: 'bg-red-500/15 text-red-300 border-red-500/30',
+  high: 'bg-orange-500/10 text-orange-300 border-orange-500/20',
+  medium: 'bg-yellow-500/10 text-yellow-300 border-yellow-500/20',
+  low: 'bg-vibe-muted/10 text-vibe-muted border-vibe-muted/20',
+};
+
+const chipClass = 'px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wide border';
+
+const formatLines = ({ start_line, end_line }: LineRange): string =>
+  start_line === end_line ? String(start_line) : `${start_line}–${end_line}`;
+
+const formatLineRange = (range: LineRange): string =>
+  `${range.start_line === range.end_line ? 'line' : 'lines'} ${formatLines(range)}`;
+
+const sameRange = (a?: LineRange, b?: LineRange) => a?.start_line === b?.start_line && a?.end_line === b?.end_line;
+
+// "(was medium)", or nothing when the field didn't change or the previous revision didn't have it
+const Was: React.FC<{ value?: string; previous?: string }> = ({ value, previous }) =>
+  previous !== undefined && previous !== value ? <span className="ml-1 normal-case font-normal opacity-70">(was {previous})</span> : null;
+
+/**
+ * Where an edit applies, with the range its counterpart in the previous revision had when
+ * that was different.
+ */
+export const EditLocation: React.FC<{ edit: FileEdit; previous: BugReport | null }> = ({ edit, previous }) => {
+  const before = previous?.edits.find(other => other.file_to_edit === edit.file_to_edit);
+  return (
+    <span>
+      {edit.file_to_edit}
+      {edit.line_range && `:${formatLines(edit.line_range)}`}
+      {previous && !before && <span className="ml-1 text-vibe-accent">(new in this revision)</span>}
+      {before?.line_range && edit.line_range && !sameRange(before.line_range, edit.line_range) && (
+        <span className="ml-1 opacity-70">(was {formatLineRange(before.line_range)})</span>
+      )}
+    </span>
+  );
+};
+
+// Severity, root cause and confidence of a report, and how a refinement changed them
+const ReportTriage: React.FC<ReportTriageProps> = ({ report, previous }) => {
+  const { severity, root_cause, confidence } = report;
+  const percent = (value?: number) => (value === undefined ? undefined : Math.round(value * 100));
+  const confidenceChange = previous ? (percent(confidence) ?? 0) - (percent(previous.confidence) ?? 0) : 0;
+
+  return (
+    <>
+      {severity && (
+        <div className={`${chipClass} ${SEVERITY_STYLES[severity]}`} title="Severity">
+          {severity}<Was value={severity} previous={previous?.severity} />
+        </div>
+      )}
+      {root_cause && (
+        <div className={`${chipClass} bg-vibe-accent/10 text-vibe-accent border-vibe-accent/20`} title="Root cause">
+          {root_cause}<Was value={root_cause} previous={previous?.root_cause} />
+        </div>
+      )}
+      {confidence !== undefined && (
+        <div className={`${chipClass} bg-vibe-dark text-vibe-text border-vibe-muted/20`} title="How sure the model is that the edits fix the bug">
+          {percent(confidence)}% sure
+          {previous?.confidence !== undefined && confidenceChange !== 0 && (
+            <span className={`ml-1 normal-case font-normal ${confidenceChange > 0 ? 'text-vibe-success' : 'text-red-400'}`}>
+              {confidenceChange > 0 ? '▲' : '▼'} from {percent(previous.confidence)}%
+            </span>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ReportTriage;
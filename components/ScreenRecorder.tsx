@@ -0,0 +1,226 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { formatBytes, formatDuration, mixScreenAndMic, pickRecorderMimeType, trimVideo } from '../utils/media';
+
+interface ScreenRecorderProps {
+  onFileSelect: (file: File) => void;
+  // Lets the parent hide other inputs while a recording is in progress or being reviewed
+  onActiveChange?: (active: boolean) => void;
+}
+
+type RecorderStatus = 'idle' | 'recording' | 'review' | 'trimming';
+
+const ScreenRecorder: React.FC<ScreenRecorderProps> = ({ onFileSelect, onActiveChange }) => {
+  const [status, setStatus] = useState<RecorderStatus>('idle');
+  const [elapsed, setElapsed] = useState(0);
+  const [bytes, setBytes] = useState(0);
+  const [hasMic, setHasMic] = useState(false);
+  const [recording, setRecording] = useState<{ blob: Blob; url: string; duration: number } | null>(null);
+  const [trimStart, setTrimStart] = useState(0);
+  const [trimEnd, setTrimEnd] = useState(0);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamsRef = useRef<MediaStream[]>([]);
+  const closeMixRef = useRef<() => void>(() => {});
+  const startedAtRef = useRef(0);
+  const previewRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    onActiveChange?.(status !== 'idle');
+  }, [status, onActiveChange]);
+
+  // Tick the timer while recording
+  useEffect(() => {
+    if (status !== 'recording') return;
+    const timer = setInterval(() => setElapsed((Date.now() - startedAtRef.current) / 1000), 250);
+    return () => clearInterval(timer);
+  }, [status]);
+
+  // Release the preview URL when it's replaced or the component goes away
+  useEffect(() => () => {
+    if (recording) URL.revokeObjectURL(recording.url);
+  }, [recording]);
+
+  const releaseStreams = () => {
+    streamsRef.current.forEach(stream => stream.getTracks().forEach(track => track.stop()));
+    streamsRef.current = [];
+    closeMixRef.current();
+  };
+
+  useEffect(() => releaseStreams, []);
+
+  const startRecording = async () => {
+    let screen: MediaStream;
+    try {
+      screen = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+    } catch (e: any) {
+      if (e.name !== 'NotAllowedError') alert("Screen capture failed: " + e.message);
+      return;
+    }
+
+    // Narration is optional; record silently if the microphone is unavailable
+    let mic: MediaStream | null = null;
+    try {
+      mic = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (e) {
+      console.warn("Microphone unavailable, recording without narration:", e);
+    }
+    setHasMic(!!mic);
+
+    const { stream, close } = mixScreenAndMic(screen, mic);
+    streamsRef.current = [screen, ...(mic ? [mic] : [])];
+    closeMixRef.current = close;
+
+    const mimeType = pickRecorderMimeType();
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) {
+        chunks.push(e.data);
+        setBytes(total => total + e.data.size);
+      }
+    };
+    recorder.onstop = () => {
+      releaseStreams();
+      const blob = new Blob(chunks, { type: recorder.mimeType || 'video/webm' });
+      // MediaRecorder output often has no duration in its metadata, so use our own clock
+      const duration = (Date.now() - startedAtRef.current) / 1000;
+      setRecording({ blob, url: URL.createObjectURL(blob), duration });
+      setTrimStart(0);
+      setTrimEnd(duration);
+      setStatus('review');
+    };
+
+    // Stopping the share from the browser's own UI ends the recording too
+    screen.getVideoTracks()[0]?.addEventListener('ended', () => {
+      if (recorder.state === 'recording') recorder.stop();
+    });
+
+    recorderRef.current = recorder;
+    startedAtRef.current = Date.now();
+    setElapsed(0);
+    setBytes(0);
+    recorder.start(1000);
+    setStatus('recording');
+  };
+
+  const stopRecording = () => {
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  };
+
+  const discard = () => {
+    setRecording(null);
+    setStatus('idle');
+  };
+
+  const acceptRecording = async () => {
+    if (!recording) return;
+    const isTrimmed = trimStart > 0.1 || trimEnd < recording.duration - 0.1;
+    let blob = recording.blob;
+
+    if (isTrimmed) {
+      setStatus('trimming');
+      try {
+        blob = await trimVideo(recording.blob, trimStart, trimEnd);
+      } catch (e: any) {
+        alert("Trimming failed, using the full recording: " + e.message);
+      }
+    }
+
+    const extension = blob.type.includes('mp4') ? 'mp4' : 'webm';
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    onFileSelect(new File([blob], `screen-recording-${stamp}.${extension}`, { type: blob.type.split(';')[0] }));
+    discard();
+  };
+
+  const seekPreview = (time: number) => {
+    if (previewRef.current) previewRef.current.currentTime = time;
+  };
+
+  if (status === 'idle') {
+    return (
+      <button
+        onClick={startRecording}
+        className="w-full py-3 rounded-xl border border-vibe-muted/30 text-sm font-semibold text-vibe-text hover:border-red-400/50 hover:text-white transition-colors flex items-center justify-center gap-2"
+      >
+        <span className="w-2.5 h-2.5 rounded-full bg-red-500"></span>
+        Record Screen + Narration
+      </button>
+    );
+  }
+
+  if (status === 'recording') {
+    const bytesPerSecond = elapsed > 1 ? bytes / elapsed : 0;
+    return (
+      <div className="rounded-xl border border-red-500/30 bg-red-500/5 p-4 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <span className="w-3 h-3 rounded-full bg-red-500 animate-pulse"></span>
+          <span className="font-mono text-lg text-white">{formatDuration(elapsed)}</span>
+          <span className="text-xs text-vibe-muted">
+            {formatBytes(bytes)}
+            {bytesPerSecond > 0 && ` · ~${formatBytes(bytesPerSecond * 60)}/min`}
+            {!hasMic && ' · no microphone'}
+          </span>
+        </div>
+        <button
+          onClick={stopRecording}
+          className="px-4 py-2 rounded-lg bg-red-500 text-white text-sm font-bold hover:bg-red-500/90 transition-colors"
+        >
+          Stop
+        </button>
+      </div>
+    );
+  }
+
+  const duration = recording?.duration || 0;
+  return (
+    <div className="rounded-xl border border-vibe-muted/20 bg-vibe-dark/40 p-4 space-y-3">
+      {recording && (
+        <video ref={previewRef} src={recording.url} controls className="w-full max-h-56 rounded-lg bg-black" />
+      )}
+
+      <div className="space-y-2 text-xs text-vibe-muted">
+        <div className="flex justify-between">
+          <span>Trim: {formatDuration(trimStart)} – {formatDuration(trimEnd)}</span>
+          <span>{formatBytes(recording?.blob.size || 0)} · {formatDuration(duration)} total</span>
+        </div>
+        <label className="flex items-center gap-2">
+          <span className="w-10">Start</span>
+          <input
+            type="range" min={0} max={duration} step={0.1} value={trimStart}
+            onChange={(e) => { const v = Math.min(Number(e.target.value), trimEnd - 0.5); setTrimStart(Math.max(0, v)); seekPreview(v); }}
+            className="flex-1 accent-vibe-accent"
+            disabled={status === 'trimming'}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="w-10">End</span>
+          <input
+            type="range" min={0} max={duration} step={0.1} value={trimEnd}
+            onChange={(e) => { const v = Math.max(Number(e.target.value), trimStart + 0.5); setTrimEnd(Math.min(duration, v)); seekPreview(v); }}
+            className="flex-1 accent-vibe-accent"
+            disabled={status === 'trimming'}
+          />
+        </label>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={discard}
+          disabled={status === 'trimming'}
+          className="px-3 py-2 rounded-lg text-xs text-vibe-muted hover:text-white disabled:opacity-50"
+        >
+          Discard
+        </button>
+        <button
+          onClick={acceptRecording}
+          disabled={status === 'trimming'}
+          className="px-4 py-2 rounded-lg bg-vibe-success text-vibe-dark text-xs font-bold hover:bg-vibe-success/90 disabled:opacity-50"
+        >
+          {status === 'trimming' ? 'Trimming…' : 'Use Recording'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ScreenRecorder;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Session } from '../types';
+import { formatCost } from '../services/tokenBudget';
+
+interface SessionSidebarProps {
+  sessions: Session[];
+  activeSessionId: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onOpen: (session: Session) => void;
+  onDelete: (session: Session) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// What every revision of a session cost together; null when none recorded its usage or a price is unknown
+const sessionCost = (session: Session): number | null => {
+  const usages = session.revisions.map(revision => revision.usage).filter(usage => !!usage);
+  if (usages.length === 0 || usages.some(usage => usage.costUsd === null)) return null;
+  return usages.reduce((sum, usage) => sum + usage.costUsd!, 0);
+};
+
+const SessionSidebar: React.FC<SessionSidebarProps> = ({ sessions, activeSessionId, isOpen, onClose, onOpen, onDelete }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 flex" onClick={onClose}>
+      <aside
+        className="w-80 h-full pt-16 bg-vibe-card border-r border-vibe-muted/20 shadow-2xl flex flex-col animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-vibe-muted/10 flex items-center justify-between">
+          <h2 className="font-bold text-white">Past Bugs</h2>
+          <button onClick={onClose} className="text-vibe-muted hover:text-white text-sm" aria-label="Close history">×</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-2 space-y-1">
+          {sessions.length === 0 && (
+            <p className="p-4 text-sm text-vibe-muted">No saved bugs yet. Every analysis is saved here automatically.</p>
+          )}
+          {sessions.map(session => {
+            const latest = session.revisions[session.revisions.length - 1];
+            const isActive = session.id === activeSessionId;
+            const cost = sessionCost(session);
+            return (
+              <div
+                key={session.id}
+                onClick={() => onOpen(session)}
+                className={`group p-3 rounded-xl cursor-pointer transition-colors
+                  ${isActive ? 'bg-vibe-accent/15 border border-vibe-accent/30' : 'hover:bg-vibe-dark/60 border border-transparent'}`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-sm text-white font-medium line-clamp-2">{latest?.bug_summary || 'Untitled bug'}</p>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onDelete(session); }}
+                    className="opacity-0 group-hover:opacity-100 text-xs text-vibe-muted hover:text-red-400 transition-opacity"
+                    aria-label="Delete session"
+                  >
+                    Delete
+                  </button>
+                </div>
+                <p className="text-xs text-vibe-muted mt-1">
+                  {formatDate(session.updatedAt)} · {session.revisions.length} revision{session.revisions.length === 1 ? '' : 's'}
+                  {session.video && ' · 🎥'}
+                  {cost !== null && ` · ${formatCost(cost)}`}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      </aside>
+      <div className="flex-1 bg-black/40" />
+    </div>
+  );
+};
+
+export default SessionSidebar;
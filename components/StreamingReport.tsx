@@ -0,0 +1,48 @@
+import React, { useEffect, useRef } from 'react';
+import { BugReport } from '../types';
+
+interface StreamingReportProps {
+  partial: Partial<BugReport>;
+}
+
+// Shows the report while it is still streaming in; fields appear as soon as they arrive
+const StreamingReport: React.FC<StreamingReportProps> = ({ partial }) => {
+  const codeRef = useRef<HTMLPreElement>(null);
+  const edits = (partial.edits || []).filter(Boolean);
+  const currentEdit = edits[edits.length - 1];
+
+  // Keep the newest code in view as it streams
+  useEffect(() => {
+    if (codeRef.current) {
+      codeRef.current.scrollTop = codeRef.current.scrollHeight;
+    }
+  }, [currentEdit?.code_patch]);
+
+  return (
+    <div className="w-full max-w-3xl bg-vibe-card rounded-2xl border border-vibe-muted/20 p-6 space-y-4 text-left animate-fade-in">
+      {partial.bug_summary && (
+        <div>
+          <p className="text-xs uppercase tracking-wide text-vibe-muted mb-1">Bug</p>
+          <h3 className="font-bold text-white">{partial.bug_summary}</h3>
+        </div>
+      )}
+      {partial.explanation && (
+        <p className="text-sm text-vibe-text leading-relaxed whitespace-pre-wrap">{partial.explanation}</p>
+      )}
+      {currentEdit && (
+        <div className="bg-[#0d1117] rounded-xl border border-vibe-muted/20 overflow-hidden">
+          <div className="px-4 py-2 bg-[#161b22] border-b border-vibe-muted/10 text-xs text-vibe-muted font-mono flex justify-between">
+            <span>{currentEdit.file_to_edit || '…'}</span>
+            {edits.length > 1 && <span>file {edits.length}</span>}
+          </div>
+          <pre ref={codeRef} className="p-4 text-xs font-mono text-vibe-text max-h-64 overflow-auto whitespace-pre">
+            {currentEdit.code_patch}
+            <span className="animate-pulse text-vibe-accent">▍</span>
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StreamingReport;
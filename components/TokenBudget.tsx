@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from 'react';
+import { SourceFile } from '../types';
+import { getModelOption, MODELS } from '../services/models';
+import { BudgetRequest, checkBudget, formatCost, formatTokens, trimToBudget } from '../services/tokenBudget';
+
+interface TokenBudgetProps {
+  request: BudgetRequest;
+  modelName: string;
+  onTrim: (files: SourceFile[]) => void;
+}
+
+// What the next analysis will cost with the selected model, and how to make it fit when it doesn't
+const TokenBudget: React.FC<TokenBudgetProps> = ({ request, modelName, onTrim }) => {
+  const [isComparing, setIsComparing] = useState(false);
+  // The files the last trim left out, shown until the selection changes again
+  const [trimmed, setTrimmed] = useState<{ files: SourceFile[]; removed: string[] } | null>(null);
+  const budget = useMemo(() => checkBudget(request, modelName), [request, modelName]);
+  const comparison = useMemo(
+    () => isComparing ? MODELS.map(model => ({ model, budget: checkBudget(request, model.id) })) : [],
+    [isComparing, request]
+  );
+
+  const { estimate, limit, overBy, costUsd } = budget;
+  const model = getModelOption(modelName);
+  const used = limit ? Math.min(1, estimate.input / limit) : 0;
+  // Trimming keeps at least one file, so only a shorter recording helps past that point
+  const videoTooLong = limit !== null && estimate.video + estimate.prompt > limit;
+
+  const handleTrim = () => {
+    const result = trimToBudget(request, modelName);
+    setTrimmed({ files: result.codeContext, removed: result.removedFiles });
+    onTrim(result.codeContext);
+  };
+
+  const parts = [
+    { label: 'Code', tokens: estimate.code },
+    { label: 'Video', tokens: estimate.video },
+    { label: 'Images', tokens: estimate.images },
+    { label: 'Logs', tokens: estimate.logs },
+    { label: 'History', tokens: estimate.history },
+    { label: 'Prompt', tokens: estimate.prompt },
+  ].filter(part => part.tokens > 0);
+
+  return (
+    <div className="bg-vibe-card rounded-2xl p-4 border border-vibe-muted/10 shadow-xl shadow-black/20 space-y-3 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-vibe-muted">
+          <span className="text-white font-semibold">~{formatTokens(estimate.input)}</span> tokens in
+          {' · '}~{formatTokens(estimate.output)} out
+          {' · '}<span className="text-white font-semibold">{formatCost(costUsd)}</span> with {model.label}
+        </p>
+        <button onClick={() => setIsComparing(open => !open)} className="text-vibe-muted hover:text-white underline shrink-0">
+          {isComparing ? 'Hide models' : 'Compare models'}
+        </button>
+      </div>
+
+      {limit !== null && (
+        <div className="h-1.5 rounded-full bg-vibe-dark overflow-hidden" title={`${formatTokens(estimate.input)} of ${formatTokens(limit)} input tokens`}>
+          <div
+            className={`h-full ${overBy > 0 ? 'bg-red-400' : used > 0.8 ? 'bg-yellow-400' : 'bg-vibe-accent'}`}
+            style={{ width: `${Math.max(2, used * 100)}%` }}
+          />
+        </div>
+      )}
+
+      <p className="text-vibe-muted">
+        {parts.map(part => `${part.label} ${formatTokens(part.tokens)}`).join(' · ')}
+        {!!request.videoSeconds && estimate.video === 0 && ` · ${model.label} doesn't watch the video`}
+      </p>
+
+      {overBy > 0 && (
+        <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-200 space-y-2">
+          <p>
+            About {formatTokens(overBy)} tokens more than {model.label} accepts ({formatTokens(limit!)}).
+            {videoTooLong
+              ? ' The recording alone is too long; trim it or pick a model with a larger context window.'
+              : ' Trim the largest files, or pick a model with a larger context window.'}
+          </p>
+          {!videoTooLong && request.codeContext.length > 1 && (
+            <button onClick={handleTrim} className="px-3 py-1 rounded-md bg-red-500/20 text-red-100 font-semibold hover:bg-red-500/30">
+              Trim to fit
+            </button>
+          )}
+        </div>
+      )}
+
+      {trimmed && trimmed.files === request.codeContext && trimmed.removed.length > 0 && (
+        <p className="text-vibe-muted">
+          Left out to fit: <span className="font-mono">{trimmed.removed.join(', ')}</span>
+        </p>
+      )}
+
+      {isComparing && (
+        <table className="w-full text-left">
+          <tbody>
+            {comparison.map(({ model: option, budget: other }) => (
+              <tr key={option.id} className={option.id === modelName ? 'text-white' : 'text-vibe-muted'}>
+                <td className="py-0.5">{option.label}</td>
+                <td className="py-0.5 text-right font-mono">~{formatTokens(other.estimate.input)}</td>
+                <td className="py-0.5 text-right">{formatCost(other.costUsd)}</td>
+                <td className="py-0.5 text-right">
+                  {other.limit === null ? '?' : other.overBy > 0 ? <span className="text-red-400">too large</span> : '✓'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default TokenBudget;
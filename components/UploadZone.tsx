@@ -1,12 +1,44 @@
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
+import { EvidenceImage } from '../types';
+import { createEvidenceImage, pastedImageName } from '../utils/images';
+import ScreenRecorder from './ScreenRecorder';
+import VideoOptimizer from './VideoOptimizer';
+import ImageAttachments from './ImageAttachments';
 
 interface UploadZoneProps {
   onFileSelect: (file: File) => void;
   selectedFile: File | null;
+  images: EvidenceImage[];
+  onImagesChange: (images: EvidenceImage[]) => void;
 }
 
-const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelect, selectedFile }) => {
+const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelect, selectedFile, images, onImagesChange }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+
+  // The first video becomes the recording and every image is added; anything else is refused
+  const addFiles = useCallback((files: File[]) => {
+    const video = files.find(file => file.type.startsWith('video/'));
+    const added = files.filter(file => file.type.startsWith('image/')).map(file => createEvidenceImage(file, file.name));
+    if (!video && added.length === 0) {
+      alert("Please upload a video or image files.");
+      return;
+    }
+    if (video) onFileSelect(video);
+    if (added.length > 0) onImagesChange([...images, ...added]);
+  }, [onFileSelect, images, onImagesChange]);
+
+  // Screenshots pasted anywhere on the page are added; pasted text is left to the editors
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const pasted = Array.from(e.clipboardData?.files || []).filter(file => file.type.startsWith('image/'));
+      if (pasted.length === 0) return;
+      e.preventDefault();
+      onImagesChange([...images, ...pasted.map(file => createEvidenceImage(file, file.name && file.name !== 'image.png' ? file.name : pastedImageName(file.type)))]);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [images, onImagesChange]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -22,74 +54,79 @@ const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelect, selectedFile }) =
     e.preventDefault();
     setIsDragging(false);
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const file = e.dataTransfer.files[0];
-      if (file.type.startsWith('video/')) {
-        onFileSelect(file);
-      } else {
-        alert("Please upload a video file.");
-      }
+      addFiles(Array.from(e.dataTransfer.files));
     }
-  }, [onFileSelect]);
+  }, [addFiles]);
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      onFileSelect(e.target.files[0]);
+      addFiles(Array.from(e.target.files));
+      // Lets the same file be picked again after it was removed
+      e.target.value = '';
     }
-  }, [onFileSelect]);
+  }, [addFiles]);
 
   return (
-    <div
-      className={`relative group border-2 border-dashed rounded-xl p-8 transition-all duration-300 ease-in-out cursor-pointer
-        ${isDragging 
-          ? 'border-vibe-accent bg-vibe-accent/10' 
-          : 'border-vibe-muted/30 hover:border-vibe-accent/50 hover:bg-vibe-card/50'
-        }
-        ${selectedFile ? 'bg-vibe-card border-vibe-success/50' : ''}
-      `}
-      onDragOver={handleDragOver}
-      onDragLeave={handleDragLeave}
-      onDrop={handleDrop}
-      onClick={() => document.getElementById('file-upload')?.click()}
-    >
-      <input
-        id="file-upload"
-        type="file"
-        className="hidden"
-        accept="video/*"
-        onChange={handleFileInput}
-      />
+    <div className="flex flex-col gap-4">
+      {!isRecording && (
+        <div
+          className={`relative group border-2 border-dashed rounded-xl p-8 transition-all duration-300 ease-in-out cursor-pointer
+            ${isDragging 
+              ? 'border-vibe-accent bg-vibe-accent/10' 
+              : 'border-vibe-muted/30 hover:border-vibe-accent/50 hover:bg-vibe-card/50'
+            }
+            ${selectedFile ? 'bg-vibe-card border-vibe-success/50' : ''}
+          `}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+          onClick={() => document.getElementById('file-upload')?.click()}
+        >
+          <input
+            id="file-upload"
+            type="file"
+            className="hidden"
+            accept="video/*,image/*"
+            multiple
+            onChange={handleFileInput}
+          />
       
-      <div className="flex flex-col items-center justify-center text-center space-y-4">
-        {selectedFile ? (
-          <>
-            <div className="w-16 h-16 rounded-full bg-vibe-success/20 flex items-center justify-center">
-               <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-vibe-success" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-              </svg>
-            </div>
-            <div>
-              <p className="font-semibold text-white">{selectedFile.name}</p>
-              <p className="text-sm text-vibe-muted">{(selectedFile.size / 1024 / 1024).toFixed(2)} MB</p>
-            </div>
-            <p className="text-xs text-vibe-muted">Click to change video</p>
-          </>
-        ) : (
-          <>
-             <div className="w-16 h-16 rounded-full bg-vibe-accent/10 flex items-center justify-center group-hover:bg-vibe-accent/20 transition-colors">
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-vibe-accent" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
-              </svg>
-            </div>
-            <div>
-              <p className="font-semibold text-lg text-white">Upload Screen Recording (Optional)</p>
-              <p className="text-sm text-vibe-muted">Drag & drop or click to browse</p>
-            </div>
-            <div className="text-xs text-vibe-muted/70 max-w-xs">
-              Supports MP4, WebM, MOV. Max recommended size 20MB for this demo.
-            </div>
-          </>
-        )}
-      </div>
+          <div className="flex flex-col items-center justify-center text-center space-y-4">
+            {selectedFile ? (
+              <>
+                <div className="w-16 h-16 rounded-full bg-vibe-success/20 flex items-center justify-center">
+                   <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-vibe-success" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                  </svg>
+                </div>
+                <div>
+                  <p className="font-semibold text-white">{selectedFile.name}</p>
+                  <p className="text-sm text-vibe-muted">{(selectedFile.size / 1024 / 1024).toFixed(2)} MB</p>
+                </div>
+                <p className="text-xs text-vibe-muted">Click to change video or add screenshots</p>
+              </>
+            ) : (
+              <>
+                 <div className="w-16 h-16 rounded-full bg-vibe-accent/10 flex items-center justify-center group-hover:bg-vibe-accent/20 transition-colors">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-vibe-accent" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                  </svg>
+                </div>
+                <div>
+                  <p className="font-semibold text-lg text-white">Upload Screen Recording or Screenshots (Optional)</p>
+                  <p className="text-sm text-vibe-muted">Drag & drop, click to browse, or paste a screenshot</p>
+                </div>
+                <div className="text-xs text-vibe-muted/70 max-w-xs">
+                  Supports MP4, WebM, MOV and PNG, JPEG, WebP. Large videos are uploaded through the Gemini Files API.
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+      {selectedFile && !isRecording && <VideoOptimizer file={selectedFile} onOptimized={onFileSelect} />}
+      {!isRecording && <ImageAttachments images={images} onChange={onImagesChange} />}
+      <ScreenRecorder onFileSelect={onFileSelect} onActiveChange={setIsRecording} />
     </div>
   );
 };
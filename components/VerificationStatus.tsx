@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { VerificationResult } from '../types';
+
+interface VerificationStatusProps {
+  // Missing on reports saved before verification existed
+  verification?: VerificationResult;
+}
+
+const STYLES: Record<VerificationResult['status'], string> = {
+  passed: 'bg-vibe-success/10 text-vibe-success border-vibe-success/20',
+  failed: 'bg-red-500/10 text-red-400 border-red-500/20',
+  skipped: 'bg-vibe-muted/10 text-vibe-muted border-vibe-muted/20',
+};
+
+const VerificationStatus: React.FC<VerificationStatusProps> = ({ verification }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  if (!verification) return null;
+
+  const { status, issues, checkedFiles, repairRounds } = verification;
+  const label = status === 'passed'
+    ? '✓ Checks passed'
+    : status === 'failed'
+      ? `✗ ${issues.length} error${issues.length === 1 ? '' : 's'}`
+      : 'Not checked';
+  const repairs = repairRounds > 0 ? ` after ${repairRounds} repair${repairRounds === 1 ? '' : 's'}` : '';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wide border ${STYLES[status]}`}
+      >
+        {label}{repairs && <span className="normal-case font-normal">{repairs}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-96 max-h-72 overflow-y-auto z-20 p-4 rounded-xl bg-vibe-card border border-vibe-muted/20 shadow-2xl text-xs space-y-2">
+          {status === 'skipped' ? (
+            <p className="text-vibe-muted">None of the edited files are in a language VibeFix can check (TypeScript, JavaScript, CSS, HTML or JSON).</p>
+          ) : (
+            <p className="text-vibe-muted">
+              Parsed {checkedFiles.join(', ')}{repairs}.
+              {status === 'failed' && ' The model could not repair these errors; review the patch before applying it.'}
+            </p>
+          )}
+          {issues.map((issue, idx) => (
+            <div key={idx} className="font-mono text-red-300">
+              <span className="text-vibe-text">{issue.path}{issue.line ? `:${issue.line}` : ''}</span> {issue.message}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VerificationStatus;
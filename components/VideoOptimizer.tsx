@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { downscaleVideo, formatBytes } from '../utils/media';
+
+interface VideoOptimizerProps {
+  file: File;
+  onOptimized: (file: File) => void;
+}
+
+const HEIGHTS = [720, 480, 360];
+const FRAME_RATES = [15, 10, 5];
+
+// Screen recordings rarely need full resolution or frame rate for the model to follow them
+const VideoOptimizer: React.FC<VideoOptimizerProps> = ({ file, onOptimized }) => {
+  const [maxHeight, setMaxHeight] = useState(720);
+  const [frameRate, setFrameRate] = useState(10);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const optimize = async () => {
+    setProgress(0);
+    try {
+      const blob = await downscaleVideo(file, { maxHeight, frameRate, onProgress: setProgress });
+      const extension = blob.type.includes('mp4') ? 'mp4' : 'webm';
+      const name = `${file.name.replace(/\.[^.]+$/, '')}-${maxHeight}p.${extension}`;
+      onOptimized(new File([blob], name, { type: blob.type.split(';')[0] }));
+    } catch (e: any) {
+      alert("Downscaling failed, keeping the original video: " + e.message);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const selectClass = "bg-vibe-dark border border-vibe-muted/20 rounded-lg px-2 py-1 text-xs text-vibe-text focus:outline-none focus:border-vibe-accent/50 disabled:opacity-50";
+
+  return (
+    <div className="rounded-xl border border-vibe-muted/20 bg-vibe-dark/40 p-3 flex flex-wrap items-center gap-2 text-xs text-vibe-muted">
+      <span className="font-semibold text-vibe-text">Shrink video</span>
+      <select value={maxHeight} onChange={(e) => setMaxHeight(Number(e.target.value))} disabled={progress !== null} className={selectClass}>
+        {HEIGHTS.map(height => <option key={height} value={height}>{height}p</option>)}
+      </select>
+      <select value={frameRate} onChange={(e) => setFrameRate(Number(e.target.value))} disabled={progress !== null} className={selectClass}>
+        {FRAME_RATES.map(fps => <option key={fps} value={fps}>{fps} fps</option>)}
+      </select>
+      <span className="flex-1">{formatBytes(file.size)} now · re-encodes in real time</span>
+      <button
+        onClick={optimize}
+        disabled={progress !== null}
+        className="px-3 py-1.5 rounded-lg bg-vibe-accent/20 text-vibe-accent font-semibold hover:bg-vibe-accent/30 disabled:opacity-50 transition-colors"
+      >
+        {progress !== null ? `Downscaling… ${Math.round(progress * 100)}%` : 'Downscale'}
+      </button>
+    </div>
+  );
+};
+
+export default VideoOptimizer;
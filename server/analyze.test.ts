@@ -0,0 +1,92 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalyzeEvent, AnalyzeRequest, ChatEntry } from '../types';
+import { registerProvider } from '../services/providers';
+import { buildMockReport, createMockProvider } from '../services/providers/mock';
+import { GenerateRequest } from '../services/providers/types';
+import { handleAnalyze, handleVideoUpload } from './analyze';
+
+let server: http.Server;
+let baseUrl: string;
+let generated: GenerateRequest[];
+let uploadCount = 0;
+let cacheCount = 0;
+
+// Large enough for the service to cache the context of a refinement
+const codeContext = [{ path: 'src/a.css', content: `.a { color: white; }\n${'/* padding */\n'.repeat(1500)}` }];
+
+const refinement: ChatEntry[] = [
+  { role: 'user', content: 'Analyze this code.', timestamp: 0 },
+  { role: 'model', content: buildMockReport({ context: [], turns: [], model: 'mock', systemInstruction: '', responseSchema: {} as any }), timestamp: 0 },
+  { role: 'user', content: 'Still broken.', timestamp: 0 },
+];
+
+const analyze = async (request: Partial<AnalyzeRequest>): Promise<AnalyzeEvent[]> => {
+  const response = await fetch(`${baseUrl}/api/analyze`, {
+    method: 'POST',
+    body: JSON.stringify({ codeContext, history: [], modelName: 'mock', maxRepairRounds: 0, ...request }),
+  });
+  return (await response.text()).trim().split('\n').map(line => JSON.parse(line));
+};
+
+const fileUris = (request: GenerateRequest) =>
+  request.context.flatMap(part => (part.kind === 'file' ? [part.uri] : []));
+
+beforeAll(async () => {
+  // The mock provider, given a Files API and context caching like Gemini's
+  registerProvider('mock', {
+    ...createMockProvider(request => {
+      generated.push(request);
+      return buildMockReport(request);
+    }, { chunkDelayMs: 0 }),
+    uploadMedia: async (_file, mimeType) => ({ uri: `files/${++uploadCount}`, name: 'recording', mimeType, expiresAt: null }),
+    cacheContext: async ({ model, key }) => ({ name: `cachedContents/${++cacheCount}`, model, key, expiresAt: null }),
+  });
+  server = http.createServer((req, res) => (req.url === '/api/videos' ? handleVideoUpload(req, res) : handleAnalyze(req, res)));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  registerProvider('mock', null);
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  generated = [];
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('handleAnalyze', () => {
+  it('reuses only the Files API uploads it made itself', async () => {
+    // Over the inline limit, so the recording goes to the Files API
+    const upload = await fetch(`${baseUrl}/api/videos`, { method: 'POST', headers: { 'Content-Type': 'video/mp4' }, body: new Uint8Array(15 * 1024 * 1024) });
+    const { videoId } = await upload.json();
+    const events = await analyze({ videoId });
+    const own = events.find(event => event.type === 'uploaded');
+    expect(own).toMatchObject({ media: { uri: `files/${uploadCount}` } });
+
+    const foreign = { uri: 'files/someone-elses', name: 'theirs', mimeType: 'video/mp4', expiresAt: null };
+    expect((await analyze({ uploadedVideo: foreign })).at(-1)).toMatchObject({ type: 'done' });
+    expect(fileUris(generated.at(-1)!)).toEqual([]);
+
+    await analyze({ uploadedVideo: { ...foreign, uri: (own as any).media.uri } });
+    expect(fileUris(generated.at(-1)!)).toEqual([(own as any).media.uri]);
+  });
+
+  it('reuses only the context caches it created itself', async () => {
+    const events = await analyze({ history: refinement });
+    const own = (events.find(event => event.type === 'cached') as any).cache;
+    expect(generated.at(-1)!.cache).toEqual(own);
+
+    // Even with the right key, a cache the server didn't create is replaced by a new one
+    await analyze({ history: refinement, contextCache: { ...own, name: 'cachedContents/someone-elses' } });
+    expect(generated.at(-1)!.cache?.name).not.toBe('cachedContents/someone-elses');
+    expect(cacheCount).toBe(2);
+
+    await analyze({ history: refinement, contextCache: own });
+    expect(generated.at(-1)!.cache?.name).toBe(own.name);
+    expect(cacheCount).toBe(2);
+  });
+});
@@ -0,0 +1,193 @@
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { AnalyzeEvent, AnalyzeRequest, BugReport, CachedContext, UploadedMedia } from '../types';
+import { analyzeBug } from '../services/geminiService';
+import { InvalidInputError, QuotaError, toErrorInfo } from '../services/errors';
+import { isAbortError } from '../utils/async';
+import { HttpError, readBody, readJsonBody, sendJson } from './http';
+import { clientKey, createRateLimiter } from './rateLimit';
+
+const MAX_VIDEO_BYTES = Number(process.env.MAX_VIDEO_MB || 200) * 1024 * 1024;
+// The code context, screenshots (base64) and logs of one analysis
+const MAX_REQUEST_BYTES = Number(process.env.MAX_REQUEST_MB || 50) * 1024 * 1024;
+// Recordings are kept for refinements of the same bug, then dropped
+const VIDEO_TTL_MS = 2 * 60 * 60 * 1000;
+// Each partial repeats everything streamed so far, so they are sent at most this often
+const PARTIAL_INTERVAL_MS = 200;
+// Each repair round is another paid model call, so clients can ask for fewer but not more
+const MAX_REPAIR_ROUNDS = 2;
+// How long uploads and caches the provider gives no expiry for are remembered
+const PROVIDER_ITEM_TTL_MS = 48 * 60 * 60 * 1000;
+
+type Handler = (req: http.IncomingMessage, res: http.ServerResponse) => Promise<void>;
+
+// Every user gets this many uploads and this many analyses per minute, counted separately
+const limiter = createRateLimiter({ limit: Number(process.env.RATE_LIMIT_PER_MINUTE || 10), windowMs: 60_000 });
+
+const videos = new Map<string, { file: File; expiresAt: number }>();
+
+const dropExpiredVideos = () => {
+  const now = Date.now();
+  videos.forEach((video, id) => {
+    if (video.expiresAt <= now) videos.delete(id);
+  });
+};
+
+// Files API uploads by URI and context caches by name, as this server created them with its
+// key. Clients may only refer to these, so they can't point an analysis at other files or caches
+const uploads = new Map<string, UploadedMedia>();
+const caches = new Map<string, CachedContext>();
+
+const remember = <T extends { expiresAt: number | null }>(items: Map<string, T>, id: string, item: T) => {
+  const now = Date.now();
+  items.forEach((other, otherId) => {
+    if (other.expiresAt !== null && other.expiresAt <= now) items.delete(otherId);
+  });
+  items.set(id, { ...item, expiresAt: item.expiresAt ?? now + PROVIDER_ITEM_TTL_MS });
+};
+
+// The server's own record, whatever else the client sent along with the id; null when unknown
+const recall = <T>(items: Map<string, T>, id: unknown): T | null =>
+  (typeof id === 'string' && items.get(id)) || null;
+
+/**
+ * Applies the per-user rate limit and answers failures that happen before streaming
+ * starts with their HTTP status and an AnalysisErrorInfo body, so the browser can
+ * show them like provider errors.
+ */
+const analysisRoute = (name: string, handler: Handler): Handler => async (req, res) => {
+  try {
+    const limited = limiter.take(`${clientKey(req)} ${name}`);
+    if (limited) {
+      throw new QuotaError(`Too many requests to the VibeFix server; try again in ${Math.ceil(limited.retryAfterMs / 1000)}s.`, {
+        status: 429,
+        retryAfterMs: limited.retryAfterMs,
+      });
+    }
+    await handler(req, res);
+  } catch (error) {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    const info = toErrorInfo(error);
+    const headers = info.retryAfterMs ? { 'Retry-After': String(Math.ceil(info.retryAfterMs / 1000)) } : {};
+    sendJson(res, info.status || 500, { error: info }, headers);
+  }
+};
+
+// Takes the raw recording as the body; the file name travels in X-File-Name
+export const handleVideoUpload = analysisRoute('upload', async (req, res) => {
+  const type = String(req.headers['content-type'] || '').split(';')[0].trim();
+  if (!type.startsWith('video/')) {
+    throw new InvalidInputError("Send the recording as the request body with a video/* Content-Type.", { status: 415 });
+  }
+  if (Number(req.headers['content-length']) > MAX_VIDEO_BYTES) {
+    throw new InvalidInputError(`The recording is larger than ${MAX_VIDEO_BYTES / 1024 / 1024}MB; shrink it first.`, { status: 413 });
+  }
+
+  let name = 'recording';
+  try {
+    name = decodeURIComponent(String(req.headers['x-file-name'] || name));
+  } catch {
+    // Keep the default; the name is only passed on to the provider
+  }
+  const data = await readBody(req, MAX_VIDEO_BYTES);
+
+  dropExpiredVideos();
+  const videoId = randomUUID();
+  videos.set(videoId, { file: new File([data], name, { type }), expiresAt: Date.now() + VIDEO_TTL_MS });
+  sendJson(res, 201, { videoId });
+});
+
+// Logs arrive parsed; a HAR carries its failed requests, anything else its text and frames
+const isLogEvidence = (log: any): boolean =>
+  typeof log?.name === 'string' &&
+  (log.kind === 'har' ? Array.isArray(log.failed) : (log.kind === 'console' || log.kind === 'stack') && typeof log.text === 'string' && Array.isArray(log.frames));
+
+// Runs analyzeBug with the server's API keys and streams its callbacks as newline-delimited JSON
+export const handleAnalyze = analysisRoute('analyze', async (req, res) => {
+  let request: AnalyzeRequest;
+  try {
+    request = await readJsonBody(req, MAX_REQUEST_BYTES);
+  } catch (error) {
+    if (error instanceof HttpError) throw new InvalidInputError(error.message, { status: error.status });
+    throw new InvalidInputError("Request body must be JSON.", { status: 400 });
+  }
+  if (!Array.isArray(request.codeContext) || !Array.isArray(request.history) || typeof request.modelName !== 'string') {
+    throw new InvalidInputError("codeContext, history and modelName are required.", { status: 400 });
+  }
+  const images = request.images ?? [];
+  if (!Array.isArray(images) || images.some(image => typeof image?.data !== 'string' || !String(image.mimeType).startsWith('image/'))) {
+    throw new InvalidInputError("images must be a list of base64 images with an image/* mimeType.", { status: 400 });
+  }
+  const logs = request.logs ?? [];
+  if (!Array.isArray(logs) || !logs.every(isLogEvidence)) {
+    throw new InvalidInputError("logs must be a list of console, stack or har evidence.", { status: 400 });
+  }
+
+  let videoFile: File | null = null;
+  if (request.videoId) {
+    const video = videos.get(request.videoId);
+    if (!video || video.expiresAt <= Date.now()) {
+      // The browser uploads the recording again when it sees this status
+      throw new InvalidInputError("The recording is no longer on the server; upload it again.", { status: 410 });
+    }
+    video.expiresAt = Date.now() + VIDEO_TTL_MS;
+    videoFile = video.file;
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+  const send = (event: AnalyzeEvent) => res.write(JSON.stringify(event) + '\n');
+
+  // Stop calling the provider when the browser cancels
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  let pending: Partial<BugReport> | null = null;
+  let lastPartialAt = 0;
+  let partialTimer: ReturnType<typeof setTimeout> | null = null;
+  const flushPartial = () => {
+    partialTimer = null;
+    if (!pending) return;
+    send({ type: 'partial', report: pending });
+    pending = null;
+    lastPartialAt = Date.now();
+  };
+
+  try {
+    const report = await analyzeBug(videoFile, request.codeContext, request.history, request.modelName, {
+      signal: controller.signal,
+      uploadedVideo: recall(uploads, request.uploadedVideo?.uri),
+      contextCache: recall(caches, request.contextCache?.name),
+      strategy: request.strategy,
+      maxRepairRounds: Math.min(MAX_REPAIR_ROUNDS, Math.max(0, Math.floor(Number(request.maxRepairRounds ?? MAX_REPAIR_ROUNDS)) || 0)),
+      images,
+      logs,
+      onPartial: (partial) => {
+        pending = partial;
+        partialTimer ??= setTimeout(flushPartial, Math.max(0, lastPartialAt + PARTIAL_INTERVAL_MS - Date.now()));
+      },
+      onStatus: (message) => send({ type: 'status', message }),
+      onVideoUploaded: (media) => {
+        remember(uploads, media.uri, media);
+        send({ type: 'uploaded', media });
+      },
+      onContextCached: (cache) => {
+        remember(caches, cache.name, cache);
+        send({ type: 'cached', cache });
+      },
+    });
+    send({ type: 'done', report });
+  } catch (error) {
+    if (!isAbortError(error)) {
+      console.error('Analysis failed:', error);
+      send({ type: 'error', error: toErrorInfo(error) });
+    }
+  } finally {
+    if (partialTimer) clearTimeout(partialTimer);
+  }
+  res.end();
+});
@@ -0,0 +1,39 @@
+import http from 'node:http';
+import { describe, expect, it } from 'vitest';
+import { isAuthorized } from './auth';
+
+const request = (remoteAddress: string, headers: http.IncomingHttpHeaders = {}) =>
+  ({ headers, socket: { remoteAddress } }) as unknown as http.IncomingMessage;
+
+describe('isAuthorized', () => {
+  describe('without VIBEFIX_API_TOKEN', () => {
+    const env = {};
+
+    it('lets requests from this machine through', () => {
+      expect(isAuthorized(request('127.0.0.1'), env)).toBe(true);
+      expect(isAuthorized(request('::1'), env)).toBe(true);
+      expect(isAuthorized(request('192.168.1.5'), env)).toBe(false);
+    });
+
+    it('lets a local browser through the dev server proxy', () => {
+      expect(isAuthorized(request('127.0.0.1', { 'x-forwarded-for': '127.0.0.1' }), env)).toBe(true);
+    });
+
+    it('refuses another machine proxied by the dev server', () => {
+      expect(isAuthorized(request('127.0.0.1', { 'x-forwarded-for': '192.168.1.5' }), env)).toBe(false);
+      // The client can't pass for local by sending the header itself; the proxy appends its real address
+      expect(isAuthorized(request('127.0.0.1', { 'x-forwarded-for': '127.0.0.1, 192.168.1.5' }), env)).toBe(false);
+    });
+  });
+
+  describe('with VIBEFIX_API_TOKEN', () => {
+    const env = { VIBEFIX_API_TOKEN: 'secret' };
+
+    it('requires the token, from anywhere', () => {
+      expect(isAuthorized(request('192.168.1.5', { authorization: 'Bearer secret' }), env)).toBe(true);
+      expect(isAuthorized(request('127.0.0.1'), env)).toBe(false);
+      expect(isAuthorized(request('127.0.0.1', { authorization: 'Bearer wrong' }), env)).toBe(false);
+      expect(isAuthorized(request('127.0.0.1', { authorization: 'secret' }), env)).toBe(false);
+    });
+  });
+});
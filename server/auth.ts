@@ -0,0 +1,25 @@
+import http from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
+import { forwardedFor, isLoopback } from './http';
+
+const sameToken = (given: string, expected: string) => {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+/**
+ * Whether a request may act with the server's own credentials (push branches, open issues).
+ * With VIBEFIX_API_TOKEN set it must carry `Authorization: Bearer <token>`; without it,
+ * only requests made on this machine are let through, so a local setup needs no token.
+ */
+export const isAuthorized = (req: http.IncomingMessage, env: NodeJS.ProcessEnv = process.env): boolean => {
+  const token = env.VIBEFIX_API_TOKEN;
+  if (token) {
+    const header = String(req.headers.authorization || '');
+    return header.startsWith('Bearer ') && sameToken(header.slice('Bearer '.length).trim(), token);
+  }
+  // The dev server proxies `/api` from this machine and adds its caller to X-Forwarded-For,
+  // so a forwarded request is local only if every address it came through is
+  return isLoopback(req.socket.remoteAddress) && forwardedFor(req).every(isLoopback);
+};
@@ -0,0 +1,13 @@
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+
+/**
+ * Loads `.env.local` and `.env` from `dir`, the same files Vite reads. Variables that
+ * are already set in the environment win over both.
+ */
+export const loadEnvFiles = (dir = process.cwd()) => {
+  for (const name of ['.env.local', '.env']) {
+    const file = path.join(dir, name);
+    if (existsSync(file)) process.loadEnvFile(file);
+  }
+};
@@ -0,0 +1,135 @@
+import http from 'node:http';
+import { ExportFormat, ExportRequest, ExportResult } from '../types';
+import { HttpError, readJsonBody, sendJson } from './http';
+
+const FORMATS: ExportFormat[] = ['github', 'jira', 'html'];
+
+// HTML reports carry their screenshots inline
+const MAX_REQUEST_BYTES = 20 * 1024 * 1024;
+
+// Where one export format is sent
+export interface ExportTarget {
+  send(request: ExportRequest): Promise<ExportResult>;
+}
+
+const postJson = async (url: string, body: unknown, headers: Record<string, string>, service: string): Promise<any> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Accept': 'application/json', 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+  const payload: any = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const detail = payload.message || payload.errorMessages?.join(' ') || Object.values(payload.errors || {}).join(' ') || response.statusText;
+    throw new HttpError(502, `${service} returned ${response.status}: ${detail}`);
+  }
+  return payload;
+};
+
+/**
+ * Opens an issue through the GitHub REST API. Point `baseUrl` at a mock server to test without GitHub.
+ */
+export const createGitHubIssueTarget = (options: { baseUrl: string; token: string; repo: string }): ExportTarget => ({
+  send: async ({ title, content }) => {
+    const payload = await postJson(
+      `${options.baseUrl.replace(/\/$/, '')}/repos/${options.repo}/issues`,
+      { title, body: content },
+      { 'Accept': 'application/vnd.github+json', 'Authorization': `Bearer ${options.token}`, 'X-GitHub-Api-Version': '2022-11-28' },
+      'GitHub API'
+    );
+    return { url: payload.html_url ?? null, id: payload.number !== undefined ? `#${payload.number}` : null };
+  },
+});
+
+/**
+ * Creates a Jira issue through the REST API v2, in the configured project. Jira Cloud takes an
+ * account email with an API token; without an email the token is sent as a bearer token, as
+ * Jira Data Center's personal access tokens expect.
+ */
+export const createJiraTarget = (options: { baseUrl: string; projectKey: string; token: string; email?: string }): ExportTarget => ({
+  send: async ({ content }) => {
+    let issue: any;
+    try {
+      issue = JSON.parse(content);
+    } catch {
+      throw new HttpError(400, 'The Jira export must be a JSON issue payload.');
+    }
+    const baseUrl = options.baseUrl.replace(/\/$/, '');
+    const authorization = options.email
+      ? `Basic ${Buffer.from(`${options.email}:${options.token}`).toString('base64')}`
+      : `Bearer ${options.token}`;
+    const payload = await postJson(
+      `${baseUrl}/rest/api/2/issue`,
+      { ...issue, fields: { ...issue.fields, project: { key: options.projectKey } } },
+      { 'Authorization': authorization },
+      'Jira'
+    );
+    return { url: payload.key ? `${baseUrl}/browse/${payload.key}` : null, id: payload.key ?? null };
+  },
+});
+
+/**
+ * Posts the HTML report as is, for a wiki, a bucket or any service that stores pages. The
+ * report's address is taken from a JSON `url` in the answer or its Location header.
+ */
+export const createHtmlReportTarget = (options: { url: string; token?: string }): ExportTarget => ({
+  send: async ({ title, content }) => {
+    const response = await fetch(options.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'X-VibeFix-Title': encodeURIComponent(title),
+        ...(options.token ? { 'Authorization': `Bearer ${options.token}` } : {}),
+      },
+      body: content,
+    });
+    const payload: any = await response.json().catch(() => ({}));
+    if (!response.ok) throw new HttpError(502, `The report endpoint returned ${response.status}: ${payload.error || response.statusText}`);
+    return { url: payload.url ?? response.headers.get('location'), id: payload.id ?? null };
+  },
+});
+
+const notConfigured = (what: string, variables: string) =>
+  new HttpError(503, `${what} export is not configured. Set ${variables}.`);
+
+export const loadExportTarget = (format: ExportFormat, env: NodeJS.ProcessEnv = process.env): ExportTarget => {
+  switch (format) {
+    case 'github': {
+      const repo = env.EXPORT_GITHUB_REPO || env.TARGET_REPO;
+      if (!repo || !env.GITHUB_TOKEN) throw notConfigured('GitHub issue', 'GITHUB_TOKEN and TARGET_REPO (or EXPORT_GITHUB_REPO)');
+      return createGitHubIssueTarget({ baseUrl: env.GITHUB_API_URL || 'https://api.github.com', token: env.GITHUB_TOKEN, repo });
+    }
+    case 'jira':
+      if (!env.JIRA_BASE_URL || !env.JIRA_PROJECT_KEY || !env.JIRA_API_TOKEN) {
+        throw notConfigured('Jira', 'JIRA_BASE_URL, JIRA_PROJECT_KEY and JIRA_API_TOKEN (and JIRA_EMAIL for Jira Cloud)');
+      }
+      return createJiraTarget({ baseUrl: env.JIRA_BASE_URL, projectKey: env.JIRA_PROJECT_KEY, token: env.JIRA_API_TOKEN, email: env.JIRA_EMAIL });
+    case 'html':
+      if (!env.EXPORT_HTML_URL) throw notConfigured('HTML report', 'EXPORT_HTML_URL');
+      return createHtmlReportTarget({ url: env.EXPORT_HTML_URL, token: env.EXPORT_HTML_TOKEN });
+  }
+};
+
+// Sends an export to the tracker or endpoint configured for its format and answers with where it ended up
+export const handleExport = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  let request: ExportRequest;
+  try {
+    request = await readJsonBody(req, MAX_REQUEST_BYTES);
+  } catch (error) {
+    if (error instanceof HttpError) sendJson(res, error.status, { error: error.message });
+    else sendJson(res, 400, { error: 'Request body must be JSON.' });
+    return;
+  }
+  if (!FORMATS.includes(request.format) || typeof request.title !== 'string' || typeof request.content !== 'string') {
+    sendJson(res, 400, { error: `format (${FORMATS.join(', ')}), title and content are required.` });
+    return;
+  }
+
+  try {
+    const result = await loadExportTarget(request.format).send(request);
+    sendJson(res, 200, result);
+  } catch (error: any) {
+    console.error('Export failed:', error);
+    sendJson(res, error instanceof HttpError ? error.status : 502, { error: error.message || 'Export failed.' });
+  }
+};
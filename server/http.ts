@@ -0,0 +1,43 @@
+import http from 'node:http';
+
+/**
+ * Reads the whole request body. Rejects with a 413 once it grows past `maxBytes`.
+ */
+export const readBody = async (req: http.IncomingMessage, maxBytes = Infinity): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) throw new HttpError(413, `Request body is larger than ${Math.round(maxBytes / 1024 / 1024)}MB.`);
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+};
+
+// A body over `maxBytes` rejects with readBody's HttpError; anything else that fails is bad JSON
+export const readJsonBody = async (req: http.IncomingMessage, maxBytes = Infinity): Promise<any> =>
+  JSON.parse((await readBody(req, maxBytes)).toString('utf8') || '{}');
+
+const LOOPBACK = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+export const isLoopback = (address: string | undefined) => LOOPBACK.includes(address || '');
+
+// The addresses in X-Forwarded-For, the client first and the nearest proxy's caller last
+export const forwardedFor = (req: http.IncomingMessage): string[] =>
+  String(req.headers['x-forwarded-for'] || '').split(',').map(address => address.trim()).filter(Boolean);
+
+export const sendJson = (res: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// A request that can't be served, answered with `status` before any streaming starts
+export class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
@@ -0,0 +1,118 @@
+import http from 'node:http';
+import { ShipEvent, ShipRequest } from '../types';
+import { loadShippingDeps, shipFix } from './shipping';
+import { HttpError, readJsonBody, sendJson } from './http';
+import { isAuthorized } from './auth';
+import { clientKey, createRateLimiter } from './rateLimit';
+import { loadEnvFiles } from './env';
+import { handleRepoSearch } from './repo';
+import { handleExport } from './exports';
+
+// API keys live with the server, in the same files Vite reads the rest of the config from
+loadEnvFiles();
+
+// Loaded after the env files, as the analysis routes read their limits when the module loads
+const { handleAnalyze, handleVideoUpload } = await import('./analyze');
+
+const PORT = Number(process.env.SERVER_PORT || 8787);
+
+// A patch holds every edited file in full
+const MAX_SHIP_BYTES = 10 * 1024 * 1024;
+
+type Handler = (req: http.IncomingMessage, res: http.ServerResponse) => Promise<void>;
+
+// The same per-user budget as uploads and analyses, counted separately for each route
+const limiter = createRateLimiter({ limit: Number(process.env.RATE_LIMIT_PER_MINUTE || 10), windowMs: 60_000 });
+
+const limitedRoute = (name: string, handler: Handler, { authorize = false } = {}): Handler => async (req, res) => {
+  if (authorize && !isAuthorized(req)) {
+    sendJson(res, 401, { error: 'This VibeFix server needs its access token (VIBEFIX_API_TOKEN) for that.' });
+    return;
+  }
+  const limited = limiter.take(`${clientKey(req)} ${name}`);
+  if (limited) {
+    const seconds = Math.ceil(limited.retryAfterMs / 1000);
+    sendJson(res, 429, { error: `Too many requests to the VibeFix server; try again in ${seconds}s.` }, { 'Retry-After': String(seconds) });
+    return;
+  }
+  await handler(req, res);
+};
+
+// Streams shipping progress as newline-delimited JSON so the terminal view updates live
+const handleShip = limitedRoute('ship', async (req, res) => {
+  let request: ShipRequest;
+  try {
+    request = await readJsonBody(req, MAX_SHIP_BYTES);
+  } catch (error) {
+    if (error instanceof HttpError) sendJson(res, error.status, { error: error.message });
+    else sendJson(res, 400, { error: 'Request body must be JSON.' });
+    return;
+  }
+  // Each of them goes into the commit or the pull request as it is
+  if (typeof request.bug_summary !== 'string' || !request.bug_summary.trim()
+    || typeof request.explanation !== 'string' || typeof request.patch !== 'string') {
+    sendJson(res, 400, { error: 'bug_summary, explanation and patch are required, as strings.' });
+    return;
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+  const send = (event: ShipEvent) => res.write(JSON.stringify(event) + '\n');
+
+  try {
+    const result = await shipFix(request, loadShippingDeps(), message => send({ type: 'log', message }));
+    send({ type: 'done', ...result });
+  } catch (error: any) {
+    console.error('Shipping failed:', error);
+    send({ type: 'error', message: error.message || 'Shipping failed.' });
+  }
+  res.end();
+}, { authorize: true });
+
+const handleRepoSearchRoute = limitedRoute('repo-search', handleRepoSearch);
+const handleExportRoute = limitedRoute('export', handleExport, { authorize: true });
+
+const route = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+  if (req.method === 'POST' && url.pathname === '/api/analyze') {
+    await handleAnalyze(req, res);
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/api/videos') {
+    await handleVideoUpload(req, res);
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/api/repo/search') {
+    await handleRepoSearchRoute(req, res);
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/api/ship') {
+    await handleShip(req, res);
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/api/export') {
+    await handleExportRoute(req, res);
+    return;
+  }
+
+  sendJson(res, 404, { error: 'Not found' });
+};
+
+// An error a route didn't handle would otherwise be an unhandled rejection and stop the server
+const server = http.createServer(async (req, res) => {
+  try {
+    await route(req, res);
+  } catch (error) {
+    console.error(`${req.method} ${req.url} failed:`, error);
+    if (!res.headersSent) sendJson(res, 500, { error: 'The VibeFix server failed to handle the request.' });
+    else res.end();
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`VibeFix server listening on http://localhost:${PORT}`);
+});
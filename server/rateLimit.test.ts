@@ -0,0 +1,48 @@
+import http from 'node:http';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { clientKey, createRateLimiter } from './rateLimit';
+
+describe('createRateLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows the limit per window, then says how long to wait', () => {
+    vi.useFakeTimers({ now: 0 });
+    const limiter = createRateLimiter({ limit: 2, windowMs: 60_000 });
+    expect(limiter.take('a')).toBeNull();
+    vi.advanceTimersByTime(10_000);
+    expect(limiter.take('a')).toBeNull();
+    expect(limiter.take('a')).toEqual({ retryAfterMs: 50_000 });
+    // Other users have their own budget
+    expect(limiter.take('b')).toBeNull();
+  });
+
+  it('frees a slot once the oldest request leaves the window', () => {
+    vi.useFakeTimers({ now: 0 });
+    const limiter = createRateLimiter({ limit: 1, windowMs: 1000 });
+    expect(limiter.take('a')).toBeNull();
+    vi.advanceTimersByTime(999);
+    expect(limiter.take('a')).not.toBeNull();
+    vi.advanceTimersByTime(1);
+    expect(limiter.take('a')).toBeNull();
+  });
+});
+
+describe('clientKey', () => {
+  const request = (forwarded?: string) =>
+    ({ headers: forwarded ? { 'x-forwarded-for': forwarded } : {}, socket: { remoteAddress: '10.0.0.1' } }) as unknown as http.IncomingMessage;
+
+  it('uses the socket address unless the proxy is trusted', () => {
+    expect(clientKey(request('1.2.3.4'), false)).toBe('10.0.0.1');
+    expect(clientKey(request('1.2.3.4, 10.0.0.1'), true)).toBe('1.2.3.4');
+    expect(clientKey(request(), true)).toBe('10.0.0.1');
+  });
+
+  it('tells apart the users the dev server proxies from this machine', () => {
+    const proxied = (forwarded: string) =>
+      ({ headers: { 'x-forwarded-for': forwarded }, socket: { remoteAddress: '127.0.0.1' } }) as unknown as http.IncomingMessage;
+    expect(clientKey(proxied('192.168.1.5'), false)).toBe('192.168.1.5');
+    expect(clientKey(proxied('1.2.3.4, 192.168.1.6'), false)).toBe('192.168.1.6');
+  });
+});
@@ -0,0 +1,47 @@
+import http from 'node:http';
+import { forwardedFor, isLoopback } from './http';
+
+export interface RateLimiter {
+  // Counts a request for `key`; null when allowed, otherwise how long until the next one is
+  take(key: string): { retryAfterMs: number } | null;
+}
+
+/**
+ * Allows `limit` requests per key in any `windowMs`, remembering when each one was made.
+ */
+export const createRateLimiter = ({ limit, windowMs }: { limit: number; windowMs: number }): RateLimiter => {
+  const requests = new Map<string, number[]>();
+
+  return {
+    take: (key) => {
+      const now = Date.now();
+      const recent = (requests.get(key) || []).filter(time => time > now - windowMs);
+      if (recent.length >= limit) {
+        requests.set(key, recent);
+        return { retryAfterMs: recent[0] + windowMs - now };
+      }
+      recent.push(now);
+      requests.set(key, recent);
+
+      // Forget users who have gone quiet so the map doesn't grow forever
+      if (requests.size > 1000) {
+        requests.forEach((times, k) => {
+          if (times[times.length - 1] <= now - windowMs) requests.delete(k);
+        });
+      }
+      return null;
+    },
+  };
+};
+
+/**
+ * Identifies the user behind a request by address. Behind a reverse proxy, set
+ * TRUST_PROXY=1 so the client address is taken from X-Forwarded-For instead.
+ */
+export const clientKey = (req: http.IncomingMessage, trustProxy = process.env.TRUST_PROXY === '1'): string => {
+  const forwarded = forwardedFor(req);
+  if (trustProxy && forwarded.length) return forwarded[0];
+  // A proxy on this machine, like the dev server, appends the address that called it
+  if (forwarded.length && isLoopback(req.socket.remoteAddress)) return forwarded[forwarded.length - 1];
+  return req.socket.remoteAddress || 'unknown';
+};
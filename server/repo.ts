@@ -0,0 +1,74 @@
+import http from 'node:http';
+import { realpathSync } from 'node:fs';
+import path from 'node:path';
+import { RepoSearchRequest, RepoSearchResult } from '../types';
+import { buildRepoIndex, RepoIndex, retrieveRelevantFiles } from '../services/retrieval';
+import { HttpError, readJsonBody, sendJson } from './http';
+import { readSources } from '../services/localSources';
+
+// Indexes are reused for searches in quick succession, then rebuilt to pick up edits
+const INDEX_TTL_MS = 5 * 60 * 1000;
+
+// A search is a path and a bug description
+const MAX_REQUEST_BYTES = 1024 * 1024;
+
+const indexes = new Map<string, { index: RepoIndex; builtAt: number }>();
+
+// Compared by real path, so a link inside REPO_ROOTS can't point the search somewhere else
+const realPath = (target: string): string | null => {
+  try {
+    return realpathSync(target);
+  } catch {
+    return null;
+  }
+};
+
+// The server only reads repositories inside REPO_ROOTS (comma-separated), never anywhere on disk
+const allowedRoots = () =>
+  (process.env.REPO_ROOTS || '').split(',').map(root => root.trim()).filter(Boolean).map(root => realPath(path.resolve(root)) ?? path.resolve(root));
+
+const isAllowed = (root: string) =>
+  allowedRoots().some(allowed => root === allowed || root.startsWith(allowed + path.sep));
+
+const getIndex = async (root: string): Promise<RepoIndex> => {
+  const cached = indexes.get(root);
+  if (cached && Date.now() - cached.builtAt < INDEX_TTL_MS) return cached.index;
+  const index = buildRepoIndex(await readSources(root, [root]));
+  indexes.set(root, { index, builtAt: Date.now() });
+  return index;
+};
+
+// Indexes a repository on the server's disk and answers with the files most relevant to the bug
+export const handleRepoSearch = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  let request: RepoSearchRequest;
+  try {
+    request = await readJsonBody(req, MAX_REQUEST_BYTES);
+  } catch (error) {
+    if (error instanceof HttpError) sendJson(res, error.status, { error: error.message });
+    else sendJson(res, 400, { error: 'Request body must be JSON.' });
+    return;
+  }
+  if (typeof request.root !== 'string' || !request.root.trim() || typeof request.query !== 'string') {
+    sendJson(res, 400, { error: 'root and query are required.' });
+    return;
+  }
+
+  const requested = path.resolve(request.root.trim());
+  const root = realPath(requested) ?? requested;
+  if (!isAllowed(root)) {
+    sendJson(res, 403, { error: `${requested} is not in REPO_ROOTS, so the server won't read it.` });
+    return;
+  }
+
+  try {
+    const index = await getIndex(root);
+    const result: RepoSearchResult = {
+      indexedFiles: index.files.length,
+      matches: retrieveRelevantFiles(index, request.query, { limit: request.limit }),
+    };
+    sendJson(res, 200, result);
+  } catch (error: any) {
+    console.error('Repository search failed:', error);
+    sendJson(res, error.code === 'ENOENT' ? 404 : 500, { error: error.message || 'Repository search failed.' });
+  }
+};
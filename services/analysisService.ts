@@ -0,0 +1,112 @@
+import { AnalysisErrorInfo, AnalyzeEvent, AnalyzeRequest, BugReport, ChatEntry, SourceFile } from "../types";
+import { readNdjson } from "../utils/ndjson";
+import { AnalysisError, errorForStatus, parseRetryAfter, ServerError } from "./errors";
+import type { AnalyzeOptions } from "./geminiService";
+
+export interface AnalysisBackend {
+  analyze(
+    videoFile: File | null,
+    codeContext: SourceFile[],
+    history: ChatEntry[],
+    modelName: string,
+    options?: AnalyzeOptions
+  ): Promise<BugReport>;
+}
+
+const toAnalysisError = (info: AnalysisErrorInfo) =>
+  new AnalysisError(info.message, info.category, { status: info.status, retryAfterMs: info.retryAfterMs });
+
+// The server answers failures with an AnalysisErrorInfo; anything else came from a proxy in between
+const responseError = async (response: Response): Promise<AnalysisError> => {
+  const payload = await response.json().catch(() => ({}));
+  if (payload.error?.category) return toAnalysisError(payload.error);
+  return errorForStatus(
+    response.status,
+    `The VibeFix server returned ${response.status}. Is \`npm run server\` running?`,
+    parseRetryAfter(response.headers.get('Retry-After'))
+  );
+};
+
+/**
+ * Runs analyzeBug on the VibeFix server (`npm run server`), which holds the API keys.
+ * Same contract as analyzeBug: partial reports, status messages, Files API uploads and
+ * context caches are streamed back and passed to the callbacks in `options`.
+ */
+export const createHttpAnalysisBackend = (baseUrl = '/api'): AnalysisBackend => {
+  // Recordings are sent to the server once and referenced by id in refinements
+  const videoIds = new WeakMap<File, Promise<string>>();
+
+  const uploadVideo = (file: File, { signal, onStatus }: AnalyzeOptions): Promise<string> => {
+    let videoId = videoIds.get(file);
+    if (!videoId) {
+      onStatus?.("Sending the recording to the VibeFix server...");
+      videoId = fetch(`${baseUrl}/videos`, {
+        method: 'POST',
+        headers: { 'Content-Type': file.type || 'video/mp4', 'X-File-Name': encodeURIComponent(file.name) },
+        body: file,
+        signal,
+      }).then(async response => {
+        if (!response.ok) throw await responseError(response);
+        onStatus?.(null);
+        return (await response.json()).videoId as string;
+      });
+      videoIds.set(file, videoId);
+      videoId.catch(() => videoIds.delete(file));
+    }
+    return videoId;
+  };
+
+  return {
+    analyze: async (videoFile, codeContext, history, modelName, options = {}) => {
+      const { signal, onPartial, onStatus, onVideoUploaded, onContextCached } = options;
+
+      const post = async () => {
+        const request: AnalyzeRequest = {
+          videoId: videoFile ? await uploadVideo(videoFile, options) : null,
+          codeContext,
+          history,
+          modelName,
+          uploadedVideo: options.uploadedVideo ?? null,
+          contextCache: options.contextCache ?? null,
+          strategy: options.strategy,
+          maxRepairRounds: options.maxRepairRounds,
+          images: options.images,
+          logs: options.logs,
+        };
+        return fetch(`${baseUrl}/analyze`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(request),
+          signal,
+        });
+      };
+
+      let response = await post();
+      // The server drops recordings after a while or when it restarts
+      if (response.status === 410 && videoFile) {
+        videoIds.delete(videoFile);
+        response = await post();
+      }
+      if (!response.ok) throw await responseError(response);
+
+      let report: BugReport | null = null;
+      let failure: AnalysisErrorInfo | null = null;
+      await readNdjson<AnalyzeEvent>(response, event => {
+        switch (event.type) {
+          case 'partial': onPartial?.(event.report); break;
+          case 'status': onStatus?.(event.message); break;
+          case 'uploaded': onVideoUploaded?.(event.media); break;
+          case 'cached': onContextCached?.(event.cache); break;
+          case 'done': report = event.report; break;
+          case 'error': failure = event.error; break;
+        }
+      });
+
+      if (failure) throw toAnalysisError(failure);
+      if (!report) throw new ServerError("The VibeFix server closed the stream without a report.");
+      return report;
+    },
+  };
+};
+
+export const defaultAnalysisBackend = createHttpAnalysisBackend();
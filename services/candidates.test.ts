@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BugReport, Candidate, SourceFile } from '../types';
+import { AnalysisBackend } from './analysisService';
+import { countChangedLines, defaultCandidateSpecs, generateCandidates, isSameFix, rankCandidates } from './candidates';
+
+const files: SourceFile[] = [{ path: 'src/a.css', content: '.a {\n  color: white;\n}\n' }];
+
+const report = (overrides: Partial<BugReport> = {}): BugReport => ({
+  bug_summary: 'Button is invisible',
+  user_sentiment: '',
+  explanation: '',
+  edits: [{ file_to_edit: 'src/a.css', explanation: '', code_patch: '.a {\n  color: black;\n}\n' }],
+  ...overrides,
+});
+
+const candidate = (id: string, changedLines: number, overrides: Partial<BugReport> = {}): Candidate =>
+  ({ id, model: 'mock', strategy: 'direct', report: report(overrides), changedLines });
+
+const failed = { status: 'failed' as const, checkedFiles: ['src/a.css'], issues: [], repairRounds: 2 };
+
+describe('rankCandidates', () => {
+  it('puts fixes that fail the syntax checks last, whatever their confidence', () => {
+    const ranked = rankCandidates([candidate('broken', 1, { confidence: 0.95, verification: failed }), candidate('ok', 10, { confidence: 0.4 })]);
+    expect(ranked.map(c => c.id)).toEqual(['ok', 'broken']);
+  });
+
+  it('prefers higher confidence, then the smaller patch when the scores are close', () => {
+    const ranked = rankCandidates([
+      candidate('sure-but-large', 20, { confidence: 0.83 }),
+      candidate('unsure', 2, { confidence: 0.5 }),
+      candidate('sure-and-small', 4, { confidence: 0.79 }),
+    ]);
+    expect(ranked.map(c => c.id)).toEqual(['sure-and-small', 'sure-but-large', 'unsure']);
+  });
+
+  it('ranks a report without a confidence as 0.5, and leaves the input alone', () => {
+    const input = [candidate('low', 1, { confidence: 0.2 }), candidate('unknown', 5), candidate('high', 9, { confidence: 0.9 })];
+    expect(rankCandidates(input).map(c => c.id)).toEqual(['high', 'unknown', 'low']);
+    expect(input.map(c => c.id)).toEqual(['low', 'unknown', 'high']);
+  });
+});
+
+describe('countChangedLines', () => {
+  it('counts removed and added lines, new files in full', () => {
+    const withNewFile = report({
+      edits: [...report().edits, { file_to_edit: 'src/b.css', explanation: '', code_patch: '.b {}\n.c {}\n' }],
+    });
+    expect(countChangedLines(files, withNewFile)).toBe(4);
+  });
+});
+
+describe('isSameFix', () => {
+  it('compares the edited files and their contents', () => {
+    expect(isSameFix(report(), report({ explanation: 'Worded differently' }))).toBe(true);
+    expect(isSameFix(report(), report({ edits: [{ ...report().edits[0], code_patch: '.a {}\n' }] }))).toBe(false);
+  });
+});
+
+describe('generateCandidates', () => {
+  it('runs one analysis per strategy and returns the fixes ranked', async () => {
+    const backend: AnalysisBackend = {
+      analyze: vi.fn(async (_video, _code, _history, _model, { strategy }) =>
+        report({ bug_summary: strategy, confidence: strategy === 'minimal' ? 0.9 : 0.6 })),
+    };
+    const candidates = await generateCandidates(backend, null, files, defaultCandidateSpecs(3), 'mock');
+    expect(candidates.map(c => c.strategy)).toEqual(['minimal', 'direct', 'root-cause']);
+    expect(candidates.map(c => c.id).sort()).toEqual(['candidate-1', 'candidate-2', 'candidate-3']);
+    expect(candidates[0]).toMatchObject({ model: 'mock', changedLines: 2 });
+  });
+
+  it('leaves out the fixes that fail, and throws only when all of them do', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const flaky: AnalysisBackend = {
+      analyze: async (_video, _code, _history, _model, { strategy }) => {
+        if (strategy === 'minimal') throw new Error('Quota exceeded');
+        return report();
+      },
+    };
+    expect((await generateCandidates(flaky, null, files, defaultCandidateSpecs(2), 'mock')).map(c => c.strategy)).toEqual(['direct']);
+
+    const broken: AnalysisBackend = {
+      analyze: async (_video, _code, _history, _model, { strategy }) => {
+        throw new Error(`${strategy} failed`);
+      },
+    };
+    await expect(generateCandidates(broken, null, files, defaultCandidateSpecs(2), 'mock')).rejects.toThrow('direct failed');
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,117 @@
+import { BugReport, Candidate, FixStrategy, SourceFile } from "../types";
+import { diffLines } from "../utils/diff";
+import { findSourceFile } from "../utils/sourceFiles";
+import { isAbortError } from "../utils/async";
+import { AnalysisBackend } from "./analysisService";
+import { AnalyzeOptions } from "./geminiService";
+import { getModelOption } from "./models";
+
+export const FIX_STRATEGIES: { id: FixStrategy; label: string }[] = [
+  { id: 'direct', label: 'Best guess' },
+  { id: 'minimal', label: 'Smallest change' },
+  { id: 'root-cause', label: 'Root cause' },
+  { id: 'defensive', label: 'Defensive' },
+];
+
+export const MAX_CANDIDATES = 4;
+
+export interface CandidateSpec {
+  strategy: FixStrategy;
+  // Missing means the model picked in the navbar
+  model?: string;
+}
+
+// Each additional fix takes the next strategy, so the alternatives differ in approach
+export const defaultCandidateSpecs = (count: number): CandidateSpec[] =>
+  FIX_STRATEGIES.slice(0, count).map(({ id }) => ({ strategy: id }));
+
+export const candidateLabel = ({ strategy, model }: Pick<Candidate, 'strategy' | 'model'>): string =>
+  `${FIX_STRATEGIES.find(option => option.id === strategy)?.label || strategy} · ${getModelOption(model).label}`;
+
+export const countChangedLines = (codeContext: SourceFile[], report: BugReport): number =>
+  report.edits.reduce((sum, edit) => {
+    const original = findSourceFile(edit.file_to_edit, codeContext)?.content ?? '';
+    return sum + diffLines(original, edit.code_patch).filter(line => line.type !== 'context').length;
+  }, 0);
+
+// Reports without a confidence sit in the middle
+const confidenceOf = (candidate: Candidate) => candidate.report.confidence ?? 0.5;
+
+/**
+ * Best first: fixes whose patched files fail the syntax checks go last, then higher
+ * confidence (in steps of 0.1, so near-equal scores don't decide) and then the smaller patch.
+ */
+export const rankCandidates = (candidates: Candidate[]): Candidate[] =>
+  [...candidates].sort((a, b) => {
+    const failedA = a.report.verification?.status === 'failed' ? 1 : 0;
+    const failedB = b.report.verification?.status === 'failed' ? 1 : 0;
+    if (failedA !== failedB) return failedA - failedB;
+    const confidence = Math.round(confidenceOf(b) * 10) - Math.round(confidenceOf(a) * 10);
+    return confidence !== 0 ? confidence : a.changedLines - b.changedLines;
+  });
+
+export const isSameFix = (a: BugReport, b: BugReport): boolean =>
+  a.edits.length === b.edits.length
+  && a.edits.every((edit, i) => edit.file_to_edit === b.edits[i].file_to_edit && edit.code_patch === b.edits[i].code_patch);
+
+/**
+ * Generates one fix per spec for the same input and returns them ranked. The first one
+ * streams its partial report; the others start once it is past uploading the recording,
+ * so they reuse the upload instead of sending the video again. Fixes that fail are left
+ * out; only when all of them fail is the first failure thrown.
+ */
+export const generateCandidates = async (
+  backend: AnalysisBackend,
+  videoFile: File | null,
+  codeContext: SourceFile[],
+  specs: CandidateSpec[],
+  modelName: string,
+  options: AnalyzeOptions = {}
+): Promise<Candidate[]> => {
+  const { onStatus, onVideoUploaded, signal } = options;
+  let uploadedVideo = options.uploadedVideo;
+  let finished = 0;
+  let releaseOthers = () => {};
+  const pastUpload = new Promise<void>(resolve => {
+    releaseOthers = resolve;
+  });
+
+  const run = async ({ strategy, model = modelName }: CandidateSpec, index: number): Promise<Candidate> => {
+    const isFirst = index === 0;
+    if (!isFirst) await pastUpload;
+    try {
+      const report = await backend.analyze(videoFile, codeContext, [], model, {
+        ...options,
+        strategy,
+        uploadedVideo,
+        // Only the first fix reports its progress; the rest are counted as they finish
+        onPartial: isFirst
+          ? (partial) => {
+              releaseOthers();
+              options.onPartial?.(partial);
+            }
+          : undefined,
+        onStatus: isFirst ? onStatus : undefined,
+        onVideoUploaded: (media) => {
+          uploadedVideo = media;
+          onVideoUploaded?.(media);
+          releaseOthers();
+        },
+      });
+      return { id: `candidate-${index + 1}`, model, strategy, report, changedLines: countChangedLines(codeContext, report) };
+    } finally {
+      if (isFirst) releaseOthers();
+      finished++;
+      if (!signal?.aborted) onStatus?.(`${finished} of ${specs.length} fixes ready...`);
+    }
+  };
+
+  const results = await Promise.allSettled(specs.map(run));
+  const candidates = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+  const failures = results.flatMap(result => (result.status === 'rejected' ? [result.reason] : []));
+
+  if (signal?.aborted) throw failures.find(isAbortError) ?? signal.reason;
+  if (candidates.length === 0) throw failures[0];
+  failures.forEach(error => console.warn("A candidate fix failed:", error));
+  return rankCandidates(candidates);
+};
@@ -0,0 +1,140 @@
+import { AnalysisErrorInfo, ErrorCategory } from "../types";
+
+export interface AnalysisErrorOptions {
+  status?: number;
+  retryAfterMs?: number;
+}
+
+/**
+ * A failure the UI can explain: `category` says what kind of problem it is,
+ * the message gives the details.
+ */
+export class AnalysisError extends Error {
+  readonly category: ErrorCategory;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, category: ErrorCategory, { status, retryAfterMs }: AnalysisErrorOptions = {}) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.category = category;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Rate limited or out of quota (429)
+export class QuotaError extends AnalysisError {
+  constructor(message: string, options?: AnalysisErrorOptions) {
+    super(message, 'quota', options);
+    this.name = 'QuotaError';
+  }
+}
+
+// Missing, invalid or unauthorised API key (401/403)
+export class AuthError extends AnalysisError {
+  constructor(message: string, options?: AnalysisErrorOptions) {
+    super(message, 'auth', options);
+    this.name = 'AuthError';
+  }
+}
+
+// The model doesn't exist or the key can't use it (404)
+export class ModelNotFoundError extends AnalysisError {
+  constructor(message: string, options?: AnalysisErrorOptions) {
+    super(message, 'model-not-found', options);
+    this.name = 'ModelNotFoundError';
+  }
+}
+
+// The provider refused what we sent: unsupported video, too large a request (400/413)
+export class InvalidInputError extends AnalysisError {
+  constructor(message: string, options?: AnalysisErrorOptions) {
+    super(message, 'invalid-input', options);
+    this.name = 'InvalidInputError';
+  }
+}
+
+// The provider failed or is overloaded (5xx); usually worth retrying
+export class ServerError extends AnalysisError {
+  constructor(message: string, options?: AnalysisErrorOptions) {
+    super(message, 'server', options);
+    this.name = 'ServerError';
+  }
+}
+
+// The provider couldn't be reached at all
+export class NetworkError extends AnalysisError {
+  constructor(message: string, options?: AnalysisErrorOptions) {
+    super(message, 'network', options);
+    this.name = 'NetworkError';
+  }
+}
+
+// The model answered, but not with a usable BugReport, even after being shown what was wrong
+export class ResponseValidationError extends AnalysisError {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[], category: ErrorCategory = 'invalid-response') {
+    super(message, category);
+    this.name = 'ResponseValidationError';
+    this.issues = issues;
+  }
+}
+
+export const errorForStatus = (status: number, message: string, retryAfterMs?: number): AnalysisError => {
+  const options = { status, retryAfterMs };
+  if (status === 429) return new QuotaError(message, options);
+  if (status === 401 || status === 403) return new AuthError(message, options);
+  if (status === 404) return new ModelNotFoundError(message, options);
+  if (status === 400 || status === 413 || status === 415 || status === 422) return new InvalidInputError(message, options);
+  if (status === 408 || status >= 500) return new ServerError(message, options);
+  return new AnalysisError(message, 'unknown', options);
+};
+
+/**
+ * Reads a Retry-After header, which is either a number of seconds or an HTTP date.
+ */
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// SDK errors only carry these in their message, e.g. `got status: 429` or `"retryDelay": "24s"`
+const statusFromMessage = (message: string): number | undefined => {
+  const match = /\[(\d{3})\]|"code":\s*(\d{3})|status(?: code)?:?\s*(\d{3})/i.exec(message);
+  return match ? Number(match[1] || match[2] || match[3]) : undefined;
+};
+
+const retryAfterFromMessage = (message: string): number | undefined => {
+  const match = /"retryDelay":\s*"(\d+(?:\.\d+)?)s"|retry in (\d+(?:\.\d+)?)\s*s/i.exec(message);
+  return match ? Number(match[1] || match[2]) * 1000 : undefined;
+};
+
+const NETWORK_FAILURE = /failed to fetch|networkerror|network request failed|fetch failed|load failed|ECONNREFUSED|ENOTFOUND|ECONNRESET|ETIMEDOUT/i;
+
+/**
+ * Turns whatever a provider threw into a typed AnalysisError.
+ */
+export const classifyError = (error: unknown): AnalysisError => {
+  if (error instanceof AnalysisError) return error;
+
+  const raw = error as { message?: string; status?: unknown; cause?: { message?: string } };
+  const message = raw?.message || String(error);
+  const status = typeof raw?.status === 'number' ? raw.status : statusFromMessage(message);
+  const retryAfterMs = retryAfterFromMessage(message);
+
+  if (status) return errorForStatus(status, message, retryAfterMs);
+  if (/quota|resource[_ ]exhausted|rate limit/i.test(message)) return new QuotaError(message, { retryAfterMs });
+  if (/api key/i.test(message)) return new AuthError(message);
+  if (NETWORK_FAILURE.test(message) || NETWORK_FAILURE.test(raw?.cause?.message || '')) return new NetworkError(message);
+  return new AnalysisError(message, 'unknown');
+};
+
+export const toErrorInfo = (error: unknown): AnalysisErrorInfo => {
+  const { message, category, status, retryAfterMs } = classifyError(error);
+  return { message: message || "Unknown error", category, status, retryAfterMs };
+};
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { BugReport, ChatEntry, Session } from '../types';
+import { exportFileContent, exportSession } from './exporters';
+
+const report = (overrides: Partial<BugReport> = {}): BugReport => ({
+  bug_summary: 'Order button is invisible',
+  user_sentiment: 'Frustrated',
+  explanation: 'The text has the same colour as the button.',
+  edits: [{ file_to_edit: 'src/a.css', explanation: 'Darken the text', code_patch: '.a { color: black; }\n', line_range: { start_line: 1, end_line: 1 } }],
+  severity: 'high',
+  root_cause: 'styling',
+  confidence: 0.8,
+  ...overrides,
+});
+
+const session = (revisions: BugReport[] = [report()], overrides: Partial<Session> = {}): Session => {
+  const history: ChatEntry[] = [{ role: 'user', content: 'Analyze this code.', timestamp: 0 }];
+  revisions.forEach((revision, i) => {
+    if (i > 0) history.push({ role: 'user', content: `Try again ${i}`, timestamp: 0 });
+    history.push({ role: 'model', content: revision, timestamp: 0 });
+  });
+  return {
+    id: 's1',
+    createdAt: 0,
+    updatedAt: 0,
+    modelName: 'mock',
+    codeContext: [{ path: 'src/a.css', content: '.a { color: white; }\n' }],
+    video: null,
+    history,
+    revisions,
+    ...overrides,
+  };
+};
+
+describe('exportSession', () => {
+  it('writes a GitHub issue with the triage, the patch and the history', () => {
+    const doc = exportSession(session(), 'github');
+    expect(doc).toMatchObject({ format: 'github', title: 'Order button is invisible', filename: 'vibefix-order-button-is-invisible.md', mimeType: 'text/markdown' });
+    expect(doc.content).toContain('| Severity | high |');
+    expect(doc.content).toContain('| Confidence | 80% |');
+    expect(doc.content).toContain("## What's wrong\n\nThe text has the same colour as the button.");
+    expect(doc.content).toContain('- `src/a.css` line 1 — Darken the text');
+    expect(doc.content).toContain('```diff\ndiff --git a/src/a.css b/src/a.css\n');
+    expect(doc.content).toContain('No recording was submitted.');
+    expect(doc.content).toContain('2. **Revision 1:** Order button is invisible (80% sure)');
+    expect(exportFileContent(doc)).toBe(`# Order button is invisible\n\n${doc.content}`);
+  });
+
+  it('fences the patch with more backticks than it contains', () => {
+    const withFence = report({ edits: [{ file_to_edit: 'README.md', explanation: '', code_patch: '````js\nrun();\n````\n' }] });
+    expect(exportSession(session([withFence]), 'github').content).toContain('`````diff\n');
+  });
+
+  it('exports the revision asked for', () => {
+    const doc = exportSession(session([report({ bug_summary: 'First guess' }), report()]), 'github', { revision: 1 });
+    expect(doc.title).toBe('First guess');
+    expect(doc.content).toContain('| Revision | 1 of 2 |');
+    expect(doc.content).toContain('**Reporter:** Try again 1');
+  });
+
+  it('writes a Jira create-issue payload', () => {
+    const doc = exportSession(session(), 'jira', { jiraProjectKey: 'SHOP' });
+    const { fields } = JSON.parse(doc.content);
+    expect(fields).toMatchObject({
+      project: { key: 'SHOP' },
+      issuetype: { name: 'Bug' },
+      summary: 'Order button is invisible',
+      labels: ['vibefix', 'severity-high', 'root-cause-styling'],
+    });
+    expect(fields.description).toContain('*Severity:* high');
+    expect(fields.description).toContain('{code:diff}\ndiff --git a/src/a.css b/src/a.css');
+    expect(doc.filename).toBe('vibefix-order-button-is-invisible.jira.json');
+  });
+
+  it('leaves the patch out of a Jira description that would be too long, and clips the summary', () => {
+    const large = report({
+      bug_summary: 'x'.repeat(300),
+      edits: [{ file_to_edit: 'src/a.css', explanation: '', code_patch: '.a { color: black; }\n'.repeat(3000) }],
+    });
+    const { fields } = JSON.parse(exportSession(session([large]), 'jira').content);
+    expect(fields.summary).toHaveLength(255);
+    expect(fields.description.length).toBeLessThanOrEqual(32_000);
+    expect(fields.description).not.toContain('{code:diff}');
+    expect(fields.description).toContain('The patch is too long for a Jira description');
+    expect(fields).not.toHaveProperty('project');
+  });
+
+  it('writes a standalone HTML report with the text escaped and the screenshots inline', () => {
+    const doc = exportSession(session([report({ bug_summary: '<script>alert(1)</script>' })], {
+      images: [{ name: 'actual.png', label: 'Actual', mimeType: 'image/png', data: 'iVBORw0KGgo=', annotated: true }],
+    }), 'html');
+    expect(doc.mimeType).toBe('text/html');
+    expect(doc.content).toContain('<h1>&lt;script&gt;alert(1)&lt;/script&gt;</h1>');
+    expect(doc.content).not.toContain('<script>');
+    expect(doc.content).toContain('<img src="data:image/png;base64,iVBORw0KGgo=" alt="Actual">');
+    expect(doc.content).toContain('<span class="add">+.a { color: black; }</span>');
+  });
+
+  it('leaves out screenshots whose stored type or data would break out of the attribute', () => {
+    const doc = exportSession(session(undefined, {
+      images: [
+        { name: 'a.png', label: '', mimeType: 'image/png" onerror="alert(1)', data: 'iVBORw0KGgo=', annotated: false },
+        { name: 'b.png', label: '', mimeType: 'image/png', data: 'AAAA"><script>alert(1)</script>', annotated: false },
+      ],
+    }), 'html');
+    expect(doc.content).not.toContain('onerror');
+    expect(doc.content).not.toContain('<script>');
+    expect(doc.content).not.toContain('<img');
+    expect(doc.content).toContain('<figcaption>1. a.png (left out: not valid image data)</figcaption>');
+  });
+
+  it('refuses a session without a report', () => {
+    expect(() => exportSession(session([]), 'github')).toThrow('The session has no report to export.');
+  });
+});
@@ -0,0 +1,307 @@
+import { BugReport, ChatEntry, ExportDocument, ExportFormat, ExportRequest, ExportResult, ImageEvidence, LogEvidence, Session, SourceFile, VideoMetadata } from "../types";
+import { createEditsPatch } from "../utils/diff";
+import { editsWithTest } from "../utils/sourceFiles";
+import { formatBytes, formatDuration } from "../utils/media";
+import { revisionIndices } from "../utils/conversation";
+import { LOG_KINDS, summarizeLog } from "../utils/logs";
+import { getModelOption } from "./models";
+import { fetchWithAccessToken } from "./serverAuth";
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'github', label: 'GitHub Issue' },
+  { id: 'jira', label: 'Jira' },
+  { id: 'html', label: 'HTML report' },
+];
+
+export interface ExportOptions {
+  // Which revision to export, counting from 1; the latest by default
+  revision?: number;
+  // Left out of the Jira payload when missing; the server fills in its own
+  jiraProjectKey?: string;
+}
+
+// Jira rejects descriptions over 32,767 characters and summaries over 255
+const JIRA_DESCRIPTION_LIMIT = 32_000;
+const JIRA_SUMMARY_LIMIT = 255;
+
+// Everything the exporters write about a session, worked out once
+interface ExportFacts {
+  report: BugReport;
+  patch: string;
+  video: string | null;
+  images: ImageEvidence[];
+  logs: string[];
+  triage: [string, string][];
+  history: { speaker: string; text: string }[];
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const describeVideo = (video: VideoMetadata | null): string | null => {
+  if (!video) return null;
+  const details = [video.type || 'video', formatBytes(video.size), video.duration ? formatDuration(video.duration) : null].filter(Boolean);
+  const uploaded = video.uploaded && (video.uploaded.expiresAt === null || video.uploaded.expiresAt > Date.now())
+    ? `, uploaded as ${video.uploaded.uri}${video.uploaded.expiresAt ? ` until ${new Date(video.uploaded.expiresAt).toISOString()}` : ''}`
+    : ', not attached';
+  return `${video.name} (${details.join(', ')})${uploaded}`;
+};
+
+// The conversation in the order it was written, with each report as its revision's summary
+const describeHistory = (history: ChatEntry[]) => {
+  const revisions = revisionIndices(history);
+  return history.map((entry, index) => {
+    if (entry.role === 'user') {
+      const branch = entry.refines && entry.refines !== revisions.filter(i => i < index).length ? ` (on revision ${entry.refines})` : '';
+      return { speaker: `Reporter${branch}`, text: entry.content as string };
+    }
+    if (typeof entry.content === 'string') return { speaker: 'VibeFix', text: entry.content };
+    const { bug_summary, confidence } = entry.content;
+    return { speaker: `Revision ${revisions.indexOf(index) + 1}`, text: `${bug_summary}${confidence !== undefined ? ` (${percent(confidence)} sure)` : ''}` };
+  });
+};
+
+// One line per log, with what was found in it; the logs themselves stay with the session
+const describeLogs = (logs: LogEvidence[], files: SourceFile[]): string[] =>
+  logs.map(log => `${LOG_KINDS.find(kind => kind.id === log.kind)!.label} ${log.name}: ${summarizeLog(log, files)}`);
+
+const collectFacts = (session: Session, revision?: number): ExportFacts => {
+  const revisionCount = session.revisions.length;
+  const shown = revision && revision <= revisionCount ? revision : revisionCount;
+  const report = session.revisions[shown - 1];
+  if (!report) throw new Error("The session has no report to export.");
+
+  const { severity, root_cause, confidence, user_sentiment, verification } = report;
+  const modelLabel = getModelOption(session.modelName).label;
+  const triage: [string, string][] = [
+    ['Severity', severity || 'not given'],
+    ['Root cause', root_cause || 'not given'],
+    ['Confidence', confidence !== undefined ? percent(confidence) : 'not given'],
+    ['User sentiment', user_sentiment || 'Unknown'],
+    ['Syntax checks', verification ? verification.status : 'not run'],
+    ['Model', modelLabel],
+    ['Revision', `${shown} of ${revisionCount}`],
+  ];
+
+  return {
+    report,
+    patch: createEditsPatch(session.codeContext, editsWithTest(report)),
+    video: describeVideo(session.video),
+    images: session.images ?? [],
+    logs: describeLogs(session.logs ?? [], session.codeContext),
+    triage,
+    history: describeHistory(session.history),
+  };
+};
+
+// The screenshots by label, as the prompt named them; only the HTML report can hold the images themselves
+const describeImages = (images: ImageEvidence[]): string =>
+  images.map((image, i) => `${i + 1}. ${image.label ? `${image.label} (${image.name})` : image.name}${image.annotated ? ', annotated' : ''}`).join('; ');
+
+const describeEdit = (edit: BugReport['edits'][number]) => {
+  const range = edit.line_range;
+  const lines = range ? (range.start_line === range.end_line ? `line ${range.start_line}` : `lines ${range.start_line}–${range.end_line}`) : '';
+  return { lines, explanation: edit.explanation || '' };
+};
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 48).replace(/-+$/, '') || 'bug';
+
+// A fence longer than any run of backticks in the text, so the patch can't close it early
+const fenceFor = (text: string) => '`'.repeat(Math.max(3, ...(text.match(/`+/g) || []).map(run => run.length + 1)));
+
+const escapeMarkdownCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+const toGitHubIssue = (facts: ExportFacts): string => {
+  const { report, patch, video, images, logs, triage, history } = facts;
+  const fence = fenceFor(patch);
+  // The summary is the issue's title, so the body starts with the triage
+  const sections = [
+    ['| | |', '|---|---|', ...triage.map(([label, value]) => `| ${label} | ${escapeMarkdownCell(value)} |`)].join('\n'),
+    `## What's wrong\n\n${report.explanation}`,
+  ];
+  if (report.evidence?.length) {
+    sections.push(`## Evidence\n\n${report.evidence.map(item => `- **${formatDuration(item.start_seconds)}–${formatDuration(item.end_seconds)}** ${item.description}`).join('\n')}`);
+  }
+  sections.push(`## Recording\n\n${video ?? 'No recording was submitted.'}`);
+  if (images.length) sections.push(`## Screenshots\n\n${describeImages(images)}`);
+  if (logs.length) sections.push(`## Logs\n\n${logs.map(line => `- ${line}`).join('\n')}`);
+
+  const edits = report.edits.map(edit => {
+    const { lines, explanation } = describeEdit(edit);
+    return `- \`${edit.file_to_edit}\`${lines ? ` ${lines}` : ''}${explanation ? ` — ${explanation}` : ''}`;
+  });
+  if (report.regression_test) edits.push(`- \`${report.regression_test.file_path}\` — ${report.regression_test.framework} regression test`);
+  sections.push(`## Proposed fix\n\n${edits.join('\n')}\n\n${patch ? `${fence}diff\n${patch.trimEnd()}\n${fence}` : '_The fix changes no lines._'}`);
+
+  sections.push(`## Refinement history\n\n${history.map((item, i) => `${i + 1}. **${item.speaker}:** ${item.text.replace(/\n+/g, ' ')}`).join('\n')}`);
+  sections.push('<sub>Exported from VibeFix.</sub>');
+  return sections.join('\n\n') + '\n';
+};
+
+// Jira's wiki markup, which the REST API v2 takes as the issue description
+const toJiraDescription = (facts: ExportFacts, withPatch: boolean): string => {
+  const { report, patch, video, images, logs, triage, history } = facts;
+  const sections = [
+    triage.map(([label, value]) => `*${label}:* ${value}`).join('\n'),
+    `h3. What's wrong\n${report.explanation}`,
+  ];
+  if (report.evidence?.length) {
+    sections.push(`h3. Evidence\n${report.evidence.map(item => `* *${formatDuration(item.start_seconds)}–${formatDuration(item.end_seconds)}* ${item.description}`).join('\n')}`);
+  }
+  sections.push(`h3. Recording\n${video ?? 'No recording was submitted.'}`);
+  if (images.length) sections.push(`h3. Screenshots\n${describeImages(images)}`);
+  if (logs.length) sections.push(`h3. Logs\n${logs.map(line => `* ${line}`).join('\n')}`);
+
+  const edits = report.edits.map(edit => {
+    const { lines, explanation } = describeEdit(edit);
+    return `* {{${edit.file_to_edit}}}${lines ? ` ${lines}` : ''}${explanation ? ` — ${explanation}` : ''}`;
+  });
+  if (report.regression_test) edits.push(`* {{${report.regression_test.file_path}}} — ${report.regression_test.framework} regression test`);
+  const code = !patch
+    ? 'The fix changes no lines.'
+    : withPatch ? `{code:diff}\n${patch.trimEnd()}\n{code}` : 'The patch is too long for a Jira description; attach the HTML report or the .patch file instead.';
+  sections.push(`h3. Proposed fix\n${edits.join('\n')}\n${code}`);
+
+  sections.push(`h3. Refinement history\n${history.map(item => `# *${item.speaker}:* ${item.text.replace(/\n+/g, ' ')}`).join('\n')}`);
+  sections.push('_Exported from VibeFix._');
+  return sections.join('\n\n');
+};
+
+const toJiraPayload = (facts: ExportFacts, projectKey?: string): string => {
+  const { report } = facts;
+  let description = toJiraDescription(facts, true);
+  if (description.length > JIRA_DESCRIPTION_LIMIT) description = toJiraDescription(facts, false);
+
+  const labels = ['vibefix', report.severity && `severity-${report.severity}`, report.root_cause && `root-cause-${report.root_cause}`].filter(Boolean);
+  const fields = {
+    ...(projectKey ? { project: { key: projectKey } } : {}),
+    issuetype: { name: 'Bug' },
+    summary: report.bug_summary.replace(/\s+/g, ' ').slice(0, JIRA_SUMMARY_LIMIT),
+    description: description.slice(0, JIRA_DESCRIPTION_LIMIT),
+    labels,
+  };
+  return JSON.stringify({ fields }, null, 2);
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Images of a restored session come from IndexedDB, not from this code, so only an image
+// type and base64 data are let into the attribute
+const imageSource = ({ mimeType, data }: ImageEvidence): string | null =>
+  /^image\/[\w.+-]+$/.test(mimeType) && /^[A-Za-z0-9+/]*={0,2}$/.test(data) ? `data:${mimeType};base64,${data}` : null;
+
+const toFigure = (image: ImageEvidence, index: number): string => {
+  const src = imageSource(image);
+  const caption = `${index + 1}. ${escapeHtml(image.label || image.name)}${image.annotated ? ' (annotated)' : ''}`;
+  return `<figure>${src ? `<img src="${src}" alt="${escapeHtml(image.label || image.name)}">` : ''}<figcaption>${caption}${src ? '' : ' (left out: not valid image data)'}</figcaption></figure>`;
+};
+
+const diffLineClass = (line: string) => {
+  if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('diff ')) return 'file';
+  if (line.startsWith('@@')) return 'hunk';
+  if (line.startsWith('+')) return 'add';
+  if (line.startsWith('-')) return 'remove';
+  return '';
+};
+
+const HTML_STYLES = `
+  body { font: 15px/1.5 system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+  h1 { font-size: 1.5rem; }
+  h2 { font-size: 1.15rem; margin-top: 2rem; border-bottom: 1px solid #d0d7de; padding-bottom: .25rem; }
+  table { border-collapse: collapse; }
+  th, td { text-align: left; padding: .25rem .75rem .25rem 0; }
+  th { color: #656d76; font-weight: 600; }
+  code { font: 13px ui-monospace, monospace; background: #f6f8fa; padding: .1rem .3rem; border-radius: 4px; }
+  pre { font: 12px/1.45 ui-monospace, monospace; background: #0d1117; color: #c9d1d9; padding: 1rem; border-radius: 8px; overflow: auto; }
+  pre span { display: block; white-space: pre; }
+  .file { color: #fff; font-weight: 600; } .hunk { color: #39c5cf; }
+  .add { color: #3fb950; background: rgba(46, 160, 67, .15); } .remove { color: #f85149; background: rgba(248, 81, 73, .15); }
+  figure { margin: 1rem 0; } figure img { max-width: 100%; border: 1px solid #d0d7de; border-radius: 6px; }
+  figcaption { color: #656d76; font-size: .85rem; }
+  footer { margin-top: 2rem; color: #656d76; font-size: .85rem; }
+`;
+
+// One page with its styles inline and nothing loaded from elsewhere, so it opens offline
+const toHtmlReport = (facts: ExportFacts): string => {
+  const { report, patch, video, images, logs, triage, history } = facts;
+  const edits = report.edits.map(edit => {
+    const { lines, explanation } = describeEdit(edit);
+    return `<li><code>${escapeHtml(edit.file_to_edit)}</code>${lines ? ` ${lines}` : ''}${explanation ? ` — ${escapeHtml(explanation)}` : ''}</li>`;
+  });
+  if (report.regression_test) {
+    edits.push(`<li><code>${escapeHtml(report.regression_test.file_path)}</code> — ${escapeHtml(report.regression_test.framework)} regression test</li>`);
+  }
+  const diff = patch
+    ? `<pre>${patch.trimEnd().split('\n').map(line => `<span class="${diffLineClass(line)}">${escapeHtml(line) || ' '}</span>`).join('')}</pre>`
+    : '<p>The fix changes no lines.</p>';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(report.bug_summary)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(report.bug_summary)}</h1>
+<table>${triage.map(([label, value]) => `<tr><th>${label}</th><td>${escapeHtml(value)}</td></tr>`).join('')}</table>
+<h2>What's wrong</h2>
+<p>${escapeHtml(report.explanation)}</p>
+${report.evidence?.length ? `<h2>Evidence</h2>
+<ul>${report.evidence.map(item => `<li><strong>${formatDuration(item.start_seconds)}–${formatDuration(item.end_seconds)}</strong> ${escapeHtml(item.description)}</li>`).join('')}</ul>` : ''}
+<h2>Recording</h2>
+<p>${escapeHtml(video ?? 'No recording was submitted.')}</p>
+${images.length ? `<h2>Screenshots</h2>
+${images.map(toFigure).join('\n')}` : ''}
+${logs.length ? `<h2>Logs</h2>
+<ul>${logs.map(line => `<li>${escapeHtml(line)}</li>`).join('')}</ul>` : ''}
+<h2>Proposed fix</h2>
+<ul>${edits.join('')}</ul>
+${diff}
+<h2>Refinement history</h2>
+<ol>${history.map(item => `<li><strong>${escapeHtml(item.speaker)}:</strong> ${escapeHtml(item.text)}</li>`).join('')}</ol>
+<footer>Exported from VibeFix on ${new Date().toISOString()}.</footer>
+</body>
+</html>
+`;
+};
+
+/**
+ * Writes a session out as a GitHub issue body (Markdown), a Jira create-issue payload or
+ * a standalone HTML report, each with the summary, triage, explanation, patch, recording
+ * and refinement history of the chosen revision.
+ */
+export const exportSession = (session: Session, format: ExportFormat, { revision, jiraProjectKey }: ExportOptions = {}): ExportDocument => {
+  const facts = collectFacts(session, revision);
+  const title = facts.report.bug_summary;
+  const name = `vibefix-${slugify(title)}`;
+  switch (format) {
+    case 'github':
+      return { format, title, content: toGitHubIssue(facts), filename: `${name}.md`, mimeType: 'text/markdown' };
+    case 'jira':
+      return { format, title, content: toJiraPayload(facts, jiraProjectKey), filename: `${name}.jira.json`, mimeType: 'application/json' };
+    case 'html':
+      return { format, title, content: toHtmlReport(facts), filename: `${name}.html`, mimeType: 'text/html' };
+  }
+};
+
+// What a downloaded file holds: the Markdown gets the issue title as its heading
+export const exportFileContent = ({ format, title, content }: ExportDocument): string =>
+  format === 'github' ? `# ${title}\n\n${content}` : content;
+
+/**
+ * Sends an export to the VibeFix server, which creates the GitHub issue or Jira ticket, or
+ * posts the HTML report, at the endpoint it is configured with. That can be a local mock.
+ */
+export const sendExport = async (request: ExportRequest, endpoint = '/api/export'): Promise<ExportResult> => {
+  const response = await fetchWithAccessToken(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(payload.error || `The VibeFix server returned ${response.status}.`);
+  return payload as ExportResult;
+};
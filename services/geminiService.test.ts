@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { analyzeBug } from './geminiService';
+import { registerProvider } from './providers';
+import { buildMockReport, createMockProvider } from './providers/mock';
+import { GenerateRequest } from './providers/types';
+import { ResponseValidationError } from './errors';
+
+const codeContext = [{ path: 'src/a.css', content: '.a { color: white; }\n.b { color: blue; }\n' }];
+
+// The mock provider without its streaming delay, answering with `respond`
+const useMock = (respond: (request: GenerateRequest) => unknown = buildMockReport) => {
+  const requests: GenerateRequest[] = [];
+  registerProvider('mock', createMockProvider(request => {
+    requests.push(request);
+    const answer = respond(request);
+    return typeof answer === 'string' ? answer : JSON.stringify(answer);
+  }, { chunkDelayMs: 0 }));
+  return requests;
+};
+
+const lastTurnText = (request: GenerateRequest) =>
+  request.turns[request.turns.length - 1].parts.map(part => (part.kind === 'text' ? part.text : '')).join('');
+
+describe('analyzeBug with the mock provider', () => {
+  afterEach(() => {
+    registerProvider('mock', null);
+  });
+
+  it('returns a verified report for the submitted code', async () => {
+    useMock();
+    const partials: unknown[] = [];
+    const report = await analyzeBug(null, codeContext, [], 'mock', { onPartial: partial => partials.push(partial) });
+    expect(report.bug_summary).toBe('Mock analysis of src/a.css');
+    expect(report.edits[0]).toMatchObject({ file_to_edit: 'src/a.css', line_range: { start_line: 2, end_line: 2 } });
+    expect(report.verification?.status).toBe('passed');
+    expect(partials.length).toBeGreaterThan(1);
+  });
+
+  it('asks again when the answer is cut off in the middle of a code_patch', async () => {
+    const complete = JSON.stringify({
+      bug_summary: 'White on white',
+      user_sentiment: 'Frustrated',
+      explanation: 'The text has the background colour.',
+      edits: [{ file_to_edit: 'src/a.css', explanation: 'Darken it', code_patch: '.a { color: black; }\n.b { color: blue; }\n' }],
+    });
+    const requests = useMock(() => (requests.length === 1 ? complete.slice(0, complete.indexOf('.b { co') + 7) : complete));
+
+    const report = await analyzeBug(null, codeContext, [], 'mock', { maxRepairRounds: 0 });
+    expect(requests).toHaveLength(2);
+    expect(lastTurnText(requests[1])).toMatch(/cut off/);
+    expect(report.edits[0].code_patch).toBe('.a { color: black; }\n.b { color: blue; }\n');
+  });
+
+  it('fails instead of using an answer that stays cut off', async () => {
+    useMock(() => '{"bug_summary": "x", "explanation": "y", "edits": [{"file_to_edit": "src/a.css", "code_patch": ".a {');
+    await expect(analyzeBug(null, codeContext, [], 'mock', { maxRepairRounds: 0 })).rejects.toBeInstanceOf(ResponseValidationError);
+  });
+
+  it('sends logs as their own section', async () => {
+    const requests = useMock();
+    const logs = [{ kind: 'console' as const, id: 'log-1', name: 'console.txt', text: 'Uncaught TypeError', frames: [] }];
+    const report = await analyzeBug(null, codeContext, [], 'mock', { logs, maxRepairRounds: 0 });
+    const context = requests[0].context.map(part => (part.kind === 'text' ? part.text : '')).join('\n');
+    expect(context).toContain('=== Evidence 1 of 1: console output (console.txt) ===\nUncaught TypeError');
+    expect(report.explanation).toContain('1 log(s)');
+  });
+});
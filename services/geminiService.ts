@@ -1,31 +1,115 @@
-import { GoogleGenAI, Type, Schema, Part } from "@google/genai";
-import { BugReport, ChatEntry } from "../types";
-
-// Helper to convert File to Base64
-const fileToGenerativePart = async (file: File): Promise<Part> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const result = reader.result as string;
-      
-      if (!result) {
-        reject(new Error("Failed to read file"));
-        return;
-      }
+import { Type, Schema } from "@google/genai";
+import { BugReport, CachedContext, ChatEntry, FixStrategy, ImageEvidence, LogEvidence, SourceFile, TestFramework, UploadedMedia, UsageRecord, VerificationResult, VideoEvidence } from "../types";
+import { editsWithTest, findSourceFile, resolveSourcePath } from "../utils/sourceFiles";
+import { getProvider, GenerateRequest, GenerateResult, LLMProvider, PromptPart, PromptTurn } from "./providers";
+import { getFallbackChain, getModelOption, getRetryPolicy, RetryPolicy } from "./models";
+import { parsePartialJson } from "../utils/partialJson";
+import { changedLineRange } from "../utils/diff";
+import { blobToBase64 } from "../utils/media";
+import { formatLogSections } from "../utils/logs";
+import { isAbortError, sleep } from "../utils/async";
+import { formatIssues, verifyEdits } from "./verification";
+import { parseBugReport } from "./reportValidation";
+import { estimateCost, estimateTokens } from "./tokenBudget";
+import { AnalysisError, classifyError, InvalidInputError, ResponseValidationError } from "./errors";
 
-      // Ensure we get just the base64 part
-      const base64String = result.includes(',') ? result.split(',')[1] : result;
-      
-      resolve({
-        inlineData: {
-          data: base64String,
-          mimeType: file.type || 'video/mp4',
-        },
-      });
-    };
-    reader.onerror = (error) => reject(new Error("File reading failed: " + error));
-    reader.readAsDataURL(file);
-  });
+export interface AnalyzeOptions {
+  // Called with the report as far as it has streamed in so far
+  onPartial?: (partial: Partial<BugReport>) => void;
+  // Progress messages for slow steps such as uploading a large video; null clears the last one
+  onStatus?: (message: string | null) => void;
+  signal?: AbortSignal;
+  // A video uploaded by an earlier call; reused instead of sending the recording again
+  uploadedVideo?: UploadedMedia | null;
+  onVideoUploaded?: (media: UploadedMedia) => void;
+  // A context cached by an earlier call of the session; reused instead of sending the code and video again
+  contextCache?: CachedContext | null;
+  onContextCached?: (cache: CachedContext) => void;
+  // How often a patch that fails verification is sent back to the model to be repaired
+  maxRepairRounds?: number;
+  // Steers the fix towards one approach, for generating alternatives
+  strategy?: FixStrategy;
+  // Screenshots sent alongside or instead of the recording, in the order they were added
+  images?: ImageEvidence[];
+  // Console output, stack traces and failed network requests, sent as their own sections
+  logs?: LogEvidence[];
+}
+
+const DEFAULT_REPAIR_ROUNDS = 2;
+
+// Appended to the task so alternative fixes differ in approach, not only in wording
+const STRATEGY_INSTRUCTIONS: Record<FixStrategy, string | null> = {
+  direct: null,
+  minimal: "Make the smallest change that fixes the bug: touch as few lines and files as possible, and leave refactoring alone.",
+  'root-cause': "Fix the underlying cause, even if that takes a larger change than patching the symptom where it shows.",
+  defensive: "Fix the bug and harden the code around it against the same failure: missing or empty values, other viewports, repeated events.",
+};
+// How often an answer that isn't a valid BugReport is asked for again
+const MAX_FORMAT_RETRIES = 1;
+
+// Larger recordings go through the provider's file store; inline requests are capped
+// at 20MB and base64 adds a third on top of the file size
+const INLINE_VIDEO_LIMIT_BYTES = 14 * 1024 * 1024;
+
+// Explicit caches have a minimum size (4,096 tokens for Gemini's Pro models); smaller contexts are just sent
+const MIN_CACHED_CONTEXT_TOKENS = 4096;
+
+// Inline encodings are kept per recording so refinements don't re-encode it
+const inlinePartCache = new WeakMap<Blob, Promise<PromptPart>>();
+
+const blobToPromptPart = async (blob: Blob): Promise<PromptPart> =>
+  ({ kind: 'media', data: await blobToBase64(blob), mimeType: blob.type || 'video/mp4' });
+
+// Uploads can only be reused until the provider deletes them
+const isUploadUsable = (media: UploadedMedia | null | undefined): media is UploadedMedia =>
+  !!media && (media.expiresAt === null || media.expiresAt > Date.now() + 60_000);
+
+const videoToPromptPart = async (
+  video: Blob | null,
+  provider: LLMProvider,
+  { uploadedVideo, onVideoUploaded, onStatus, signal }: AnalyzeOptions
+): Promise<PromptPart | null> => {
+  if (provider.uploadMedia) {
+    if (isUploadUsable(uploadedVideo)) {
+      return { kind: 'file', uri: uploadedVideo.uri, mimeType: uploadedVideo.mimeType };
+    }
+    if (video && video.size > INLINE_VIDEO_LIMIT_BYTES) {
+      onStatus?.("Uploading the recording to the Files API...");
+      const media = await provider.uploadMedia(video, video.type || 'video/mp4', signal);
+      onVideoUploaded?.(media);
+      onStatus?.(null);
+      return { kind: 'file', uri: media.uri, mimeType: media.mimeType };
+    }
+  }
+
+  if (!video) return null;
+  let part = inlinePartCache.get(video);
+  if (!part) {
+    part = blobToPromptPart(video);
+    inlinePartCache.set(video, part);
+    part.catch(() => inlinePartCache.delete(video));
+  }
+  return part;
+};
+
+// Each image follows a line that names it, so the prompt and the answer can refer to it
+const imagesToPromptParts = (images: ImageEvidence[]): PromptPart[] =>
+  images.flatMap((image, i) => [
+    {
+      kind: 'text' as const,
+      text: `Image ${i + 1} of ${images.length}: ${image.label ? `"${image.label}" (${image.name})` : image.name}${image.annotated ? '. The red boxes and arrows were drawn by the reporter to point at the problem.' : ''}`,
+    },
+    { kind: 'media' as const, mimeType: image.mimeType, data: image.data },
+  ]);
+
+const describeInputs = (hasVideo: boolean, images: ImageEvidence[], logs: LogEvidence[]): string => {
+  const inputs = [
+    hasVideo && 'the attached video',
+    images.length === 1 && `the attached image ("${images[0].label || images[0].name}")`,
+    images.length > 1 && `the ${images.length} attached images (${images.map((image, i) => `${i + 1}: "${image.label || image.name}"`).join(', ')})`,
+    logs.length > 0 && `the ${logs.length === 1 ? 'attached log' : `${logs.length} attached logs`}`,
+  ].filter(Boolean);
+  return inputs.join(', ');
 };
 
 const RESPONSE_SCHEMA: Schema = {
@@ -39,20 +123,103 @@ const RESPONSE_SCHEMA: Schema = {
       type: Type.STRING,
       description: "Frustrated/Confused/Helpful",
     },
-    file_to_edit: {
-      type: Type.STRING,
-      description: "The path of the file that needs editing.",
-    },
     explanation: {
       type: Type.STRING,
       description: "Conversational explanation of the fix. If this is a refinement, respond directly to the user's feedback.",
     },
-    code_patch: {
+    edits: {
+      type: Type.ARRAY,
+      description: "One entry per file that needs changing. A fix touching a component and its stylesheet has two entries.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          file_to_edit: {
+            type: Type.STRING,
+            description: "The path of the file that needs editing, exactly as labelled in the submitted sources.",
+          },
+          explanation: {
+            type: Type.STRING,
+            description: "What changes in this file and why.",
+          },
+          code_patch: {
+            type: Type.STRING,
+            description: "The complete corrected contents of this file, not just the changed lines. VibeFix diffs it against the submitted code.",
+          },
+          line_range: {
+            type: Type.OBJECT,
+            description: "The lines of the submitted file that this edit changes, 1-based and inclusive.",
+            properties: {
+              start_line: { type: Type.INTEGER },
+              end_line: { type: Type.INTEGER },
+            },
+            required: ["start_line", "end_line"],
+          },
+        },
+        required: ["file_to_edit", "explanation", "code_patch"],
+      },
+    },
+    evidence: {
+      type: Type.ARRAY,
+      description: "The moments in the video where the bug is visible. Empty when no video was provided.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start_seconds: {
+            type: Type.NUMBER,
+            description: "Where the moment starts, in seconds from the beginning of the video.",
+          },
+          end_seconds: {
+            type: Type.NUMBER,
+            description: "Where it ends, in seconds. Equal to start_seconds for a single instant.",
+          },
+          description: {
+            type: Type.STRING,
+            description: "What can be seen or heard at this moment, e.g. 'Checkout button overlaps the footer'.",
+          },
+        },
+        required: ["start_seconds", "end_seconds", "description"],
+      },
+    },
+    root_cause: {
+      type: Type.STRING,
+      enum: ["layout", "styling", "state", "async", "logic", "data", "accessibility", "performance", "other"],
+      description: "The kind of defect: layout (positioning, overflow, responsive breakpoints), styling (colours, fonts, visibility), state (stale or shared UI state), async (races, missing awaits, timing), logic, data (wrong or missing data from an API or store), accessibility, performance, or other.",
+    },
+    severity: {
       type: Type.STRING,
-      description: "The corrected code snippet.",
+      enum: ["critical", "high", "medium", "low"],
+      description: "critical: data loss, a crash or a blocked core flow; high: a main feature broken with no workaround; medium: broken with a workaround, or a visible glitch in a main flow; low: cosmetic.",
+    },
+    confidence: {
+      type: Type.NUMBER,
+      description: "How sure you are that the edits fix the bug the user reported, from 0 (a guess) to 1 (certain).",
+    },
+    regression_test: {
+      type: Type.OBJECT,
+      description: "A test that reproduces the bug: it fails on the submitted code and passes once the edits are applied.",
+      properties: {
+        framework: {
+          type: Type.STRING,
+          enum: ["vitest", "jest", "playwright"],
+          description: "playwright for layout, styling or other behaviour only visible in a browser; vitest or jest for logic.",
+        },
+        file_path: {
+          type: Type.STRING,
+          description: "Where the new test file goes, following the project's layout, e.g. 'src/cart.test.ts' or 'tests/checkout.spec.ts'.",
+        },
+        explanation: {
+          type: Type.STRING,
+          description: "What the test checks and why it failed before the fix.",
+        },
+        code: {
+          type: Type.STRING,
+          description: "The complete test file.",
+        },
+      },
+      required: ["framework", "file_path", "explanation", "code"],
     },
   },
-  required: ["bug_summary", "user_sentiment", "file_to_edit", "explanation", "code_patch"],
+  required: ["bug_summary", "user_sentiment", "explanation", "edits"],
 };
 
 const SYSTEM_INSTRUCTION = `
@@ -61,179 +228,405 @@ You are VibeFix, a Senior Full-Stack Engineer and UI/UX Specialist. You possess
 
 # Task
 Your goal is to analyze a software bug. You may receive a screen recording, source code, or both.
-1. If a video is provided: Analyze the visual glitch or functional error and cross-reference it with the code.
+1. If a video or screenshots are provided: Analyze the visual glitch or functional error and cross-reference it with the code.
 2. If only code is provided: Analyze the code for logic errors, styling mistakes, or common pitfalls.
 
 You must also engage in a refinement loop if the user provides feedback.
 
 # Inputs Provided
 1. **Video:** (Optional) A screen recording showing the visual glitch.
-2. **Codebase:** A subset of the project's source code.
-3. **Chat History:** Previous context of the fix and user feedback.
+2. **Images:** (Optional) Screenshots, each introduced by a line with its number and label (e.g. "Expected" and "Actual"). Red boxes and arrows on them were drawn by the reporter to mark the problem.
+3. **Logs:** (Optional) Console output, stack traces and the failed requests of a network log, one "=== Evidence ===" section each. Stack frames are matched to the submitted files where possible.
+4. **Codebase:** A subset of the project's source code, one labelled block per file with its real relative path.
+5. **Conversation:** Your earlier answers as previous turns, each followed by the user's feedback on it.
 
 # Reasoning Steps (Internal Monologue)
-1. **Analysis:** Identify the issue. If video exists, use it to pinpoint the UI element. If not, scan code for obvious defects.
+1. **Analysis:** Identify the issue. If video exists, use it to pinpoint the UI element. If logs exist, start from the real errors: the frames in submitted files point at the failing lines, and failed requests show what the server answered. If neither, scan code for obvious defects.
 2. **Audio/Intent Correlation:** (If video exists) Understand what the user wants.
-3. **Code Triangulation:** Locate the file and line number.
-4. **Refinement:** If the user gives feedback, adjust the code patch accordingly.
+3. **Code Triangulation:** Locate every file and line number involved. Only use paths from the submitted file labels, unless the fix genuinely requires creating a new file. If the fix spans several files (e.g. a component and its stylesheet), return one edit per file instead of merging them.
+4. **Refinement:** If the user gives feedback, adjust the code patches of the answer just before it. Each answer must still contain every edit, not only the changed ones.
+5. **Patch Format:** Each \`code_patch\` must contain the entire corrected file, keeping every unchanged line exactly as submitted so the changes can be diffed.
+6. **Evidence:** (If video exists) List every moment where the glitch is visible or the user describes it, with timestamps in seconds, so a reviewer can jump there and confirm the diagnosis.
+7. **Regression Test:** Write one test that reproduces the bug. Choose the framework by the file type of \`file_to_edit\`: Playwright for HTML/CSS and anything judged by how the page looks (set the viewport seen in the video), Vitest for JavaScript/TypeScript logic, or Jest instead if the project already uses it. Only import paths that exist in the submitted sources.
 
 # Output Format
 Return ONLY a JSON object matching the schema provided.
 `;
 
-// Retry helper with exponential backoff
+// Label each submitted file so the model can cite its exact path
+const formatSources = (files: SourceFile[]): string =>
+  files.map(file => `--- File: ${file.path} ---
+\`\`\`
+${file.content}
+\`\`\``).join('\n\n');
+
+// The line range comes from the diff against the submitted file, whatever the model claimed
+const withLineRanges = (report: BugReport, files: SourceFile[]): BugReport => ({
+  ...report,
+  edits: report.edits.map(edit => {
+    const range = changedLineRange(findSourceFile(edit.file_to_edit, files)?.content ?? '', edit.code_patch);
+    return range ? { ...edit, line_range: range } : edit;
+  }),
+});
+
+// Map each edit onto the path we actually submitted. Edits for unknown paths are kept
+// (the fix may need a new file) but are reported so the UI can flag them.
+const resolveEditPaths = (report: BugReport, files: SourceFile[]): BugReport => {
+  const edits = (report.edits || []).map(edit => {
+    const resolved = resolveSourcePath(edit.file_to_edit, files);
+    if (resolved === null) {
+      console.warn(`Model proposed an edit to '${edit.file_to_edit}', which was not among the submitted files.`);
+      return edit;
+    }
+    return { ...edit, file_to_edit: resolved };
+  });
+  return { ...report, edits };
+};
+
+// The packages that give away which test runner a project uses
+const TEST_PACKAGES: Record<TestFramework, string[]> = {
+  vitest: ['vitest'],
+  jest: ['jest'],
+  playwright: ['@playwright/test', 'playwright'],
+};
+
+// Tells the model which test runners the submitted package.json already depends on
+const detectTestFrameworks = (files: SourceFile[]): TestFramework[] => {
+  const manifest = findSourceFile('package.json', files);
+  if (!manifest) return [];
+  try {
+    const pkg = JSON.parse(manifest.content);
+    const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+    return (Object.keys(TEST_PACKAGES) as TestFramework[]).filter(framework => TEST_PACKAGES[framework].some(name => name in deps));
+  } catch {
+    return [];
+  }
+};
+
+// Drop timestamps that can't be shown on a timeline; without a video there is nothing to point at
+const normalizeEvidence = (evidence: VideoEvidence[] | undefined, hasVideo: boolean): VideoEvidence[] => {
+  if (!hasVideo || !Array.isArray(evidence)) return [];
+  return evidence
+    .filter(item => Number.isFinite(item.start_seconds) && item.start_seconds >= 0)
+    .map(item => ({
+      ...item,
+      end_seconds: Number.isFinite(item.end_seconds) ? Math.max(item.start_seconds, item.end_seconds) : item.start_seconds,
+    }))
+    .sort((a, b) => a.start_seconds - b.start_seconds);
+};
+
+const emptyUsage = (model: string): UsageRecord =>
+  ({ inputTokens: 0, outputTokens: 0, requests: 0, model, costUsd: 0, estimated: false });
+
+const textOf = (parts: PromptPart[]) => parts.map(part => (part.kind === 'text' ? part.text : '')).join('');
+
+// Adds a request to the running total; when the provider doesn't report usage, it is estimated from the text
+const addUsage = (total: UsageRecord, model: string, request: GenerateRequest, result: GenerateResult) => {
+  const sent = request.cache ? '' : request.systemInstruction + textOf(request.context);
+  const usage = result.usage ?? {
+    inputTokens: estimateTokens(sent + request.turns.map(turn => textOf(turn.parts)).join('')),
+    outputTokens: estimateTokens(result.text),
+  };
+  const cost = estimateCost(model, usage);
+  total.inputTokens += usage.inputTokens;
+  total.outputTokens += usage.outputTokens;
+  total.requests++;
+  total.model = model;
+  total.costUsd = total.costUsd === null || cost === null ? null : total.costUsd + cost;
+  total.estimated ||= !result.usage;
+};
+
+/**
+ * Runs one request, retrying failures the policy allows with exponential backoff.
+ * A retry-after hint from the provider is honoured when it is longer than the backoff.
+ */
 async function generateWithRetry(
-  ai: GoogleGenAI, 
-  model: string, 
-  contents: any, 
-  config: any, 
-  retries = 3
-): Promise<any> {
-  let lastError;
-  for (let i = 0; i < retries; i++) {
+  provider: LLMProvider,
+  request: GenerateRequest,
+  policy: RetryPolicy,
+  onText?: (textSoFar: string) => void
+): Promise<GenerateResult> {
+  for (let attempt = 1; ; attempt++) {
     try {
-      return await ai.models.generateContent({
-        model,
-        contents,
-        config
-      });
-    } catch (error: any) {
-      lastError = error;
-      const msg = error.message || '';
-      // Check for quota (429) or server errors (5xx)
-      // We also check for the specific quota string to be safe
-      const isQuota = msg.includes('429') || msg.toLowerCase().includes('quota');
-      const isServer = msg.includes('503') || msg.includes('500');
-
-      if ((isQuota || isServer) && i < retries - 1) {
-        // Exponential backoff: 1s, 2s, 4s... + jitter
-        const delay = Math.pow(2, i) * 1000 + Math.random() * 500;
-        console.warn(`Attempt ${i + 1} for ${model} failed with ${isQuota ? 'Quota' : 'Server'} error. Retrying in ${Math.round(delay)}ms...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        continue;
+      return await provider.generate(request, onText);
+    } catch (raw) {
+      // A cancelled request must not be retried
+      if (request.signal?.aborted || isAbortError(raw)) throw raw;
+      const error = classifyError(raw);
+
+      const backoff = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs) + Math.random() * 500;
+      const delay = Math.max(backoff, error.retryAfterMs ?? 0);
+      if (attempt >= policy.maxAttempts || !policy.retryOn.includes(error.category) || delay > policy.maxDelayMs + 500) {
+        throw error;
       }
-      // If it's not a retryable error or last attempt, throw
-      throw error;
+      console.warn(`Attempt ${attempt} for ${request.model} failed (${error.category}). Retrying in ${Math.round(delay)}ms...`);
+      await sleep(delay, request.signal);
     }
   }
-  throw lastError;
 }
 
-export const analyzeBug = async (
-  videoFile: File | null, 
-  codeContext: string, 
-  history: ChatEntry[],
-  modelName: string
-): Promise<BugReport> => {
-  // Exclusively use process.env.API_KEY as per guidelines
-  const apiKey = process.env.API_KEY;
-  
-  if (!apiKey) {
-    throw new Error("API Key is missing. Please ensure process.env.API_KEY is correctly configured.");
+// Providers expect the two sides to take turns, so consecutive messages from one side are merged
+const appendTurn = (turns: PromptTurn[], role: PromptTurn['role'], text: string): PromptTurn[] => {
+  const last = turns[turns.length - 1];
+  if (last?.role === role) {
+    return [...turns.slice(0, -1), { role, parts: [...last.parts, { kind: 'text', text }] }];
   }
+  return [...turns, { role, parts: [{ kind: 'text', text }] }];
+};
+
+// The model sees its earlier reports as it wrote them; verification results and usage are ours
+const answerText = (content: string | BugReport) =>
+  typeof content === 'string' ? content : JSON.stringify({ ...content, verification: undefined, usage: undefined });
+
+// FNV-1a, enough to tell whether a cache holds the same context
+const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+const contextKey = (systemInstruction: string, context: PromptPart[]) =>
+  hashText(systemInstruction + context.map(part => {
+    if (part.kind === 'text') return part.text;
+    return part.kind === 'file' ? part.uri : `${part.mimeType}:${part.data.length}:${part.data.slice(0, 1024)}`;
+  }).join('\n'));
+
+const isCacheUsable = (cache: CachedContext | null | undefined, model: string, key: string): cache is CachedContext =>
+  !!cache && cache.model === model && cache.key === key && (cache.expiresAt === null || cache.expiresAt > Date.now() + 60_000);
 
-  const ai = new GoogleGenAI({ apiKey });
+/**
+ * Finds or creates the provider-side cache of the system instruction and context. Only
+ * follow-ups (refinements and repairs) create one, since a single request gains nothing
+ * from it; a provider that can't cache this model or context gets everything sent instead.
+ */
+const prepareContextCache = async (
+  provider: LLMProvider,
+  request: GenerateRequest,
+  { contextCache, onContextCached, onStatus, signal }: AnalyzeOptions
+): Promise<CachedContext | undefined> => {
+  const key = contextKey(request.systemInstruction, request.context);
+  if (isCacheUsable(contextCache, request.model, key)) return contextCache;
+
+  const isLarge = request.context.some(part => part.kind !== 'text')
+    || estimateTokens(request.systemInstruction + textOf(request.context)) >= MIN_CACHED_CONTEXT_TOKENS;
+  if (!provider.cacheContext || request.turns.length < 2 || !isLarge) return undefined;
+
+  try {
+    onStatus?.("Caching the recording and code for this session...");
+    const cache = await provider.cacheContext({ ...request, key });
+    onContextCached?.(cache);
+    return cache;
+  } catch (e) {
+    if (signal?.aborted || isAbortError(e)) throw e;
+    console.warn("Could not cache the context; sending it with every request instead:", e);
+    return undefined;
+  } finally {
+    onStatus?.(null);
+  }
+};
+
+const requestReport = async (
+  video: Blob | null,
+  codeContext: SourceFile[],
+  history: ChatEntry[],
+  modelName: string,
+  options: AnalyzeOptions,
+  usage: UsageRecord
+): Promise<BugReport> => {
+  const { onPartial, signal } = options;
+  const modelOption = getModelOption(modelName);
+  const provider = getProvider(modelOption.provider);
   
-  const parts: (Part | { text: string })[] = [];
+  // The recording and code open the conversation; the task and the feedback follow as turns
+  const context: PromptPart[] = [];
 
-  if (videoFile) {
-    try {
-      const videoPart = await fileToGenerativePart(videoFile);
-      parts.push(videoPart);
-    } catch (e: any) {
-      throw new Error(`Failed to process video file: ${e.message}`);
+  let hasVideo = false;
+  try {
+    const videoPart = await videoToPromptPart(video, provider, options);
+    if (videoPart) {
+      context.push(videoPart);
+      hasVideo = true;
     }
+  } catch (e: any) {
+    if (signal?.aborted || isAbortError(e)) throw e;
+    const error = classifyError(e);
+    throw error.category === 'unknown' ? new InvalidInputError(`Failed to process video file: ${e.message}`) : error;
   }
+  const images = options.images ?? [];
+  context.push(...imagesToPromptParts(images));
+  const logs = options.logs ?? [];
+  if (logs.length > 0) {
+    context.push({ kind: 'text', text: `The reporter attached these logs:\n\n${formatLogSections(logs, codeContext)}` });
+  }
+
+  let sourcesText = `
+  Here is the relevant source code, one block per file:
 
-  let promptText = `
-  Here is the relevant source code:
-  \`\`\`
-  ${codeContext}
-  \`\`\`
+${formatSources(codeContext)}
   `;
 
-  if (!videoFile) {
-    promptText += "\nNo video was provided. Please analyze this code for bugs, logic errors, or styling issues.";
-  } else {
-    promptText += "\nPlease analyze the attached video and this code to find the bug and provide a fix.";
+  const frameworks = detectTestFrameworks(codeContext);
+  if (frameworks.length > 0) {
+    sourcesText += `\nThe project's package.json already uses: ${frameworks.join(', ')}. Prefer these for the regression test.`;
   }
+  context.push({ kind: 'text', text: sourcesText });
 
-  // Incorporate history for refinement context
-  if (history.length > 0) {
-    promptText += "\n\n--- Conversation History ---\n";
-    history.forEach(entry => {
-      // Avoid sending the base64 video again in text history, just the text content
-      if (entry.role === 'user' && typeof entry.content === 'string') {
-        promptText += `User: ${entry.content}\n`;
-      } else if (entry.role === 'model') {
-        const contentStr = typeof entry.content === 'string' ? entry.content : JSON.stringify(entry.content);
-        promptText += `VibeFix: ${contentStr}\n`;
-      }
-    });
-    promptText += "\n\nUser's Latest Feedback: Please refine the fix based on the above history.";
-  }
+  const strategy = STRATEGY_INSTRUCTIONS[options.strategy ?? 'direct'];
+  const task = (hasVideo || images.length > 0 || logs.length > 0
+    ? `Please analyze ${describeInputs(hasVideo, images, logs)} and this code to find the bug and provide a fix.`
+    : "No video was provided. Please analyze this code for bugs, logic errors, or styling issues.")
+    + (strategy ? `\n${strategy}` : '');
+  // Earlier answers go back as the model's own turns, each followed by the feedback on it
+  const turns = history.reduce<PromptTurn[]>(
+    (all, entry) => appendTurn(all, entry.role, entry.role === 'model' ? answerText(entry.content) : String(entry.content)),
+    [{ role: 'user', parts: [{ kind: 'text', text: task }] }]
+  );
 
-  parts.push({ text: promptText });
-  
-  const contents = { parts };
-  const config = {
+  const request: GenerateRequest = {
+    model: modelName,
     systemInstruction: SYSTEM_INSTRUCTION,
-    responseMimeType: 'application/json',
-    responseSchema: RESPONSE_SCHEMA
+    context,
+    turns,
+    responseSchema: RESPONSE_SCHEMA,
+    signal
+  };
+  request.cache = await prepareContextCache(provider, request, options);
+
+  const onText = onPartial
+    ? (textSoFar: string) => {
+        const partial = parsePartialJson(textSoFar);
+        if (partial && typeof partial === 'object') onPartial(partial);
+      }
+    : undefined;
+
+  // The selected model first, then each fallback while the failure is one its policy falls back on
+  const chain = getFallbackChain(modelName);
+  const generate = async (request: GenerateRequest): Promise<string> => {
+    let primaryError: AnalysisError | null = null;
+    for (const [index, model] of chain.entries()) {
+      const policy = getRetryPolicy(model);
+      try {
+        const modelProvider = index === 0 ? provider : getProvider(model.provider);
+        // Caches belong to the model they were created for
+        const modelRequest = { ...request, model: model.id, cache: request.cache?.model === model.id ? request.cache : undefined };
+        const result = await generateWithRetry(modelProvider, modelRequest, policy, onText);
+        addUsage(usage, model.id, modelRequest, result);
+        return result.text;
+      } catch (raw) {
+        if (signal?.aborted || isAbortError(raw)) throw raw;
+        const error = classifyError(raw);
+        // The error of the model the user picked is the one worth showing
+        primaryError ??= error;
+        const next = chain[index + 1];
+        if (!next || !policy.fallbackOn.includes(error.category)) throw primaryError;
+        console.warn(`${model.label} failed (${error.category}). Falling back to ${next.label}.`);
+        options.onStatus?.(`${model.label} is unavailable (${error.category}), trying ${next.label}...`);
+      }
+    }
+    throw primaryError;
   };
 
   try {
-    let response;
-    
-    try {
-      // Primary attempt with selected model
-      response = await generateWithRetry(ai, modelName, contents, config);
-    } catch (primaryError: any) {
-      const msg = primaryError.message || '';
-      // Fallback Logic: If Gemini 3 Pro fails with Quota Exceeded (429), try Gemini 2.5 Flash
-      // Note: 2.5 Flash often has a separate or higher quota limit.
-      if (modelName === 'gemini-3-pro-preview' && (msg.includes('429') || msg.toLowerCase().includes('quota'))) {
-         console.warn("Gemini 3 Pro quota exceeded. Automatically falling back to Gemini 2.5 Flash.");
-         try {
-           response = await generateWithRetry(ai, 'gemini-2.5-flash', contents, config);
-         } catch (fallbackError) {
-           // If fallback also fails, throw the original error to avoid confusion, 
-           // or throw fallback error. Usually original error is more relevant to user's choice.
-           throw primaryError;
-         }
-      } else {
-        throw primaryError;
+    let attemptRequest = request;
+    for (let attempt = 0; ; attempt++) {
+      const parsed = parseBugReport(await generate(attemptRequest));
+
+      if (parsed.report) {
+        const report = withLineRanges(resolveEditPaths(parsed.report, codeContext), codeContext);
+        return { ...report, evidence: normalizeEvidence(report.evidence, hasVideo) };
       }
+
+      if (attempt >= MAX_FORMAT_RETRIES) {
+        throw new ResponseValidationError(
+          `${modelOption.label} did not return a usable report: ${parsed.errors.join(' ')}`,
+          parsed.errors,
+          parsed.category ?? 'invalid-response'
+        );
+      }
+
+      // Ask again with the same prompt, telling the model what was wrong with its answer
+      console.warn(`${modelOption.label} returned an invalid report, asking again:`, parsed.errors);
+      attemptRequest = {
+        ...request,
+        turns: appendTurn(
+          request.turns,
+          'user',
+          `Your previous answer could not be used:\n${parsed.errors.map(e => `- ${e}`).join('\n')}\nAnswer again with one complete JSON object that matches the schema.`
+        ),
+      };
     }
+  } catch (error: any) {
+    // Cancellation is not a failure; let the caller recognise it untouched
+    if (signal?.aborted || isAbortError(error)) throw error;
+
+    console.error(`${modelOption.label} API Error Details:`, error);
+    // Typed, so the UI can say what to do about it
+    throw classifyError(error);
+  }
+};
 
-    let resultText = response.text;
-    if (!resultText) throw new Error("Received empty response from Gemini.");
+const skippedVerification = (): VerificationResult => ({ status: 'skipped', checkedFiles: [], issues: [], repairRounds: 0 });
 
-    // Clean up potential Markdown code block wrappers which can cause JSON.parse to fail
-    if (resultText.trim().startsWith('```')) {
-      resultText = resultText.replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+/**
+ * Asks the model for a fix, then checks that the patched files still parse. A patch
+ * that doesn't is sent back with the errors, up to `maxRepairRounds` times; the report
+ * that comes back carries the result of the last check.
+ */
+export const analyzeBug = async (
+  video: Blob | null,
+  codeContext: SourceFile[],
+  history: ChatEntry[],
+  modelName: string,
+  options: AnalyzeOptions = {}
+): Promise<BugReport> => {
+  const { onStatus, maxRepairRounds = DEFAULT_REPAIR_ROUNDS } = options;
+  const { label } = getModelOption(modelName);
+  let conversation = history;
+  // Counts every request this report takes, repairs included
+  const usage = emptyUsage(modelName);
+  // Repair rounds reuse what the first request uploaded or cached
+  const session: AnalyzeOptions = {
+    ...options,
+    onVideoUploaded: (media) => {
+      session.uploadedVideo = media;
+      options.onVideoUploaded?.(media);
+    },
+    onContextCached: (cache) => {
+      session.contextCache = cache;
+      options.onContextCached?.(cache);
+    },
+  };
+  let report = await requestReport(video, codeContext, conversation, modelName, session, usage);
+
+  for (let round = 0; ; round++) {
+    onStatus?.("Checking that the patched files parse...");
+    let verification: VerificationResult;
+    try {
+      verification = await verifyEdits(codeContext, editsWithTest(report));
+    } catch (e) {
+      console.warn("Patch verification failed to run:", e);
+      verification = skippedVerification();
     }
 
-    return JSON.parse(resultText) as BugReport;
-    
-  } catch (error: any) {
-    console.error("Gemini API Error Details:", error);
-    
-    // Provide more specific error messages to help debugging
-    let errorMessage = error.message || "Unknown error";
-    
-    if (errorMessage.includes("404")) {
-      errorMessage += ` (Model '${modelName}' not found. Your API key might not have access to this model.)`;
-    } else if (errorMessage.includes("400")) {
-      errorMessage += " (Bad Request. Check if the video format is supported or if the input is too large.)";
-    } else if (errorMessage.includes("403")) {
-      errorMessage += " (Permission Denied. Check your API Key.)";
-    } else if (errorMessage.includes("429") || errorMessage.toLowerCase().includes("quota")) {
-      errorMessage += " (Quota Exceeded. Please try again later or switch to Gemini 2.5 Flash.)";
-    } else if (error instanceof SyntaxError) {
-      errorMessage = "Failed to parse JSON response from model. " + errorMessage;
+    if (verification.status !== 'failed' || round >= maxRepairRounds) {
+      onStatus?.(null);
+      return { ...report, verification: { ...verification, repairRounds: round }, usage };
     }
 
-    throw new Error(errorMessage);
+    const count = verification.issues.length;
+    onStatus?.(`The patch has ${count} error${count === 1 ? '' : 's'}. Asking ${label} to repair it (round ${round + 1} of ${maxRepairRounds})...`);
+    conversation = [
+      ...conversation,
+      { role: 'model', content: report, timestamp: Date.now() },
+      {
+        role: 'user',
+        content: `Your patch does not parse. Fix these errors and return the complete corrected files:\n${formatIssues(verification.issues)}`,
+        timestamp: Date.now(),
+      },
+    ];
+    report = await requestReport(video, codeContext, conversation, modelName, session, usage);
   }
 };
@@ -0,0 +1,51 @@
+import { lstat, readdir, readFile, realpath } from 'node:fs/promises';
+import path from 'node:path';
+import { SourceFile } from '../types';
+import { isIgnored, isTextFile, normalizePath } from '../utils/sourceFiles';
+
+// Larger files are generated or vendored, and would crowd out the code worth sending
+const MAX_SOURCE_BYTES = 512 * 1024;
+
+// Paths are sent relative to `root`, so the model's edits can be written back there
+const toSourcePath = (root: string, file: string): string => {
+  const relative = path.relative(root, file);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`${file} is outside ${root}; pass --root to change the project directory.`);
+  }
+  return normalizePath(relative);
+};
+
+// Links are never followed, so the walk can't leave `root` or loop
+const collect = async (root: string, target: string, out: SourceFile[]): Promise<void> => {
+  const info = await lstat(target);
+  if (info.isSymbolicLink()) return;
+  if (info.isDirectory()) {
+    for (const entry of await readdir(target)) {
+      const child = path.join(target, entry);
+      if (!isIgnored(toSourcePath(root, child))) await collect(root, child, out);
+    }
+  } else if (isTextFile(target)) {
+    if (info.size > MAX_SOURCE_BYTES) {
+      console.warn(`Skipping ${toSourcePath(root, target)}: larger than ${MAX_SOURCE_BYTES / 1024}KB.`);
+      return;
+    }
+    out.push({ path: toSourcePath(root, target), content: await readFile(target, 'utf8') });
+  }
+};
+
+/**
+ * Reads the given files, and the text files in the given directories, as sources
+ * relative to `root`. Node only: the CLI and the server's repository search share it.
+ * The root and the targets are resolved to their real paths first, so a target that
+ * links out of the root is refused like any other path outside it.
+ */
+export const readSources = async (root: string, targets: string[]): Promise<SourceFile[]> => {
+  const realRoot = await realpath(root);
+  const files: SourceFile[] = [];
+  for (const target of targets) {
+    const before = files.length;
+    await collect(realRoot, await realpath(path.resolve(target)), files);
+    if (files.length === before) console.warn(`Skipping ${target}: no source files VibeFix can read.`);
+  }
+  return files;
+};
@@ -0,0 +1,99 @@
+import { ErrorCategory } from "../types";
+import { ProviderId } from "./providers";
+
+export interface RetryPolicy {
+  // Attempts per model, including the first
+  maxAttempts: number;
+  // Backoff doubles from here: 1s, 2s, 4s... plus jitter
+  baseDelayMs: number;
+  // Waits longer than this (e.g. a retry-after hint of several minutes) skip to the fallback
+  maxDelayMs: number;
+  retryOn: ErrorCategory[];
+  // Failures that move on to the next model in `fallbacks`
+  fallbackOn: ErrorCategory[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+  retryOn: ['quota', 'server', 'network'],
+  fallbackOn: ['quota'],
+};
+
+// US dollars per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface ModelOption {
+  id: string;
+  label: string;
+  provider: ProviderId;
+  // Most input tokens one request may carry; unknown for local servers, which are configured separately
+  contextWindow?: number;
+  // List prices for prompts under any long-context tier; free or unknown when missing
+  pricing?: ModelPricing;
+  // Models to try in order when this one fails with one of `retry.fallbackOn`
+  fallbacks?: string[];
+  retry?: Partial<RetryPolicy>;
+}
+
+// A local server that is down or overloaded won't recover within a few seconds
+const LOCAL_RETRY: Partial<RetryPolicy> = { maxAttempts: 1 };
+
+export const MODELS: ModelOption[] = [
+  {
+    id: 'gemini-3-pro-preview',
+    label: 'Gemini 3 Pro',
+    provider: 'gemini',
+    contextWindow: 1_048_576,
+    pricing: { input: 2, output: 12 },
+    fallbacks: ['gemini-2.5-flash'],
+    retry: { fallbackOn: ['quota', 'server', 'model-not-found'] },
+  },
+  {
+    id: 'gemini-2.5-flash',
+    label: 'Gemini 2.5 Flash',
+    provider: 'gemini',
+    contextWindow: 1_048_576,
+    pricing: { input: 0.3, output: 2.5 },
+  },
+  { id: 'gpt-4.1', label: 'GPT-4.1', provider: 'openai', contextWindow: 1_047_576, pricing: { input: 2, output: 8 } },
+  {
+    id: 'claude-sonnet-4-5',
+    label: 'Claude Sonnet 4.5',
+    provider: 'anthropic',
+    contextWindow: 200_000,
+    pricing: { input: 3, output: 15 },
+    retry: { fallbackOn: ['quota', 'server'] },
+  },
+  { id: 'qwen2.5-coder', label: 'Ollama (qwen2.5-coder)', provider: 'ollama', contextWindow: 32_768, retry: LOCAL_RETRY },
+  { id: 'local', label: 'llama.cpp server', provider: 'llamacpp', retry: LOCAL_RETRY },
+  { id: 'mock', label: 'Mock (offline)', provider: 'mock', retry: { maxAttempts: 1 } },
+];
+
+export const DEFAULT_MODEL = MODELS[0].id;
+
+// Unknown ids are treated as Gemini models so custom model names keep working
+export const getModelOption = (id: string): ModelOption =>
+  MODELS.find(model => model.id === id) || { id, label: id, provider: 'gemini' };
+
+export const getRetryPolicy = (model: ModelOption): RetryPolicy => ({ ...DEFAULT_RETRY_POLICY, ...model.retry });
+
+/**
+ * The model followed by its fallbacks, each listed once, so a chain of fallbacks that
+ * leads back to an earlier model doesn't loop.
+ */
+export const getFallbackChain = (id: string): ModelOption[] => {
+  const chain: ModelOption[] = [];
+  const visit = (modelId: string) => {
+    if (chain.some(model => model.id === modelId)) return;
+    const model = getModelOption(modelId);
+    chain.push(model);
+    model.fallbacks?.forEach(visit);
+  };
+  visit(id);
+  return chain;
+};
@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createAnthropicProvider } from './anthropic';
+import { parseBugReport } from '../reportValidation';
+import { GenerateRequest } from './types';
+
+const request: GenerateRequest = {
+  model: 'claude-sonnet-4-5',
+  systemInstruction: 'Fix the bug.',
+  context: [{ kind: 'text', text: 'code' }],
+  turns: [{ role: 'user', parts: [{ kind: 'text', text: 'Please fix it.' }] }],
+  responseSchema: { type: 'OBJECT', properties: {} } as any,
+};
+
+// Answers the Messages API call with these server-sent events
+const stubStream = (events: unknown[]) => {
+  const fetchMock = vi.fn(async () => new Response(events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('')));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const answer = (partialJson: string, stopReason: string) => [
+  { type: 'message_start', message: { usage: { input_tokens: 10 } } },
+  { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: partialJson } },
+  { type: 'message_delta', delta: { stop_reason: stopReason }, usage: { output_tokens: 5 } },
+];
+
+describe('createAnthropicProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns the streamed tool input with its usage', async () => {
+    const fetchMock = stubStream(answer('{"bug_summary": "x"}', 'tool_use'));
+    const result = await createAnthropicProvider('key', 'http://anthropic.test').generate(request);
+    expect(result).toEqual({ text: '{"bug_summary": "x"}', usage: { inputTokens: 10, outputTokens: 5 } });
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(init.headers).not.toHaveProperty('anthropic-dangerous-direct-browser-access');
+  });
+
+  it('returns an answer cut off at the output limit for the truncated-JSON re-prompt', async () => {
+    stubStream(answer('{"edits": [{"code_patch": ".a {', 'max_tokens'));
+    const result = await createAnthropicProvider('key', 'http://anthropic.test').generate(request);
+    expect(result.text).toBe('{"edits": [{"code_patch": ".a {');
+    expect(parseBugReport(result.text)).toMatchObject({ report: null, truncated: true, category: 'invalid-response' });
+  });
+});
@@ -0,0 +1,86 @@
+import { AuthError, errorForStatus } from "../errors";
+import { postStream, rejectVideo, sseData } from "./http";
+import { toJsonSchema } from "./schema";
+import { TokenUsage } from "../../types";
+import { GenerateRequest, LLMProvider, PromptPart } from "./types";
+
+const TOOL_NAME = 'submit_bug_report';
+
+// Every edited file comes back in full, so answers run long; Claude Sonnet 4.5 allows 64k
+const MAX_OUTPUT_TOKENS = 32000;
+
+const toContentBlock = (part: PromptPart) => {
+  if (part.kind === 'text') return { type: 'text', text: part.text };
+  rejectVideo('Anthropic', part);
+  return { type: 'image', source: { type: 'base64', media_type: part.mimeType, data: part.data } };
+};
+
+/**
+ * Anthropic Messages API. Structured output is obtained by forcing a single tool call
+ * whose input schema is the response schema.
+ */
+export const createAnthropicProvider = (
+  apiKey = process.env.ANTHROPIC_API_KEY,
+  baseUrl = process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com'
+): LLMProvider => {
+  if (!apiKey) {
+    throw new AuthError("Anthropic API Key is missing. Please set ANTHROPIC_API_KEY.");
+  }
+
+  return {
+    id: 'anthropic',
+    generate: async ({ model, systemInstruction, context, turns, responseSchema, signal }: GenerateRequest, onText) => {
+      // The context opens the first message and ends in a cache breakpoint, so refinements
+      // within five minutes read it from Anthropic's prompt cache
+      const contextBlocks = context.map((part, index) =>
+        index === context.length - 1 ? { ...toContentBlock(part), cache_control: { type: 'ephemeral' } } : toContentBlock(part)
+      );
+      const messages = turns.map((turn, index) => ({
+        role: turn.role === 'model' ? 'assistant' : 'user',
+        content: [...(index === 0 ? contextBlocks : []), ...turn.parts.map(toContentBlock)],
+      }));
+
+      // The forced tool call streams its input as `input_json_delta` fragments
+      let text = '';
+      const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+      await postStream(
+        `${baseUrl.replace(/\/$/, '')}/v1/messages`,
+        {
+          model,
+          stream: true,
+          max_tokens: MAX_OUTPUT_TOKENS,
+          system: systemInstruction,
+          messages,
+          tools: [{ name: TOOL_NAME, description: 'Report the bug and its fix.', input_schema: toJsonSchema(responseSchema) }],
+          tool_choice: { type: 'tool', name: TOOL_NAME },
+        },
+        {
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+        },
+        signal,
+        line => {
+          const data = sseData(line);
+          if (!data) return;
+          const event = JSON.parse(data);
+          if (event.type === 'error') {
+            throw errorForStatus(event.error?.type === 'overloaded_error' ? 529 : 500, event.error?.message || 'Stream error');
+          }
+          // Input tokens arrive with the first event, the output count with the last
+          if (event.type === 'message_start') {
+            const start = event.message?.usage || {};
+            usage.inputTokens = (start.input_tokens || 0) + (start.cache_creation_input_tokens || 0) + (start.cache_read_input_tokens || 0);
+          }
+          if (event.type === 'message_delta' && event.usage) usage.outputTokens = event.usage.output_tokens || 0;
+          if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta') {
+            text += event.delta.partial_json;
+            onText?.(text);
+          }
+        }
+      );
+      // An answer cut off at max_tokens is returned as it is: parseBugReport sees the
+      // unclosed JSON and the service asks again for shorter explanations
+      return { text, usage: usage.inputTokens || usage.outputTokens ? usage : undefined };
+    },
+  };
+};
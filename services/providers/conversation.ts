@@ -0,0 +1,11 @@
+import { GenerateRequest, PromptTurn } from "./types";
+
+/**
+ * The conversation with the context opening the first user turn. Every request of a
+ * session then starts with the same prefix, which providers with automatic prompt
+ * caching (OpenAI, Ollama, llama.cpp) reuse instead of processing it again.
+ */
+export const withContext = ({ context, turns }: Pick<GenerateRequest, 'context' | 'turns'>): PromptTurn[] => {
+  const [first, ...rest] = turns;
+  return [{ role: 'user', parts: [...context, ...(first?.parts || [])] }, ...rest];
+};
@@ -0,0 +1,108 @@
+import { Content, FileState, GoogleGenAI, Part } from "@google/genai";
+import { sleep } from "../../utils/async";
+import { AuthError, InvalidInputError, ServerError } from "../errors";
+import { TokenUsage } from "../../types";
+import { withContext } from "./conversation";
+import { GenerateRequest, LLMProvider, PromptPart, PromptTurn } from "./types";
+
+// How often to check whether an uploaded video has finished processing
+const FILE_POLL_INTERVAL_MS = 2000;
+const FILE_POLL_TIMEOUT_MS = 5 * 60 * 1000;
+// Cached contexts are billed per hour of storage; an hour covers a refinement session
+const CACHE_TTL_SECONDS = 60 * 60;
+
+const toGeminiPart = (part: PromptPart): Part => {
+  switch (part.kind) {
+    case 'text': return { text: part.text };
+    case 'media': return { inlineData: { data: part.data, mimeType: part.mimeType } };
+    case 'file': return { fileData: { fileUri: part.uri, mimeType: part.mimeType } };
+  }
+};
+
+const toGeminiContent = (turn: PromptTurn): Content => ({ role: turn.role, parts: turn.parts.map(toGeminiPart) });
+
+export const createGeminiProvider = (apiKey = process.env.GEMINI_API_KEY): LLMProvider => {
+  const getClient = () => {
+    if (!apiKey) {
+      throw new AuthError("Gemini API Key is missing. Please set GEMINI_API_KEY.");
+    }
+    return new GoogleGenAI({ apiKey });
+  };
+
+  return {
+    id: 'gemini',
+    generate: async (request: GenerateRequest, onText) => {
+      const { model, systemInstruction, turns, cache, responseSchema, signal } = request;
+      const ai = getClient();
+      // A cached context stands in for the system instruction and the start of the conversation
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: (cache ? turns : withContext(request)).map(toGeminiContent),
+        config: {
+          ...(cache ? { cachedContent: cache.name } : { systemInstruction }),
+          responseMimeType: 'application/json',
+          responseSchema,
+          abortSignal: signal,
+        },
+      });
+
+      let text = '';
+      let usage: TokenUsage | undefined;
+      for await (const chunk of stream) {
+        text += chunk.text || '';
+        onText?.(text);
+        // Each chunk carries the running totals; thinking tokens are billed as output
+        const meta = chunk.usageMetadata;
+        if (meta) {
+          usage = {
+            inputTokens: meta.promptTokenCount || 0,
+            outputTokens: (meta.candidatesTokenCount || 0) + (meta.thoughtsTokenCount || 0),
+          };
+        }
+      }
+      return { text, usage };
+    },
+
+    cacheContext: async ({ model, systemInstruction, context, key, signal }) => {
+      const ai = getClient();
+      const cached = await ai.caches.create({
+        model,
+        config: {
+          systemInstruction,
+          contents: [{ role: 'user', parts: context.map(toGeminiPart) }],
+          ttl: `${CACHE_TTL_SECONDS}s`,
+          displayName: 'vibefix-session',
+          abortSignal: signal,
+        },
+      });
+      if (!cached.name) throw new ServerError("Gemini did not return a name for the cached context.");
+      return { name: cached.name, model, key, expiresAt: cached.expireTime ? Date.parse(cached.expireTime) : null };
+    },
+
+    // Files API: upload, then poll until the video has been processed and is ACTIVE
+    uploadMedia: async (file, mimeType, signal) => {
+      const ai = getClient();
+      let uploaded = await ai.files.upload({ file, config: { mimeType, abortSignal: signal } });
+
+      const deadline = Date.now() + FILE_POLL_TIMEOUT_MS;
+      while (uploaded.state === FileState.PROCESSING) {
+        if (Date.now() > deadline) {
+          throw new ServerError("Timed out waiting for the uploaded video to be processed.");
+        }
+        await sleep(FILE_POLL_INTERVAL_MS, signal);
+        uploaded = await ai.files.get({ name: uploaded.name!, config: { abortSignal: signal } });
+      }
+
+      if (uploaded.state === FileState.FAILED || !uploaded.uri) {
+        throw new InvalidInputError(`Video upload failed: ${uploaded.error?.message || 'the file could not be processed'}.`);
+      }
+
+      return {
+        uri: uploaded.uri,
+        name: uploaded.name || '',
+        mimeType: uploaded.mimeType || mimeType,
+        expiresAt: uploaded.expirationTime ? Date.parse(uploaded.expirationTime) : null,
+      };
+    },
+  };
+};
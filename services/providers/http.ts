@@ -0,0 +1,60 @@
+import { errorForStatus, InvalidInputError, parseRetryAfter } from "../errors";
+import { InlineMediaPart, PromptPart } from "./types";
+
+// Failures are thrown as typed errors carrying the HTTP status and any Retry-After hint
+const post = async (url: string, body: unknown, headers: Record<string, string>, signal?: AbortSignal) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    const payload: any = await response.json().catch(() => ({}));
+    const detail = payload?.error?.message || payload?.error || payload?.message || response.statusText;
+    throw errorForStatus(
+      response.status,
+      typeof detail === 'string' ? detail : JSON.stringify(detail),
+      parseRetryAfter(response.headers.get('retry-after'))
+    );
+  }
+  return response;
+};
+
+/**
+ * POSTs JSON and calls `onLine` for every line of the streamed response. Server-sent events
+ * arrive as `data: ...` lines, newline-delimited JSON as plain lines.
+ */
+export const postStream = async (
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal: AbortSignal | undefined,
+  onLine: (line: string) => void
+): Promise<void> => {
+  const response = await post(url, body, headers, signal);
+  if (!response.body) throw new Error("Response has no body to stream.");
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() || '';
+    lines.map(line => line.trim()).filter(Boolean).forEach(onLine);
+    if (done) return;
+  }
+};
+
+// Extracts the payload of an SSE `data:` line; other SSE fields are ignored
+export const sseData = (line: string): string | null =>
+  line.startsWith('data:') ? line.slice(5).trim() : null;
+
+// Text-only providers can't watch the recording, so say so instead of silently dropping it
+export function rejectVideo(providerName: string, part: Exclude<PromptPart, { kind: 'text' }>): asserts part is InlineMediaPart {
+  if (part.kind === 'file' || part.mimeType.startsWith('video/')) {
+    throw new InvalidInputError(`${providerName} does not accept video input. Remove the recording or pick a Gemini model.`, { status: 400 });
+  }
+}
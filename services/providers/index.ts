@@ -0,0 +1,33 @@
+import { createAnthropicProvider } from "./anthropic";
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mock";
+import { createOllamaProvider } from "./ollama";
+import { createLlamaCppProvider, createOpenAIProvider } from "./openai";
+import { LLMProvider, ProviderId } from "./types";
+
+export type { GenerateRequest, GenerateResult, LLMProvider, PromptPart, PromptTurn, ProviderId } from "./types";
+
+const FACTORIES: Record<ProviderId, () => LLMProvider> = {
+  gemini: () => createGeminiProvider(),
+  openai: () => createOpenAIProvider(),
+  anthropic: () => createAnthropicProvider(),
+  ollama: () => createOllamaProvider(),
+  llamacpp: () => createLlamaCppProvider(),
+  mock: () => createMockProvider(),
+};
+
+const overrides = new Map<ProviderId, LLMProvider>();
+
+/**
+ * Replaces a provider, e.g. with `createMockProvider(fixture)` in tests.
+ * Pass `null` to go back to the default.
+ */
+export const registerProvider = (id: ProviderId, provider: LLMProvider | null) => {
+  if (provider) {
+    overrides.set(id, provider);
+  } else {
+    overrides.delete(id);
+  }
+};
+
+export const getProvider = (id: ProviderId): LLMProvider => overrides.get(id) || FACTORIES[id]();
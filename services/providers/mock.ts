@@ -0,0 +1,118 @@
+import { BugReport, RegressionTest } from "../../types";
+import { sleep } from "../../utils/async";
+import { withContext } from "./conversation";
+import { GenerateRequest, LLMProvider } from "./types";
+
+// Matches the labelled source blocks analyzeBug puts in the prompt
+const SOURCE_BLOCK = /--- File: (.+?) ---\n```\n([\s\S]*?)\n```/g;
+
+const commentFor = (path: string, text: string) => {
+  const ext = path.split('.').pop()?.toLowerCase();
+  if (ext === 'html' || ext === 'htm' || ext === 'md') return `<!-- ${text} -->`;
+  if (ext === 'css' || ext === 'scss' || ext === 'less') return `/* ${text} */`;
+  if (ext === 'py' || ext === 'rb' || ext === 'sh' || ext === 'yml' || ext === 'yaml') return `# ${text}`;
+  return `// ${text}`;
+};
+
+// Pages and stylesheets get a browser test, everything else a unit test
+const mockTestFor = (path: string): RegressionTest => {
+  const base = path.replace(/\.[^./]+$/, '');
+  if (/\.(html?|css|scss|less)$/i.test(path)) {
+    return {
+      framework: 'playwright',
+      file_path: `tests/${base.split('/').pop()}.spec.ts`,
+      explanation: 'Mock test: checks that the page loads at a mobile viewport.',
+      code: `import { test, expect } from '@playwright/test';
+
+test('renders ${path}', async ({ page }) => {
+  await page.setViewportSize({ width: 375, height: 667 });
+  await page.goto('/${path}');
+  await expect(page.locator('body')).toBeVisible();
+});
+`,
+    };
+  }
+  return {
+    framework: 'vitest',
+    file_path: `${base}.test.ts`,
+    explanation: 'Mock test: checks that the module can be imported.',
+    code: `import { expect, test } from 'vitest';
+
+test('imports ${path}', async () => {
+  await expect(import('./${base.split('/').pop()}')).resolves.toBeDefined();
+});
+`,
+  };
+};
+
+/**
+ * Builds a fixed report from the prompt alone: the first submitted file gets a marker
+ * comment appended. The same prompt always yields the same report.
+ */
+export const buildMockReport = (request: GenerateRequest): BugReport => {
+  const parts = withContext(request).flatMap(turn => turn.parts);
+  const prompt = parts.map(part => (part.kind === 'text' ? part.text : '')).join('\n');
+  const sources = Array.from(prompt.matchAll(SOURCE_BLOCK)).map(match => ({ path: match[1], content: match[2] }));
+  const hasVideo = parts.some(part => part.kind === 'file' || (part.kind === 'media' && part.mimeType.startsWith('video/')));
+  const imageCount = parts.filter(part => part.kind === 'media' && part.mimeType.startsWith('image/')).length;
+  const logCount = (prompt.match(/^=== Evidence \d+ of/gm) || []).length;
+  const isRefinement = request.turns.some(turn => turn.role === 'model');
+
+  if (sources.length === 0) {
+    return {
+      bug_summary: 'No source files were provided to the mock provider.',
+      user_sentiment: 'Confused',
+      explanation: 'The mock provider needs at least one labelled source file to produce a patch.',
+      edits: [],
+    };
+  }
+
+  const target = sources[0];
+  const marker = commentFor(target.path, 'VibeFix mock fix');
+  return {
+    bug_summary: `Mock analysis of ${target.path}`,
+    user_sentiment: hasVideo ? 'Frustrated' : 'Helpful',
+    explanation: isRefinement
+      ? 'Mock refinement: the patch is unchanged because the mock provider ignores feedback.'
+      : `Mock analysis of ${sources.length} file(s)${hasVideo ? ' and the attached recording' : ''}${imageCount ? ` with ${imageCount} image(s)` : ''}${logCount ? ` and ${logCount} log(s)` : ''}. No model was called.`,
+    edits: [{
+      file_to_edit: target.path,
+      explanation: 'Appends a marker comment so the diff viewer has something to show.',
+      code_patch: `${target.content}\n${marker}`,
+    }],
+    evidence: hasVideo
+      ? [
+          { start_seconds: 0, end_seconds: 2, description: 'Mock evidence: the start of the recording.' },
+          { start_seconds: 5, end_seconds: 5, description: 'Mock evidence: a single instant.' },
+        ]
+      : [],
+    regression_test: mockTestFor(target.path),
+    root_cause: /\.(css|scss|less)$/i.test(target.path) ? 'styling' : 'logic',
+    severity: 'medium',
+    confidence: 0.5,
+  };
+};
+
+/**
+ * Offline provider for exercising the UI and the service without network access.
+ * Pass `respond` to return a fixture instead of the default report. The response is
+ * streamed in a fixed number of chunks so partial rendering can be exercised too.
+ */
+export const createMockProvider = (
+  respond: (request: GenerateRequest) => BugReport | string = buildMockReport,
+  { chunks = 8, chunkDelayMs = 100 } = {}
+): LLMProvider => ({
+  id: 'mock',
+  generate: async (request, onText) => {
+    const result = respond(request);
+    const text = typeof result === 'string' ? result : JSON.stringify(result);
+
+    const size = Math.ceil(text.length / chunks);
+    for (let end = size; end < text.length; end += size) {
+      await sleep(chunkDelayMs, request.signal);
+      onText?.(text.slice(0, end));
+    }
+    onText?.(text);
+    return { text };
+  },
+});
@@ -0,0 +1,58 @@
+import { ServerError } from "../errors";
+import { postStream, rejectVideo } from "./http";
+import { toJsonSchema } from "./schema";
+import { TokenUsage } from "../../types";
+import { withContext } from "./conversation";
+import { GenerateRequest, LLMProvider } from "./types";
+
+/**
+ * Local Ollama server. `format` constrains the output to the response schema.
+ */
+export const createOllamaProvider = (
+  baseUrl = process.env.OLLAMA_BASE_URL || 'http://localhost:11434'
+): LLMProvider => ({
+  id: 'ollama',
+  generate: async (request: GenerateRequest, onText) => {
+    const { model, systemInstruction, responseSchema, signal } = request;
+    // Messages are plain text with their images alongside
+    const messages = withContext(request).map(turn => {
+      const images: string[] = [];
+      const text: string[] = [];
+      turn.parts.forEach(part => {
+        if (part.kind === 'text') {
+          text.push(part.text);
+        } else {
+          rejectVideo('Ollama', part);
+          images.push(part.data);
+        }
+      });
+      return { role: turn.role === 'model' ? 'assistant' : 'user', content: text.join('\n\n'), ...(images.length ? { images } : {}) };
+    });
+
+    // Ollama streams newline-delimited JSON chunks
+    let output = '';
+    let usage: TokenUsage | undefined;
+    await postStream(
+      `${baseUrl.replace(/\/$/, '')}/api/chat`,
+      {
+        model,
+        stream: true,
+        format: toJsonSchema(responseSchema),
+        messages: [{ role: 'system', content: systemInstruction }, ...messages],
+      },
+      {},
+      signal,
+      line => {
+        const chunk = JSON.parse(line);
+        if (chunk.error) throw new ServerError(chunk.error, { status: 500 });
+        // The final chunk counts the prompt and generated tokens
+        if (chunk.done) usage = { inputTokens: chunk.prompt_eval_count || 0, outputTokens: chunk.eval_count || 0 };
+        if (chunk.message?.content) {
+          output += chunk.message.content;
+          onText?.(output);
+        }
+      }
+    );
+    return { text: output, usage };
+  },
+});
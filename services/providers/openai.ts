@@ -0,0 +1,77 @@
+import { AuthError } from "../errors";
+import { postStream, rejectVideo, sseData } from "./http";
+import { toJsonSchema } from "./schema";
+import { TokenUsage } from "../../types";
+import { withContext } from "./conversation";
+import { GenerateRequest, LLMProvider, ProviderId } from "./types";
+
+interface OpenAICompatibleOptions {
+  id: ProviderId;
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+}
+
+/**
+ * Chat Completions client for OpenAI and anything that speaks its API
+ * (llama.cpp's server, vLLM, LM Studio, ...).
+ */
+export const createOpenAICompatibleProvider = ({ id, name, baseUrl, apiKey }: OpenAICompatibleOptions): LLMProvider => ({
+  id,
+  generate: async (request: GenerateRequest, onText) => {
+    const { model, systemInstruction, responseSchema, signal } = request;
+    const messages = withContext(request).map(turn => ({
+      role: turn.role === 'model' ? 'assistant' : 'user',
+      content: turn.parts.map(part => {
+        if (part.kind === 'text') return { type: 'text', text: part.text };
+        rejectVideo(name, part);
+        return { type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}` } };
+      }),
+    }));
+
+    let text = '';
+    let usage: TokenUsage | undefined;
+    await postStream(
+      `${baseUrl.replace(/\/$/, '')}/chat/completions`,
+      {
+        model,
+        stream: true,
+        // Usage comes in a last chunk without choices
+        stream_options: { include_usage: true },
+        messages: [{ role: 'system', content: systemInstruction }, ...messages],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'bug_report', schema: toJsonSchema(responseSchema), strict: false },
+        },
+      },
+      apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+      signal,
+      line => {
+        const data = sseData(line);
+        if (!data || data === '[DONE]') return;
+        const chunk = JSON.parse(data);
+        if (chunk.usage) usage = { inputTokens: chunk.usage.prompt_tokens || 0, outputTokens: chunk.usage.completion_tokens || 0 };
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText?.(text);
+        }
+      }
+    );
+    return { text, usage };
+  },
+});
+
+export const createOpenAIProvider = (
+  apiKey = process.env.OPENAI_API_KEY,
+  baseUrl = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1'
+): LLMProvider => {
+  if (!apiKey) {
+    throw new AuthError("OpenAI API Key is missing. Please set OPENAI_API_KEY.");
+  }
+  return createOpenAICompatibleProvider({ id: 'openai', name: 'OpenAI', baseUrl, apiKey });
+};
+
+export const createLlamaCppProvider = (
+  baseUrl = process.env.LLAMACPP_BASE_URL || 'http://localhost:8080/v1'
+): LLMProvider => createOpenAICompatibleProvider({ id: 'llamacpp', name: 'llama.cpp', baseUrl });
@@ -0,0 +1,24 @@
+import { Schema } from "@google/genai";
+
+/**
+ * Converts a Gemini response schema (upper-case `Type` values) into standard JSON Schema
+ * for providers that accept JSON Schema directly.
+ */
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const json: Record<string, unknown> = {};
+  if (schema.type) {
+    const type = schema.type.toLowerCase();
+    json.type = schema.nullable ? [type, 'null'] : type;
+  }
+  if (schema.description) json.description = schema.description;
+  if (schema.enum) json.enum = schema.enum;
+  if (schema.items) json.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    json.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+    json.required = schema.required || [];
+    json.additionalProperties = false;
+  }
+  return json;
+};
@@ -0,0 +1,49 @@
+import { Schema } from "@google/genai";
+import { CachedContext, TokenUsage, UploadedMedia } from "../../types";
+
+export type ProviderId = 'gemini' | 'openai' | 'anthropic' | 'ollama' | 'llamacpp' | 'mock';
+
+// Provider-neutral pieces of a prompt. Media is either base64 encoded inline or a
+// reference to a file uploaded with `uploadMedia`.
+export type InlineMediaPart = { kind: 'media'; mimeType: string; data: string };
+export type FileMediaPart = { kind: 'file'; mimeType: string; uri: string };
+export type PromptPart = { kind: 'text'; text: string } | InlineMediaPart | FileMediaPart;
+
+// One message of the conversation; the model's turns are its earlier answers
+export interface PromptTurn {
+  role: 'user' | 'model';
+  parts: PromptPart[];
+}
+
+export interface GenerateRequest {
+  model: string;
+  systemInstruction: string;
+  // The recording and the code, which open the conversation and stay the same for the whole session
+  context: PromptPart[];
+  // What follows the context, starting and ending with a user turn
+  turns: PromptTurn[];
+  // Set when the provider already holds `systemInstruction` and `context`; neither is sent then
+  cache?: CachedContext;
+  // Written in Gemini's schema dialect; other providers convert it with `toJsonSchema`
+  responseSchema: Schema;
+  signal?: AbortSignal;
+}
+
+export interface GenerateResult {
+  // Raw JSON text matching `responseSchema`
+  text: string;
+  // Tokens the provider billed, when it reports them
+  usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  // Streams where the provider supports it, calling `onText` with the full text received so far
+  generate(request: GenerateRequest, onText?: (textSoFar: string) => void): Promise<GenerateResult>;
+  // Providers with a file store can take large recordings by upload instead of inline
+  uploadMedia?(file: Blob, mimeType: string, signal?: AbortSignal): Promise<UploadedMedia>;
+  // Providers with explicit context caching store the system instruction and context for later requests
+  cacheContext?(request: ContextCacheRequest): Promise<CachedContext>;
+}
+
+export type ContextCacheRequest = Pick<GenerateRequest, 'model' | 'systemInstruction' | 'context' | 'signal'> & { key: string };
@@ -0,0 +1,16 @@
+import { RepoSearchRequest, RepoSearchResult } from "../types";
+
+/**
+ * Asks the VibeFix server to index a repository on its disk and pick the files most
+ * relevant to the bug. The server only reads paths inside its REPO_ROOTS.
+ */
+export const searchServerRepo = async (request: RepoSearchRequest, endpoint = '/api/repo/search'): Promise<RepoSearchResult> => {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(payload.error || `The VibeFix server returned ${response.status}.`);
+  return payload as RepoSearchResult;
+};
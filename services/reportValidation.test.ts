@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { parseBugReport, validateBugReport } from './reportValidation';
+
+const report = {
+  bug_summary: 'Button is invisible',
+  user_sentiment: 'Frustrated',
+  explanation: 'The colour matches the background.',
+  edits: [{ file_to_edit: 'src/a.css', explanation: 'Darken it', code_patch: '.a{color:red}\n.b{color:blue}\n' }],
+};
+
+describe('parseBugReport', () => {
+  it('accepts a complete report', () => {
+    const parsed = parseBugReport(JSON.stringify(report));
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.report?.edits[0].code_patch).toBe(report.edits[0].code_patch);
+  });
+
+  it('ignores Markdown fences and text around the object', () => {
+    const parsed = parseBugReport(`Here is the fix:\n\`\`\`json\n${JSON.stringify(report)}\n\`\`\`\nHope it helps.`);
+    expect(parsed.report?.bug_summary).toBe('Button is invisible');
+  });
+
+  it('rejects an answer cut off in the middle of a code_patch', () => {
+    const text = JSON.stringify(report);
+    const parsed = parseBugReport(text.slice(0, text.indexOf('.b{co') + 5));
+    expect(parsed.report).toBeNull();
+    expect(parsed.truncated).toBe(true);
+    expect(parsed.category).toBe('invalid-response');
+    expect(parsed.errors[0]).toMatch(/cut off/);
+  });
+
+  it('rejects an answer cut off after the edits', () => {
+    const text = JSON.stringify({ ...report, confidence: 0.8 });
+    expect(parseBugReport(text.slice(0, -4)).report).toBeNull();
+  });
+
+  it('reports an empty or non-JSON answer as a parse failure', () => {
+    expect(parseBugReport('').category).toBe('parse-failure');
+    expect(parseBugReport('I could not find a bug.').category).toBe('parse-failure');
+  });
+});
+
+describe('validateBugReport', () => {
+  it('lists every missing required field', () => {
+    const { report: result, errors } = validateBugReport({ edits: [{ file_to_edit: 'a.ts' }] });
+    expect(result).toBeNull();
+    expect(errors).toEqual([
+      '"bug_summary" must be a non-empty string.',
+      '"explanation" must be a non-empty string.',
+      'edits[0].code_patch must be the complete corrected file as a string.',
+    ]);
+  });
+
+  it('fills in or drops fields the UI can live without', () => {
+    const { report: result } = validateBugReport({
+      ...report,
+      user_sentiment: '',
+      confidence: 85,
+      severity: 'HIGH',
+      root_cause: 'cosmic rays',
+      edits: [{ ...report.edits[0], line_range: { start_line: 4, end_line: 2 } }],
+    });
+    expect(result).toMatchObject({ user_sentiment: 'Unknown', confidence: 0.85, severity: 'high', root_cause: 'other' });
+    expect(result?.edits[0].line_range).toEqual({ start_line: 4, end_line: 4 });
+  });
+});
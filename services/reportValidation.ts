@@ -0,0 +1,154 @@
+import { BugReport, ErrorCategory, FileEdit, LineRange, RegressionTest, RootCauseCategory, Severity, TestFramework, VideoEvidence } from "../types";
+import { parsePartialJson } from "../utils/partialJson";
+
+export interface ParsedReport {
+  // Null when the response can't be used as it is
+  report: BugReport | null;
+  // What is wrong with the response, phrased so it can be sent back to the model
+  errors: string[];
+  category: ErrorCategory | null;
+  // The JSON was cut off; such a response is never used, since a closed-off code_patch
+  // would pass for the whole file
+  truncated: boolean;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const TEST_FRAMEWORKS: TestFramework[] = ['vitest', 'jest', 'playwright'];
+const ROOT_CAUSES: RootCauseCategory[] = ['layout', 'styling', 'state', 'async', 'logic', 'data', 'accessibility', 'performance', 'other'];
+const SEVERITIES: Severity[] = ['critical', 'high', 'medium', 'low'];
+
+// Triage fields only label the report, so values outside the list are dropped rather than asked for again
+const oneOf = <T extends string>(value: unknown, options: T[]): T | undefined => {
+  const normalized = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return options.find(option => option === normalized);
+};
+
+const toLineRange = (value: unknown): LineRange | undefined => {
+  if (!isObject(value) || !Number.isInteger(value.start_line) || value.start_line < 1) return undefined;
+  const end = Number.isInteger(value.end_line) ? value.end_line : value.start_line;
+  return { start_line: value.start_line, end_line: Math.max(value.start_line, end) };
+};
+
+/**
+ * Checks a parsed response against the BugReport shape. Fields the UI can live without
+ * are filled in or dropped; anything the fix depends on is reported as an error.
+ */
+export const validateBugReport = (value: unknown): { report: BugReport | null; errors: string[] } => {
+  if (!isObject(value)) return { report: null, errors: ["The response must be a single JSON object."] };
+
+  const errors: string[] = [];
+  if (!isText(value.bug_summary)) errors.push('"bug_summary" must be a non-empty string.');
+  if (!isText(value.explanation)) errors.push('"explanation" must be a non-empty string.');
+
+  const edits: FileEdit[] = [];
+  if (!Array.isArray(value.edits)) {
+    errors.push('"edits" must be an array with one entry per changed file.');
+  } else {
+    value.edits.forEach((edit: unknown, i: number) => {
+      if (!isObject(edit)) {
+        errors.push(`edits[${i}] must be an object.`);
+        return;
+      }
+      if (!isText(edit.file_to_edit)) errors.push(`edits[${i}].file_to_edit must be the path of a submitted file.`);
+      if (typeof edit.code_patch !== 'string') errors.push(`edits[${i}].code_patch must be the complete corrected file as a string.`);
+      edits.push({
+        file_to_edit: String(edit.file_to_edit ?? ''),
+        explanation: typeof edit.explanation === 'string' ? edit.explanation : '',
+        code_patch: String(edit.code_patch ?? ''),
+        line_range: toLineRange(edit.line_range),
+      });
+    });
+  }
+
+  if (errors.length > 0) return { report: null, errors };
+
+  const evidence: VideoEvidence[] | undefined = Array.isArray(value.evidence)
+    ? value.evidence
+        .filter((item: unknown) => isObject(item) && typeof item.start_seconds === 'number')
+        .map((item: Record<string, any>) => ({
+          start_seconds: item.start_seconds,
+          end_seconds: typeof item.end_seconds === 'number' ? item.end_seconds : item.start_seconds,
+          description: typeof item.description === 'string' ? item.description : '',
+        }))
+    : undefined;
+
+  const test = value.regression_test;
+  const regression_test: RegressionTest | undefined = isObject(test) && isText(test.file_path) && isText(test.code)
+    ? {
+        framework: TEST_FRAMEWORKS.includes(test.framework) ? test.framework : 'vitest',
+        file_path: test.file_path,
+        explanation: typeof test.explanation === 'string' ? test.explanation : '',
+        code: test.code,
+      }
+    : undefined;
+
+  // Some models answer in percent
+  const confidence = typeof value.confidence === 'number' && Number.isFinite(value.confidence)
+    ? Math.min(1, Math.max(0, value.confidence > 1 ? value.confidence / 100 : value.confidence))
+    : undefined;
+
+  return {
+    report: {
+      bug_summary: value.bug_summary,
+      // Only drives the mood badge, so a missing one is filled in rather than asked for again
+      user_sentiment: isText(value.user_sentiment) ? value.user_sentiment : 'Unknown',
+      explanation: value.explanation,
+      edits,
+      evidence,
+      regression_test,
+      root_cause: value.root_cause === undefined ? undefined : oneOf(value.root_cause, ROOT_CAUSES) ?? 'other',
+      severity: oneOf(value.severity, SEVERITIES),
+      confidence,
+    },
+    errors: [],
+  };
+};
+
+/**
+ * Turns the model's raw text into a BugReport. Markdown fences and text around the
+ * object are ignored. JSON that was cut off is rejected: closing it would turn the last
+ * file of the fix into a partial one. Only the streaming preview shows partial JSON.
+ */
+export const parseBugReport = (text: string): ParsedReport => {
+  let body = text.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+  if (!body) {
+    return { report: null, errors: ["The response was empty."], category: 'parse-failure', truncated: false };
+  }
+  // Some models introduce the object with a sentence
+  const start = body.indexOf('{');
+  if (start > 0) body = body.slice(start);
+
+  let value: unknown;
+  let truncated = false;
+  try {
+    value = JSON.parse(body);
+  } catch {
+    // ...or follow it with one
+    const end = body.lastIndexOf('}');
+    try {
+      value = JSON.parse(body.slice(0, end + 1));
+    } catch {
+      value = parsePartialJson(body);
+      truncated = value !== undefined;
+    }
+  }
+  if (value === undefined) {
+    return { report: null, errors: ["The response is not valid JSON."], category: 'parse-failure', truncated: false };
+  }
+
+  if (truncated) {
+    return {
+      report: null,
+      errors: ["The response was cut off before the JSON object ended, so the files in it are incomplete. Keep the explanations short so every complete file fits."],
+      category: 'invalid-response',
+      truncated: true,
+    };
+  }
+
+  const { report, errors } = validateBugReport(value);
+  return { report, errors, category: report ? null : 'invalid-response', truncated: false };
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { buildRepoIndex, retrieveRelevantFiles, tokenize } from './retrieval';
+
+const files = [
+  { path: 'src/components/Footer.tsx', content: "import './Footer.css';\nexport const Footer = () => <footer><button className=\"subscribe\">Subscribe</button></footer>;" },
+  { path: 'src/components/Footer.css', content: '.subscribe { color: white; background: white; }' },
+  { path: 'src/components/Header.tsx', content: 'export const Header = () => <header><nav>Menu</nav></header>;' },
+  { path: 'src/api/orders.ts', content: 'export const fetchOrders = async () => (await fetch("/api/orders")).json();' },
+];
+
+describe('tokenize', () => {
+  it('splits camelCase, snake_case and kebab-case and stems plurals', () => {
+    expect(tokenize('fetchOrders order_items nav-buttons')).toEqual(['fetch', 'order', 'order', 'item', 'nav', 'button']);
+  });
+
+  it('drops stopwords, numbers and single letters', () => {
+    expect(tokenize('the button is 42 px x')).toEqual(['button']);
+  });
+});
+
+describe('retrieveRelevantFiles', () => {
+  const index = buildRepoIndex(files);
+
+  it('ranks the file the description points at first, with its reasons', () => {
+    const [first] = retrieveRelevantFiles(index, 'The subscribe button in the footer is invisible');
+    expect(first.file.path).toBe('src/components/Footer.tsx');
+    expect(first.reasons.join(' ')).toMatch(/footer/);
+  });
+
+  it('adds the stylesheets the picked files import', () => {
+    const paths = retrieveRelevantFiles(index, 'footer', { limit: 1 }).map(match => match.file.path);
+    expect(paths).toEqual(['src/components/Footer.tsx', 'src/components/Footer.css']);
+  });
+
+  it('leaves out files that match nothing', () => {
+    const paths = retrieveRelevantFiles(index, 'orders list is empty').map(match => match.file.path);
+    expect(paths).toEqual(['src/api/orders.ts']);
+  });
+
+  it('returns nothing for a description without search terms', () => {
+    expect(retrieveRelevantFiles(index, 'it is the')).toEqual([]);
+  });
+});
@@ -0,0 +1,182 @@
+import { RetrievedFile, SourceFile } from "../types";
+import { normalizePath } from "../utils/sourceFiles";
+
+export interface RetrievalOptions {
+  // Most files to pick by score; files they import can be added on top
+  limit?: number;
+  // Stop adding files once their contents reach this many characters
+  maxChars?: number;
+}
+
+interface IndexedFile {
+  file: SourceFile;
+  pathTerms: Set<string>;
+  termCounts: Map<string, number>;
+  length: number;
+}
+
+export interface RepoIndex {
+  files: IndexedFile[];
+  // How many files each term appears in
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+// Files this large are generated or vendored, not where a UI bug lives
+const MAX_INDEXED_CHARS = 200_000;
+
+const DEFAULT_LIMIT = 6;
+const DEFAULT_MAX_CHARS = 150_000;
+
+// Files scoring below this share of the best match are noise
+const MIN_RELATIVE_SCORE = 0.2;
+
+// BM25 parameters: term frequency saturation and length normalisation
+const K1 = 1.2;
+const B = 0.75;
+// A query term in the file's path says more than one in its contents
+const PATH_WEIGHT = 2;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'was', 'one', 'our', 'out', 'has', 'had',
+  'this', 'that', 'with', 'have', 'from', 'they', 'will', 'when', 'what', 'there', 'their', 'which', 'then',
+  'just', 'like', 'into', 'than', 'them', 'some', 'its', 'also', 'does', 'doesn', 'don', 'isn', 'it', 'is',
+  'on', 'in', 'to', 'of', 'at', 'be', 'an', 'or', 'if', 'so', 'as', 'by', 'my', 'me', 'we', 'do', 'no',
+  'import', 'export', 'const', 'let', 'var', 'return', 'function', 'default', 'class', 'new', 'true', 'false',
+  'null', 'undefined', 'px', 'div', 'span',
+]);
+
+// Plurals and the commonest verb endings, so "buttons" finds "button"
+const stem = (term: string) => term.length > 4 ? term.replace(/(ing|ed|es|s)$/, '') : term;
+
+/**
+ * Splits text into lower-case search terms, breaking up camelCase, snake_case and kebab-case.
+ */
+export const tokenize = (text: string): string[] =>
+  text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 1 && !STOPWORDS.has(term) && !/^\d+$/.test(term))
+    .map(stem);
+
+/**
+ * Indexes a repository's files for lexical search.
+ */
+export const buildRepoIndex = (files: SourceFile[]): RepoIndex => {
+  const documentFrequency = new Map<string, number>();
+  const indexed = files
+    .filter(file => file.content.length <= MAX_INDEXED_CHARS)
+    .map(file => {
+      const terms = tokenize(file.content);
+      const termCounts = new Map<string, number>();
+      terms.forEach(term => termCounts.set(term, (termCounts.get(term) || 0) + 1));
+      const pathTerms = new Set(tokenize(file.path));
+      new Set([...termCounts.keys(), ...pathTerms]).forEach(term => {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      });
+      return { file, pathTerms, termCounts, length: terms.length };
+    });
+
+  const totalLength = indexed.reduce((sum, file) => sum + file.length, 0);
+  return { files: indexed, documentFrequency, averageLength: totalLength / Math.max(1, indexed.length) };
+};
+
+// Relative imports, side-effect imports, require() calls, @import rules and <link>/<script> references
+const REFERENCE = /(?:from\s+|import\s*\(?\s*|require\(\s*|@import\s+(?:url\()?\s*|(?:href|src)\s*=\s*)["']([^"']+)["']/g;
+
+const STYLESHEET = /\.(css|scss|sass|less)$/i;
+
+const RESOLVE_SUFFIXES = ['', '.ts', '.tsx', '.js', '.jsx', '.css', '.scss', '/index.ts', '/index.tsx', '/index.js'];
+
+const resolveReference = (from: string, reference: string, paths: Set<string>): string | null => {
+  if (/^[a-z]+:|^\/\//i.test(reference) || !/^[./]/.test(reference)) return null;
+  const base = reference.startsWith('/') ? [] : normalizePath(from).split('/').slice(0, -1);
+  for (const segment of reference.split('/')) {
+    if (segment === '..') base.pop();
+    else if (segment && segment !== '.') base.push(segment);
+  }
+  const target = base.join('/');
+  return RESOLVE_SUFFIXES.map(suffix => target + suffix).find(candidate => paths.has(candidate)) || null;
+};
+
+const quoteTerms = (terms: string[]) => terms.map(term => `"${term}"`).join(', ');
+
+/**
+ * Ranks the indexed files against a description of the bug (what the user typed, the
+ * narration transcript or text from a screenshot) with BM25, weighting matches in the
+ * path. The best files are returned with the reasons they were picked, followed by
+ * local files they import, which often hold the styles or helpers behind the bug.
+ */
+export const retrieveRelevantFiles = (index: RepoIndex, query: string, options: RetrievalOptions = {}): RetrievedFile[] => {
+  const { limit = DEFAULT_LIMIT, maxChars = DEFAULT_MAX_CHARS } = options;
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || index.files.length === 0) return [];
+
+  const idf = (term: string) => {
+    const df = index.documentFrequency.get(term) || 0;
+    return Math.log(1 + (index.files.length - df + 0.5) / (df + 0.5));
+  };
+
+  const scored = index.files
+    .map(doc => {
+      let score = 0;
+      const pathMatches: string[] = [];
+      const contentMatches: Array<{ term: string; count: number; weight: number }> = [];
+      queryTerms.forEach(term => {
+        const weight = idf(term);
+        if (doc.pathTerms.has(term)) {
+          score += PATH_WEIGHT * weight;
+          pathMatches.push(term);
+        }
+        const count = doc.termCounts.get(term) || 0;
+        if (count > 0) {
+          const norm = count + K1 * (1 - B + B * doc.length / (index.averageLength || 1));
+          const contribution = weight * (count * (K1 + 1)) / norm;
+          score += contribution;
+          contentMatches.push({ term, count, weight: contribution });
+        }
+      });
+
+      const reasons: string[] = [];
+      if (pathMatches.length) reasons.push(`Path mentions ${quoteTerms(pathMatches)}`);
+      if (contentMatches.length) {
+        const top = contentMatches.sort((a, b) => b.weight - a.weight).slice(0, 4);
+        reasons.push(`Contains ${top.map(match => `"${match.term}" ×${match.count}`).join(', ')}`);
+      }
+      return { file: doc.file, score, reasons };
+    })
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  if (scored.length === 0) return [];
+  const threshold = scored[0].score * MIN_RELATIVE_SCORE;
+
+  const picked: RetrievedFile[] = [];
+  const pickedPaths = new Set<string>();
+  let chars = 0;
+  const add = (result: RetrievedFile) => {
+    if (pickedPaths.has(result.file.path) || chars + result.file.content.length > maxChars) return;
+    picked.push(result);
+    pickedPaths.add(result.file.path);
+    chars += result.file.content.length;
+  };
+
+  scored.filter(result => result.score >= threshold).slice(0, limit).forEach(add);
+
+  // Imports are followed to stylesheets, and to files that nearly made the cut on their own
+  const paths = new Map(index.files.map(doc => [normalizePath(doc.file.path), doc.file]));
+  const pathSet = new Set(paths.keys());
+  const scores = new Map(scored.map(result => [result.file, result]));
+  picked.slice().forEach(result => {
+    for (const match of result.file.content.matchAll(REFERENCE)) {
+      const target = resolveReference(result.file.path, match[1], pathSet);
+      const file = target ? paths.get(target) : undefined;
+      const own = file && scores.get(file);
+      if (!file || !(STYLESHEET.test(file.path) || (own && own.score >= threshold / 2))) continue;
+      add({ file, score: own?.score || 0, reasons: [`Imported by ${result.file.path}`, ...(own?.reasons || [])] });
+    }
+  });
+
+  return picked.map(result => ({ ...result, score: Math.round(result.score * 100) / 100 }));
+};
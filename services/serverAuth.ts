@@ -0,0 +1,31 @@
+const TOKEN_KEY = 'vibefix-api-token';
+
+const storedToken = (): string | null => {
+  try {
+    return localStorage.getItem(TOKEN_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const withToken = (init: RequestInit, token: string | null): RequestInit =>
+  token ? { ...init, headers: { ...init.headers as Record<string, string>, Authorization: `Bearer ${token}` } } : init;
+
+/**
+ * Fetches a route that acts with the server's credentials. The access token is kept in
+ * localStorage; when the server answers 401, the user is asked for it once and the
+ * request is sent again.
+ */
+export const fetchWithAccessToken = async (url: string, init: RequestInit): Promise<Response> => {
+  const response = await fetch(url, withToken(init, storedToken()));
+  if (response.status !== 401 || typeof window === 'undefined') return response;
+
+  const token = window.prompt("This VibeFix server needs its access token (VIBEFIX_API_TOKEN):")?.trim();
+  if (!token) return response;
+  try {
+    localStorage.setItem(TOKEN_KEY, token);
+  } catch {
+    // Private windows may refuse; the token is still used for this request
+  }
+  return fetch(url, withToken(init, token));
+};
@@ -0,0 +1,59 @@
+import { Session } from "../types";
+
+const DB_NAME = 'vibefix';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(new Error("Failed to open session storage: " + request.error?.message));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs a single request in its own transaction and resolves with its result
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new Error("Session storage request failed: " + request.error?.message));
+  });
+};
+
+/**
+ * Lists stored sessions, most recently updated first.
+ */
+export const listSessions = async (): Promise<Session[]> => {
+  const sessions = await run<Session[]>('readonly', store => store.index('updatedAt').getAll());
+  return sessions.reverse();
+};
+
+export const getSession = (id: string): Promise<Session | undefined> =>
+  run<Session | undefined>('readonly', store => store.get(id));
+
+export const saveSession = async (session: Session): Promise<void> => {
+  await run('readwrite', store => store.put(session));
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await run('readwrite', store => store.delete(id));
+};
+
+export const createSessionId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
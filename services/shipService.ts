@@ -0,0 +1,45 @@
+import { ShipEvent, ShipRequest, ShipResult } from "../types";
+import { readNdjson } from "../utils/ndjson";
+import { fetchWithAccessToken } from "./serverAuth";
+
+export interface ShippingBackend {
+  ship(request: ShipRequest, onLog: (message: string) => void): Promise<ShipResult>;
+}
+
+/**
+ * Ships through the VibeFix server (`npm run server`), which runs git and calls the GitHub API.
+ * The server decides which repository and API it talks to, so it can be pointed at a
+ * local bare repo and a mock GitHub server for testing.
+ */
+export const createHttpShippingBackend = (endpoint = '/api/ship'): ShippingBackend => ({
+  ship: async (request, onLog) => {
+    const response = await fetchWithAccessToken(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      const payload = await response.json().catch(() => ({}));
+      throw new Error(payload.error || `Shipping server returned ${response.status}.`);
+    }
+
+    let result: ShipResult | null = null;
+    let failure: string | null = null;
+    await readNdjson<ShipEvent>(response, event => {
+      if (event.type === 'log') {
+        onLog(event.message);
+      } else if (event.type === 'done') {
+        result = { branch: event.branch, pullRequestUrl: event.pullRequestUrl, pullRequestNumber: event.pullRequestNumber };
+      } else {
+        failure = event.message;
+      }
+    });
+
+    if (failure) throw new Error(failure);
+    if (!result) throw new Error("Shipping server closed the stream without a result.");
+    return result;
+  },
+});
+
+export const defaultShippingBackend = createHttpShippingBackend();
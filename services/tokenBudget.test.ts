@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { BugReport, ChatEntry, SourceFile } from '../types';
+import { getModelOption } from './models';
+import {
+  BudgetRequest, checkBudget, estimateCost, estimateRequest, estimateTokens, formatCost, formatTokens, trimToBudget,
+  VIDEO_TOKENS_PER_SECOND,
+} from './tokenBudget';
+
+// qwen2.5-coder has a 32,768-token window, small enough to fill in a test
+const SMALL_MODEL = 'qwen2.5-coder';
+
+const report = (revision: number, size: number): BugReport => ({
+  bug_summary: `Revision ${revision}`,
+  user_sentiment: 'Frustrated',
+  explanation: 'x'.repeat(size),
+  edits: [],
+});
+
+const request = (overrides: Partial<BudgetRequest> = {}): BudgetRequest => ({
+  codeContext: [{ path: 'src/a.ts', content: 'export const a = 1;\n' }],
+  history: [],
+  videoSeconds: null,
+  imageCount: 0,
+  logs: [],
+  ...overrides,
+});
+
+// The first request, then `rounds` reports each followed by the feedback on it
+const conversation = (rounds: number, reportSize: number): ChatEntry[] => [
+  { role: 'user', content: 'Analyze this code.', timestamp: 0 },
+  ...Array.from({ length: rounds }, (_, i): ChatEntry[] => [
+    { role: 'model', content: report(i + 1, reportSize), timestamp: 0 },
+    { role: 'user', content: `Feedback on revision ${i + 1}`, timestamp: 0 },
+  ]).flat(),
+];
+
+describe('estimateRequest', () => {
+  it('adds up the code, the recording, the images and the prompt', () => {
+    const estimate = estimateRequest(request({ videoSeconds: 10, imageCount: 2 }), getModelOption('gemini-2.5-flash'));
+    expect(estimate.video).toBe(10 * VIDEO_TOKENS_PER_SECOND);
+    expect(estimate.images).toBe(3000);
+    expect(estimate.input).toBe(estimate.code + estimate.video + estimate.images + estimate.logs + estimate.history + estimate.prompt);
+  });
+
+  it("doesn't count the recording for models that don't watch it", () => {
+    expect(estimateRequest(request({ videoSeconds: 10 }), getModelOption('claude-sonnet-4-5')).video).toBe(0);
+  });
+});
+
+describe('checkBudget', () => {
+  it('says by how much a request is over the context window', () => {
+    const big: SourceFile = { path: 'big.ts', content: 'x'.repeat(200_000) };
+    const check = checkBudget(request({ codeContext: [big] }), SMALL_MODEL);
+    expect(check.limit).toBe(32_768 - check.estimate.output);
+    expect(check.overBy).toBe(check.estimate.input - check.limit!);
+    expect(checkBudget(request(), SMALL_MODEL).overBy).toBe(0);
+  });
+});
+
+describe('estimateCost', () => {
+  it('uses list prices per million tokens, and local models are free', () => {
+    expect(estimateCost('claude-sonnet-4-5', { inputTokens: 1_000_000, outputTokens: 100_000 })).toBeCloseTo(4.5);
+    expect(estimateCost(SMALL_MODEL, { inputTokens: 1000, outputTokens: 1000 })).toBe(0);
+    expect(estimateCost('some-custom-model', { inputTokens: 1000, outputTokens: 1000 })).toBeNull();
+  });
+});
+
+describe('trimToBudget', () => {
+  it('leaves a request that fits alone', () => {
+    const history = conversation(2, 100);
+    expect(trimToBudget(request({ history }), SMALL_MODEL)).toEqual({
+      codeContext: request().codeContext, history, removedFiles: [], removedMessages: 0,
+    });
+  });
+
+  it('drops the oldest reports together with the feedback on them', () => {
+    // Each report takes about 7k tokens, so five of them don't fit
+    const history = conversation(5, 25_000);
+    const { history: trimmed, removedMessages } = trimToBudget(request({ history }), SMALL_MODEL);
+
+    expect(checkBudget(request({ history: trimmed }), SMALL_MODEL).overBy).toBe(0);
+    expect(removedMessages).toBe(history.length - trimmed.length);
+    expect(removedMessages % 2).toBe(0);
+    // The first request and the latest rounds are kept, in turns that still alternate
+    expect(trimmed[0]).toBe(history[0]);
+    expect(trimmed.slice(-2)).toEqual(history.slice(-2));
+    expect(trimmed.map(entry => entry.role)).toEqual(trimmed.map((_, i) => (i % 2 ? 'model' : 'user')));
+    // Every feedback still follows the report it was written on
+    for (let i = 2; i < trimmed.length; i += 2) {
+      expect(trimmed[i].content).toBe(`Feedback on ${(trimmed[i - 1].content as BugReport).bug_summary.toLowerCase()}`);
+    }
+  });
+
+  it('keeps the latest report even when it is too large alone', () => {
+    const history = conversation(2, 150_000);
+    const { history: trimmed, removedMessages } = trimToBudget(request({ history }), SMALL_MODEL);
+    expect(trimmed).toEqual([history[0], ...history.slice(-2)]);
+    expect(removedMessages).toBe(2);
+  });
+
+  it('then leaves out the largest files, unless told not to', () => {
+    const codeContext: SourceFile[] = [
+      { path: 'small.ts', content: 'x'.repeat(1000) },
+      { path: 'large.ts', content: 'x'.repeat(90_000) },
+      { path: 'medium.ts', content: 'x'.repeat(50_000) },
+    ];
+    const trimmed = trimToBudget(request({ codeContext }), SMALL_MODEL);
+    expect(trimmed.removedFiles).toEqual(['large.ts']);
+    expect(trimmed.codeContext.map(file => file.path)).toEqual(['small.ts', 'medium.ts']);
+    expect(trimToBudget(request({ codeContext }), SMALL_MODEL, { trimFiles: false }).removedFiles).toEqual([]);
+  });
+});
+
+describe('formatting', () => {
+  it('shortens token counts and prices', () => {
+    expect(estimateTokens('abcdefg')).toBe(2);
+    expect([formatTokens(950), formatTokens(12_345), formatTokens(1_500_000)]).toEqual(['950', '12.3k', '1.5M']);
+    expect([formatCost(null), formatCost(0), formatCost(0.004), formatCost(1.234)]).toEqual(['unknown', 'free', '<$0.01', '$1.23']);
+  });
+});
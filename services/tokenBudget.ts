@@ -0,0 +1,158 @@
+import { ChatEntry, LogEvidence, SourceFile, TokenUsage } from "../types";
+import { formatLogSections } from "../utils/logs";
+import { getModelOption, ModelOption } from "./models";
+
+// Code and JSON average a little under four characters per token across tokenizers
+const CHARS_PER_TOKEN = 3.5;
+
+// Gemini samples video at one frame per second: 258 tokens per frame plus 32 for the audio
+export const VIDEO_TOKENS_PER_SECOND = 290;
+
+// A full-HD screenshot: six 768px tiles of 258 tokens for Gemini, and about as much for Claude and GPT-4o
+export const TOKENS_PER_IMAGE = 1500;
+
+// System instruction, response schema and the prompt's own wording
+const PROMPT_OVERHEAD_TOKENS = 2500;
+
+// The answer repeats each edited file in full, plus the explanation and a regression test
+const ANSWER_OVERHEAD_TOKENS = 1000;
+
+export interface TokenEstimate {
+  code: number;
+  video: number;
+  images: number;
+  logs: number;
+  history: number;
+  prompt: number;
+  // Everything sent
+  input: number;
+  // What the answer will probably take
+  output: number;
+}
+
+export interface BudgetCheck {
+  estimate: TokenEstimate;
+  // Input tokens the model accepts, leaving room for the answer; null when unknown
+  limit: number | null;
+  // By how many tokens the request is too large; 0 when it fits
+  overBy: number;
+  // Estimated price of one request, in US dollars; null when the model's pricing is unknown
+  costUsd: number | null;
+}
+
+export interface BudgetRequest {
+  codeContext: SourceFile[];
+  history: ChatEntry[];
+  // Length of the recording; null when there is none or it isn't known
+  videoSeconds: number | null;
+  imageCount: number;
+  logs: LogEvidence[];
+}
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+// Only Gemini watches the video; other providers get the code alone
+const watchesVideo = (model: ModelOption) => model.provider === 'gemini' || model.provider === 'mock';
+
+const historyText = (history: ChatEntry[]) =>
+  history.map(entry => (typeof entry.content === 'string' ? entry.content : JSON.stringify(entry.content))).join('\n');
+
+/**
+ * Estimates the tokens a request will take, from the size of the code, the length of
+ * the recording, the number of screenshots, the logs and the conversation so far.
+ */
+export const estimateRequest = ({ codeContext, history, videoSeconds, imageCount, logs }: BudgetRequest, model: ModelOption): TokenEstimate => {
+  const code = codeContext.reduce((sum, file) => sum + estimateTokens(file.path) + estimateTokens(file.content) + 10, 0);
+  const video = videoSeconds && watchesVideo(model) ? Math.ceil(videoSeconds * VIDEO_TOKENS_PER_SECOND) : 0;
+  const images = imageCount * TOKENS_PER_IMAGE;
+  const logTokens = logs.length ? estimateTokens(formatLogSections(logs, codeContext)) : 0;
+  const historyTokens = estimateTokens(historyText(history));
+  const largestFile = Math.max(0, ...codeContext.map(file => estimateTokens(file.content)));
+  return {
+    code,
+    video,
+    images,
+    logs: logTokens,
+    history: historyTokens,
+    prompt: PROMPT_OVERHEAD_TOKENS,
+    input: code + video + images + logTokens + historyTokens + PROMPT_OVERHEAD_TOKENS,
+    output: largestFile + ANSWER_OVERHEAD_TOKENS,
+  };
+};
+
+/**
+ * What the usage costs at the model's list prices, or null when they aren't known.
+ */
+export const estimateCost = (modelId: string, { inputTokens, outputTokens }: TokenUsage): number | null => {
+  const { pricing, provider } = getModelOption(modelId);
+  // Local servers and the mock cost nothing
+  if (!pricing) return provider === 'ollama' || provider === 'llamacpp' || provider === 'mock' ? 0 : null;
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+};
+
+export const checkBudget = (request: BudgetRequest, modelId: string): BudgetCheck => {
+  const model = getModelOption(modelId);
+  const estimate = estimateRequest(request, model);
+  const limit = model.contextWindow ? model.contextWindow - estimate.output : null;
+  return {
+    estimate,
+    limit,
+    overBy: limit === null ? 0 : Math.max(0, estimate.input - limit),
+    costUsd: estimateCost(model.id, { inputTokens: estimate.input, outputTokens: estimate.output }),
+  };
+};
+
+/**
+ * The history without its oldest exchange after the first request: a report and the
+ * feedback written on it. What is left still alternates, and every feedback keeps the
+ * report it refers to. Null when only the latest report is left.
+ */
+const dropOldestExchange = (history: ChatEntry[]): ChatEntry[] | null => {
+  const next = history.findIndex((entry, index) => index > 1 && entry.role === 'model');
+  return next === -1 ? null : [history[0], ...history.slice(next)];
+};
+
+export interface TrimResult {
+  codeContext: SourceFile[];
+  history: ChatEntry[];
+  // Paths of the files left out, and how many messages were dropped
+  removedFiles: string[];
+  removedMessages: number;
+}
+
+/**
+ * Shrinks a request until it fits the model: older refinement rounds go first, a report
+ * with its feedback at a time (the first request and the latest report are kept), then, unless `trimFiles` is off, the
+ * largest files. Returns the request unchanged when it already fits; it may still be too
+ * large if the recording alone is.
+ */
+export const trimToBudget = (request: BudgetRequest, modelId: string, { trimFiles = true } = {}): TrimResult => {
+  let { codeContext, history } = request;
+  const removedFiles: string[] = [];
+  let removedMessages = 0;
+  const overBy = () => checkBudget({ ...request, codeContext, history }, modelId).overBy;
+
+  while (overBy() > 0) {
+    const trimmed = dropOldestExchange(history);
+    if (!trimmed) break;
+    removedMessages += history.length - trimmed.length;
+    history = trimmed;
+  }
+
+  while (trimFiles && overBy() > 0 && codeContext.length > 1) {
+    const largest = codeContext.reduce((max, file) => (file.content.length > max.content.length ? file : max));
+    codeContext = codeContext.filter(file => file !== largest);
+    removedFiles.push(largest.path);
+  }
+
+  return { codeContext, history, removedFiles, removedMessages };
+};
+
+export const formatTokens = (tokens: number): string =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+export const formatCost = (usd: number | null): string => {
+  if (usd === null) return 'unknown';
+  if (usd === 0) return 'free';
+  return usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+};
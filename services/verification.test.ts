@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { FileEdit, SourceFile } from '../types';
+import { formatIssues, verifyEdits } from './verification';
+
+const edit = (file_to_edit: string, code_patch: string): FileEdit => ({ file_to_edit, code_patch, explanation: '' });
+
+describe('verifyEdits', () => {
+  it('passes edits that parse', async () => {
+    const files: SourceFile[] = [{ path: 'src/App.tsx', content: 'export const App = () => <div />;\n' }];
+    const result = await verifyEdits(files, [
+      edit('src/App.tsx', 'export const App = () => <div className="fixed" />;\n'),
+      edit('src/app.css', '.a { color: black; }\n'),
+      edit('package.json', '{ "name": "shop" }'),
+    ]);
+    expect(result).toEqual({ status: 'passed', checkedFiles: ['src/App.tsx', 'src/app.css', 'package.json'], issues: [], repairRounds: 0 });
+  });
+
+  it('reports syntax errors with the file and line', async () => {
+    const result = await verifyEdits([], [
+      edit('src/util.ts', 'export const a = 1;\nexport const b = (;\n'),
+      edit('src/app.css', '.a {\n  color black;\n}\n'),
+    ]);
+    expect(result.status).toBe('failed');
+    expect(result.issues.map(issue => `${issue.path}:${issue.line}`)).toEqual(['src/util.ts:2', 'src/app.css:2']);
+    expect(result.issues[1].message).toBe('Declaration "color black" is missing a colon.');
+  });
+
+  it('parses JSX in plain .js files', async () => {
+    const result = await verifyEdits([], [edit('src/Button.js', 'export default () => <button>Buy</button>;\n')]);
+    expect(result.status).toBe('passed');
+  });
+
+  it('checks inline scripts and styles at their line in the page', async () => {
+    const page = '<html>\n<body>\n<script>\nconst a = ;\n</script>\n<div>\n</body>\n</html>\n';
+    const { issues } = await verifyEdits([], [edit('index.html', page)]);
+    expect(issues.map(issue => [issue.line, issue.message])).toEqual([
+      [4, 'Expression expected.'],
+      [6, '<div> is not closed before </body>.'],
+    ]);
+  });
+
+  it("doesn't blame the patch for problems the file already had", async () => {
+    const broken = '.a { color: red;\n';
+    const result = await verifyEdits([{ path: 'a.css', content: broken }], [edit('a.css', '.a { color: blue;\n')]);
+    expect(result.status).toBe('passed');
+  });
+
+  it('skips files it has no checker for', async () => {
+    const result = await verifyEdits([], [edit('README.md', '# Shop')]);
+    expect(result).toMatchObject({ status: 'skipped', checkedFiles: [] });
+  });
+});
+
+describe('formatIssues', () => {
+  it('lists each issue with its location', () => {
+    expect(formatIssues([
+      { path: 'a.css', line: 2, message: 'Unexpected "}".' },
+      { path: 'b.json', line: null, message: 'Bad JSON' },
+    ])).toBe('- a.css:2: Unexpected "}".\n- b.json: Bad JSON');
+  });
+});
@@ -0,0 +1,89 @@
+import { FileEdit, SourceFile, VerificationIssue, VerificationResult } from "../types";
+import { applyEdits, findSourceFile } from "../utils/sourceFiles";
+import { checkCss, checkHtml, SyntaxIssue } from "../utils/syntax";
+
+type Checker = (path: string, content: string) => Promise<SyntaxIssue[]>;
+
+// The compiler is large, so it is only loaded once there is a script to check
+let typescript: Promise<typeof import("typescript")> | null = null;
+const loadTypeScript = () => (typescript ??= import("typescript").then(module => (module as any).default ?? module));
+
+const checkScript: Checker = async (path, content) => {
+  const ts = await loadTypeScript();
+  // Plain .js files get JSX parsing too, as many React projects use it there
+  const fileName = /\.(c|m)?js$/i.test(path) ? path.replace(/\.(c|m)?js$/i, '.jsx') : path;
+  const { diagnostics = [] } = ts.transpileModule(content, {
+    fileName,
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.Preserve, target: ts.ScriptTarget.ESNext, module: ts.ModuleKind.ESNext },
+  });
+  return diagnostics
+    .filter(d => d.category === ts.DiagnosticCategory.Error)
+    .map(d => ({
+      line: d.file && d.start !== undefined ? d.file.getLineAndCharacterOfPosition(d.start).line + 1 : 0,
+      message: ts.flattenDiagnosticMessageText(d.messageText, '\n'),
+    }));
+};
+
+const checkStylesheet: Checker = async (_path, content) => checkCss(content);
+
+const checkJson: Checker = async (_path, content) => {
+  try {
+    JSON.parse(content);
+    return [];
+  } catch (e: any) {
+    return [{ line: 0, message: e.message }];
+  }
+};
+
+// Inline <style> and <script> blocks are checked too, with lines relative to the page
+const checkPage: Checker = async (path, content) => {
+  const { issues, embedded } = checkHtml(content);
+  for (const block of embedded) {
+    const blockIssues = block.kind === 'style' ? checkCss(block.content) : await checkScript(`${path}.inline.js`, block.content);
+    issues.push(...blockIssues.map(issue => ({ ...issue, line: issue.line + block.line - 1 })));
+  }
+  return issues.sort((a, b) => a.line - b.line);
+};
+
+const CHECKERS: Array<[RegExp, Checker]> = [
+  [/\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/i, checkScript],
+  [/\.css$/i, checkStylesheet],
+  [/\.html?$/i, checkPage],
+  [/\.json$/i, checkJson],
+];
+
+const checkerFor = (path: string) => CHECKERS.find(([pattern]) => pattern.test(path))?.[1];
+
+/**
+ * Applies the edits to the submitted files and checks the syntax of every edited file.
+ * Problems that were already in the submitted version of a file aren't blamed on the patch.
+ */
+export const verifyEdits = async (files: SourceFile[], edits: FileEdit[]): Promise<VerificationResult> => {
+  const patched = applyEdits(files, edits);
+  const issues: VerificationIssue[] = [];
+  const checkedFiles: string[] = [];
+
+  for (const edit of edits) {
+    const checker = checkerFor(edit.file_to_edit);
+    const file = findSourceFile(edit.file_to_edit, patched);
+    if (!checker || !file) continue;
+    checkedFiles.push(file.path);
+
+    const original = findSourceFile(edit.file_to_edit, files);
+    const existing = new Set(original ? (await checker(original.path, original.content)).map(issue => issue.message) : []);
+    (await checker(file.path, file.content))
+      .filter(issue => !existing.has(issue.message))
+      .forEach(issue => issues.push({ path: file.path, line: issue.line || null, message: issue.message }));
+  }
+
+  return {
+    status: checkedFiles.length === 0 ? 'skipped' : issues.length > 0 ? 'failed' : 'passed',
+    checkedFiles,
+    issues,
+    repairRounds: 0,
+  };
+};
+
+export const formatIssues = (issues: VerificationIssue[]): string =>
+  issues.map(issue => `- ${issue.path}${issue.line ? `:${issue.line}` : ''}: ${issue.message}`).join('\n');
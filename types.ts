@@ -1,26 +1,352 @@
+export interface SourceFile {
+  path: string;
+  content: string;
+  // Set when the file was picked from a repository: why it looked relevant to the bug
+  reasons?: string[];
+}
+
+// A file picked from a repository for the bug, and why
+export interface RetrievedFile {
+  file: SourceFile;
+  score: number;
+  reasons: string[];
+}
+
+// Body of POST /api/repo/search: a repository on the server's disk and a description of the bug
+export interface RepoSearchRequest {
+  root: string;
+  query: string;
+  limit?: number;
+}
+
+export interface RepoSearchResult {
+  indexedFiles: number;
+  matches: RetrievedFile[];
+}
+
+// 1-based and inclusive
+export interface LineRange {
+  start_line: number;
+  end_line: number;
+}
+
+export interface FileEdit {
+  file_to_edit: string;
+  explanation: string;
+  code_patch: string;
+  // The lines of the submitted file the edit changes; for a new file, all of it
+  line_range?: LineRange;
+}
+
+export type RootCauseCategory =
+  | 'layout'
+  | 'styling'
+  | 'state'
+  | 'async'
+  | 'logic'
+  | 'data'
+  | 'accessibility'
+  | 'performance'
+  | 'other';
+
+export type Severity = 'critical' | 'high' | 'medium' | 'low';
+
+// Tokens billed for one request
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// What producing a report took, over every request: format retries, repair rounds and fallbacks included
+export interface UsageRecord extends TokenUsage {
+  requests: number;
+  // The model that answered last; a fallback when the selected model failed
+  model: string;
+  // Null when the price of a model that answered isn't known
+  costUsd: number | null;
+  // Some provider didn't report usage, so part of the counts is estimated from the text
+  estimated: boolean;
+}
+
+// A stretch of the recording where the bug is visible, in seconds from the start
+export interface VideoEvidence {
+  start_seconds: number;
+  end_seconds: number;
+  description: string;
+}
+
+// A box or an arrow drawn on a screenshot, in fractions of its width and height
+export interface ImageAnnotation {
+  kind: 'box' | 'arrow';
+  // The corner the drag started at, or the arrow's tail
+  x1: number;
+  y1: number;
+  // The opposite corner, or the arrow's head
+  x2: number;
+  y2: number;
+}
+
+// A screenshot being prepared for analysis; the annotations are drawn in when it is sent
+export interface EvidenceImage {
+  id: string;
+  file: Blob;
+  name: string;
+  label: string;
+  annotations: ImageAnnotation[];
+}
+
+// A screenshot as sent to the model, with its annotations drawn in
+export interface ImageEvidence {
+  name: string;
+  // What the image shows, e.g. "Expected" or "Actual", so the prompt can tell the images apart
+  label: string;
+  mimeType: string;
+  // Base64 without the data: prefix
+  data: string;
+  // Whether boxes or arrows were drawn on it
+  annotated: boolean;
+}
+
+// One frame of a stack trace, as written in it
+export interface StackFrame {
+  functionName: string | null;
+  // The URL or path the trace names
+  location: string;
+  line: number;
+  column: number | null;
+}
+
+// A request from a HAR file that failed, with what the server answered
+export interface FailedRequest {
+  method: string;
+  url: string;
+  // 0 when the request never got an answer (blocked, CORS, offline)
+  status: number;
+  statusText: string;
+  mimeType: string | null;
+  // The start of the response body, when the HAR recorded it as text
+  body: string | null;
+  timeMs: number | null;
+}
+
+// Text evidence pasted or attached next to the recording, parsed where it has structure
+export type LogEvidence =
+  | { kind: 'console'; id: string; name: string; text: string; frames: StackFrame[] }
+  | { kind: 'stack'; id: string; name: string; text: string; frames: StackFrame[] }
+  | { kind: 'har'; id: string; name: string; totalRequests: number; failed: FailedRequest[] };
+
+export type TestFramework = 'vitest' | 'jest' | 'playwright';
+
+// A test that fails before the fix and passes after it; shipped as a new file with the patch
+export interface RegressionTest {
+  framework: TestFramework;
+  file_path: string;
+  explanation: string;
+  code: string;
+}
+
+export interface VerificationIssue {
+  path: string;
+  line: number | null;
+  message: string;
+}
+
+// Outcome of checking the patched files' syntax after the model answered
+export interface VerificationResult {
+  // 'skipped' when no edited file is in a language VibeFix can check
+  status: 'passed' | 'failed' | 'skipped';
+  checkedFiles: string[];
+  issues: VerificationIssue[];
+  // How many times the errors were sent back to the model before this result
+  repairRounds: number;
+}
+
 export interface BugReport {
   bug_summary: string;
   user_sentiment: string;
-  file_to_edit: string;
   explanation: string;
-  code_patch: string;
+  edits: FileEdit[];
+  // Only present when a video was analysed
+  evidence?: VideoEvidence[];
+  regression_test?: RegressionTest;
+  // Triage: what kind of defect it is, how bad, and how sure the model is that the edits fix it (0 to 1)
+  root_cause?: RootCauseCategory;
+  severity?: Severity;
+  confidence?: number;
+  // Added by VibeFix, not by the model
+  verification?: VerificationResult;
+  // Added by VibeFix from the providers' usage metadata
+  usage?: UsageRecord;
+}
+
+// How a candidate fix approaches the bug; 'direct' is the plain analysis
+export type FixStrategy = 'direct' | 'minimal' | 'root-cause' | 'defensive';
+
+// One of several alternative fixes generated for the same input
+export interface Candidate {
+  id: string;
+  model: string;
+  strategy: FixStrategy;
+  report: BugReport;
+  // Lines added plus lines removed by the edits, the regression test left out
+  changedLines: number;
 }
 
 export interface ChatEntry {
   role: 'user' | 'model';
   content: string | BugReport;
   timestamp: number;
+  // Feedback only: the revision it was written against, counting the model's reports from 1.
+  // Missing means the report just before it; an older one starts a branch from there.
+  refines?: number;
+}
+
+// What kind of failure an analysis ended in, so the UI can say what to do about it
+export type ErrorCategory =
+  | 'quota'
+  | 'auth'
+  | 'model-not-found'
+  | 'invalid-input'
+  | 'parse-failure'
+  | 'invalid-response'
+  | 'network'
+  | 'server'
+  | 'unknown';
+
+export interface AnalysisErrorInfo {
+  message: string;
+  category: ErrorCategory;
+  // HTTP status from the provider, when there was one
+  status?: number;
+  // How long the provider asked us to wait before trying again
+  retryAfterMs?: number;
 }
 
 export interface AnalysisState {
   isLoading: boolean;
-  error: string | null;
+  error: AnalysisErrorInfo | null;
   history: ChatEntry[];
   latestReport: BugReport | null;
+  // Report as streamed so far while a request is running
+  partialReport: Partial<BugReport> | null;
+}
+
+// A recording uploaded to the provider's file store, referenced by URI instead of being re-sent
+export interface UploadedMedia {
+  uri: string;
+  name: string;
+  mimeType: string;
+  // Uploaded files are deleted by the provider after a while (48 hours for Gemini)
+  expiresAt: number | null;
+}
+
+// The system instruction, recording and code held by the provider, so later requests in a session
+// reference them instead of sending them again
+export interface CachedContext {
+  name: string;
+  // Caches belong to one model
+  model: string;
+  // Identifies what was cached; a different recording or set of files needs a new cache
+  key: string;
+  expiresAt: number | null;
+}
+
+// Body of POST /api/analyze: the arguments of analyzeBug, with the recording uploaded separately
+export interface AnalyzeRequest {
+  // Returned by POST /api/videos; null when there is no recording to send
+  videoId: string | null;
+  codeContext: SourceFile[];
+  history: ChatEntry[];
+  modelName: string;
+  uploadedVideo: UploadedMedia | null;
+  contextCache: CachedContext | null;
+  strategy?: FixStrategy;
+  maxRepairRounds?: number;
+  images?: ImageEvidence[];
+  logs?: LogEvidence[];
+}
+
+// Progress streamed from the analysis server, one event per line
+export type AnalyzeEvent =
+  | { type: 'partial'; report: Partial<BugReport> }
+  | { type: 'status'; message: string | null }
+  | { type: 'uploaded'; media: UploadedMedia }
+  | { type: 'cached'; cache: CachedContext }
+  | { type: 'done'; report: BugReport }
+  | { type: 'error'; error: AnalysisErrorInfo };
+
+export interface VideoMetadata {
+  name: string;
+  size: number;
+  type: string;
+  // Seconds, when the browser could read it
+  duration?: number;
+  uploaded?: UploadedMedia;
+}
+
+// A bug analysis persisted in IndexedDB so it survives resets and page reloads
+export interface Session {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  modelName: string;
+  codeContext: SourceFile[];
+  // The recording itself is not stored, only what it was
+  video: VideoMetadata | null;
+  // Screenshots are small enough to keep, so refinements of a reopened session still see them
+  images?: ImageEvidence[];
+  logs?: LogEvidence[];
+  history: ChatEntry[];
+  // Every report the model produced, oldest first
+  revisions: BugReport[];
+  // Reused by refinements until the provider expires it
+  contextCache?: CachedContext;
+  // The alternatives generated alongside the first report, best first
+  candidates?: Candidate[];
 }
 
 export enum Step {
   UPLOAD = 'UPLOAD',
   ANALYZING = 'ANALYZING',
   RESULTS = 'RESULTS'
-}
\ No newline at end of file
+}
+
+export interface ShipRequest {
+  bug_summary: string;
+  explanation: string;
+  patch: string;
+}
+
+export interface ShipResult {
+  branch: string;
+  pullRequestUrl: string;
+  pullRequestNumber: number;
+}
+
+// Progress streamed from the shipping backend, one event per line
+export type ShipEvent =
+  | { type: 'log'; message: string }
+  | ({ type: 'done' } & ShipResult)
+  | { type: 'error'; message: string };
+
+// A GitHub issue in Markdown, a Jira issue payload or a standalone HTML report
+export type ExportFormat = 'github' | 'jira' | 'html';
+
+// A session written out in one export format
+export interface ExportDocument {
+  format: ExportFormat;
+  title: string;
+  // Markdown issue body, Jira payload JSON or the HTML page
+  content: string;
+  filename: string;
+  mimeType: string;
+}
+
+export type ExportRequest = Pick<ExportDocument, 'format' | 'title' | 'content'>;
+
+export interface ExportResult {
+  // Where the issue or report can be viewed, when the endpoint says
+  url: string | null;
+  // e.g. the issue number or Jira key
+  id: string | null;
+}
@@ -0,0 +1,15 @@
+/**
+ * Resolves after `ms`, or rejects with the signal's reason as soon as it aborts.
+ */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+export const isAbortError = (error: any): boolean =>
+  error?.name === 'AbortError' || (error instanceof DOMException && error.name === 'AbortError');
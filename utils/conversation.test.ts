@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { BugReport, ChatEntry } from '../types';
+import { conversationPath, revisionIndices, revisionsOf } from './conversation';
+
+const report = (summary: string): BugReport => ({ bug_summary: summary, user_sentiment: '', explanation: '', edits: [] });
+
+const user = (content: string, refines?: number): ChatEntry => ({ role: 'user', content, timestamp: 0, refines });
+const model = (summary: string): ChatEntry => ({ role: 'model', content: report(summary), timestamp: 0 });
+
+const summaries = (path: ChatEntry[]) =>
+  path.map(entry => (typeof entry.content === 'string' ? entry.content : entry.content.bug_summary));
+
+describe('revisionIndices', () => {
+  it('finds each report, skipping plain-text model messages', () => {
+    const history = [user('Analyze'), model('r1'), user('f1'), { role: 'model', content: 'Cancelled', timestamp: 0 } as ChatEntry, model('r2')];
+    expect(revisionIndices(history)).toEqual([1, 4]);
+    expect(revisionsOf(history).map(r => r.bug_summary)).toEqual(['r1', 'r2']);
+  });
+});
+
+describe('conversationPath', () => {
+  it('returns a conversation without branches as it is', () => {
+    const history = [user('Analyze'), model('r1'), user('f1'), model('r2'), user('f2')];
+    expect(conversationPath(history)).toEqual(history);
+  });
+
+  it('follows feedback on an older revision back to that revision', () => {
+    const history = [
+      user('Analyze'), model('r1'),
+      user('f1', 1), model('r2'),
+      user('f2', 2), model('r3'),
+      // Back to revision 1: r2 and r3 and the feedback that led to them are another branch
+      user('try again from r1', 1), model('r4'),
+    ];
+    expect(summaries(conversationPath(history))).toEqual(['Analyze', 'r1', 'try again from r1', 'r4']);
+  });
+
+  it('keeps the branch a later round continues from', () => {
+    const history = [
+      user('Analyze'), model('r1'),
+      user('f1', 1), model('r2'),
+      user('back to r1', 1), model('r3'),
+      user('back to r2', 2),
+    ];
+    expect(summaries(conversationPath(history))).toEqual(['Analyze', 'r1', 'f1', 'r2', 'back to r2']);
+  });
+
+  it('is empty for an empty history', () => {
+    expect(conversationPath([])).toEqual([]);
+  });
+});
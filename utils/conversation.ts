@@ -0,0 +1,30 @@
+import { BugReport, ChatEntry } from '../types';
+
+const isRevision = (entry: ChatEntry): entry is ChatEntry & { content: BugReport } =>
+  entry.role === 'model' && typeof entry.content !== 'string';
+
+// Where each revision sits in the history; revision n is at index n - 1
+export const revisionIndices = (history: ChatEntry[]): number[] =>
+  history.flatMap((entry, index) => (isRevision(entry) ? [index] : []));
+
+export const revisionsOf = (history: ChatEntry[]): BugReport[] =>
+  history.filter(isRevision).map(entry => entry.content);
+
+/**
+ * The branch of the conversation that leads to the last entry, oldest first. The history
+ * keeps every branch in the order it was written; a feedback entry that refines an older
+ * revision continues from that revision, so the answers written after it are left out.
+ */
+export const conversationPath = (history: ChatEntry[]): ChatEntry[] => {
+  const revisions = revisionIndices(history);
+  const path: ChatEntry[] = [];
+  let index = history.length - 1;
+  while (index >= 0) {
+    const entry = history[index];
+    path.unshift(entry);
+    const target = entry.role === 'user' && entry.refines ? revisions[entry.refines - 1] : undefined;
+    // Each answer follows the feedback it answers, so everything else is found by stepping back
+    index = target !== undefined && target < index ? target : index - 1;
+  }
+  return path;
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { buildHunks, changedLineRange, createEditsPatch, createUnifiedPatch, diffLines } from './diff';
+
+describe('diffLines', () => {
+  it('marks kept, removed and added lines with their numbers', () => {
+    expect(diffLines('a\nb\nc\n', 'a\nx\nc\n')).toEqual([
+      { type: 'context', text: 'a', oldLine: 1, newLine: 1 },
+      { type: 'remove', text: 'b', oldLine: 2, newLine: undefined },
+      { type: 'add', text: 'x', oldLine: undefined, newLine: 2 },
+      { type: 'context', text: 'c', oldLine: 3, newLine: 3 },
+    ]);
+  });
+
+  it('finds the shortest edit script', () => {
+    const lines = diffLines('a\nb\nc\nd\n', 'b\nc\nd\ne\n');
+    expect(lines.filter(line => line.type !== 'context').map(line => `${line.type} ${line.text}`)).toEqual(['remove a', 'add e']);
+  });
+
+  it('flags a last line without a newline', () => {
+    expect(diffLines('a', 'a\n')).toEqual([
+      { type: 'remove', text: 'a', oldLine: 1, newLine: undefined, noNewline: true },
+      { type: 'add', text: 'a', oldLine: undefined, newLine: 1 },
+    ]);
+  });
+});
+
+describe('buildHunks', () => {
+  const oldText = Array.from({ length: 20 }, (_, i) => `line ${i + 1}\n`).join('');
+
+  it('splits changes that are far apart', () => {
+    const newText = oldText.replace('line 2\n', 'two\n').replace('line 18\n', 'eighteen\n');
+    expect(buildHunks(diffLines(oldText, newText)).map(h => [h.oldStart, h.oldLines])).toEqual([[1, 5], [15, 6]]);
+  });
+
+  it('merges changes within two context windows', () => {
+    const newText = oldText.replace('line 2\n', 'two\n').replace('line 8\n', 'eight\n');
+    expect(buildHunks(diffLines(oldText, newText))).toHaveLength(1);
+  });
+});
+
+describe('createUnifiedPatch', () => {
+  it('writes a patch git apply accepts', () => {
+    expect(createUnifiedPatch('./src/a.css', '.a{color:red}\n', '.a{color:blue}\n')).toBe(
+      'diff --git a/src/a.css b/src/a.css\n--- a/src/a.css\n+++ b/src/a.css\n@@ -1 +1 @@\n-.a{color:red}\n+.a{color:blue}\n'
+    );
+  });
+
+  it('creates new files from /dev/null', () => {
+    expect(createUnifiedPatch('a.test.ts', '', 'x\ny\n')).toContain('new file mode 100644\n--- /dev/null\n+++ b/a.test.ts\n@@ -0,0 +1,2 @@\n+x\n+y\n');
+  });
+
+  it('returns nothing for identical files', () => {
+    expect(createUnifiedPatch('a', 'x\n', 'x\n')).toBe('');
+    expect(createEditsPatch([{ path: 'a', content: 'x\n' }], [{ file_to_edit: 'a', explanation: '', code_patch: 'x\n' }])).toBe('');
+  });
+});
+
+describe('changedLineRange', () => {
+  it('spans the changed lines of the old text', () => {
+    expect(changedLineRange('a\nb\nc\nd\n', 'a\nB\nc\nD\n')).toEqual({ start_line: 2, end_line: 4 });
+  });
+
+  it('puts an insertion on the line it follows', () => {
+    expect(changedLineRange('a\nb\n', 'a\nx\nb\n')).toEqual({ start_line: 1, end_line: 1 });
+  });
+
+  it('covers the whole file when it is new, and nothing when unchanged', () => {
+    expect(changedLineRange('', 'a\nb\n')).toEqual({ start_line: 1, end_line: 2 });
+    expect(changedLineRange('a\n', 'a\n')).toBeNull();
+  });
+});
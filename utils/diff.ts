@@ -0,0 +1,227 @@
+import { FileEdit, LineRange, SourceFile } from '../types';
+import { findSourceFile } from './sourceFiles';
+
+export type DiffLineType = 'context' | 'add' | 'remove';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  // 1-based line numbers; undefined on the side the line does not exist
+  oldLine?: number;
+  newLine?: number;
+  // True for the last line of a file that does not end with a newline
+  noNewline?: boolean;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+// Split text into lines that keep their trailing "\n", so a missing newline
+// at the end of the file shows up as a changed last line (like git does).
+const splitLines = (text: string): string[] => {
+  if (!text) return [];
+  const lines = text.split('\n').map(line => line + '\n');
+  const last = lines[lines.length - 1];
+  if (last === '\n') {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] = last.slice(0, -1);
+  }
+  return lines;
+};
+
+// Myers O(ND) shortest edit script over two line arrays
+const myersDiff = (a: string[], b: string[]): DiffLineType[] => {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 2).fill(0);
+  const trace: number[][] = [];
+
+  outer: for (let d = 0; d <= max; d++) {
+    // Only diagonals -d-1..d+1 are read when backtracking, so keep just that window
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break outer;
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const ops: DiffLineType[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const at = (diagonal: number) => vd[diagonal + d + 1];
+    const k = x - y;
+    const prevK = (k === -d || (k !== d && at(k - 1) < at(k + 1))) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push('context');
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      ops.push(x === prevX ? 'add' : 'remove');
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return ops.reverse();
+};
+
+/**
+ * Computes a line-by-line diff between two versions of a file.
+ */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+  const ops = myersDiff(a, b);
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  for (const op of ops) {
+    if (op === 'context') {
+      result.push(toDiffLine('context', a[i], i + 1, j + 1));
+      i++;
+      j++;
+    } else if (op === 'remove') {
+      result.push(toDiffLine('remove', a[i], i + 1, undefined));
+      i++;
+    } else {
+      result.push(toDiffLine('add', b[j], undefined, j + 1));
+      j++;
+    }
+  }
+  return result;
+};
+
+const toDiffLine = (type: DiffLineType, raw: string, oldLine?: number, newLine?: number): DiffLine => {
+  const noNewline = !raw.endsWith('\n');
+  return {
+    type,
+    text: noNewline ? raw : raw.slice(0, -1),
+    oldLine,
+    newLine,
+    ...(noNewline ? { noNewline } : {}),
+  };
+};
+
+/**
+ * Groups a diff into hunks with `context` unchanged lines around each change.
+ */
+export const buildHunks = (lines: DiffLine[], context = 3): DiffHunk[] => {
+  const changes = lines.flatMap((line, idx) => (line.type === 'context' ? [] : [idx]));
+  if (changes.length === 0) return [];
+
+  // Changes closer than two context windows share a hunk
+  const ranges: Array<[number, number]> = [];
+  changes.forEach(idx => {
+    const last = ranges[ranges.length - 1];
+    if (last && idx - last[1] <= 2 * context) {
+      last[1] = idx;
+    } else {
+      ranges.push([idx, idx]);
+    }
+  });
+
+  // Number of old/new lines that come before each diff line
+  const oldBefore: number[] = [];
+  const newBefore: number[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  lines.forEach(line => {
+    oldBefore.push(oldCount);
+    newBefore.push(newCount);
+    if (line.type !== 'add') oldCount++;
+    if (line.type !== 'remove') newCount++;
+  });
+
+  return ranges.map(([first, last]) => {
+    const start = Math.max(0, first - context);
+    const hunkLines = lines.slice(start, Math.min(lines.length, last + context + 1));
+    const oldLines = hunkLines.filter(l => l.type !== 'add').length;
+    const newLines = hunkLines.filter(l => l.type !== 'remove').length;
+    // An empty side points at the line before the hunk, as in `diff -u`
+    return {
+      oldStart: oldLines ? oldBefore[start] + 1 : oldBefore[start],
+      oldLines,
+      newStart: newLines ? newBefore[start] + 1 : newBefore[start],
+      newLines,
+      lines: hunkLines,
+    };
+  });
+};
+
+const formatRange = (start: number, count: number) => (count === 1 ? `${start}` : `${start},${count}`);
+
+/**
+ * Builds a git-style unified patch for one file that `git apply` accepts.
+ * Returns an empty string when both versions are identical.
+ */
+export const createUnifiedPatch = (filePath: string, oldText: string, newText: string, context = 3): string => {
+  const hunks = buildHunks(diffLines(oldText, newText), context);
+  if (hunks.length === 0) return '';
+
+  const path = filePath.replace(/^\.?\/+/, '');
+  const isNewFile = oldText === '';
+  const header = [
+    `diff --git a/${path} b/${path}`,
+    ...(isNewFile ? ['new file mode 100644'] : []),
+    isNewFile ? '--- /dev/null' : `--- a/${path}`,
+    `+++ b/${path}`,
+  ];
+
+  const body: string[] = [];
+  hunks.forEach(hunk => {
+    body.push(`@@ -${formatRange(hunk.oldStart, hunk.oldLines)} +${formatRange(hunk.newStart, hunk.newLines)} @@`);
+    hunk.lines.forEach(line => {
+      const prefix = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ';
+      body.push(prefix + line.text);
+      if (line.noNewline) body.push('\\ No newline at end of file');
+    });
+  });
+
+  return [...header, ...body].join('\n') + '\n';
+};
+
+/**
+ * One patch for all of a report's edits, each diffed against the submitted file
+ * (or created, when the path wasn't submitted).
+ */
+export const createEditsPatch = (files: SourceFile[], edits: FileEdit[]): string =>
+  edits.map(edit => createUnifiedPatch(edit.file_to_edit, findSourceFile(edit.file_to_edit, files)?.content ?? '', edit.code_patch)).join('');
+
+/**
+ * The lines of the old text a change touches. An insertion counts as the line it follows;
+ * when there was no old text, the range covers the whole new one. Null when nothing changed.
+ */
+export const changedLineRange = (oldText: string, newText: string): LineRange | null => {
+  if (!oldText) return newText ? { start_line: 1, end_line: splitLines(newText).length } : null;
+  let range: LineRange | null = null;
+  let lastOldLine = 0;
+  for (const line of diffLines(oldText, newText)) {
+    if (line.oldLine !== undefined) lastOldLine = line.oldLine;
+    if (line.type === 'context') continue;
+    const at = Math.max(1, line.type === 'remove' ? line.oldLine! : lastOldLine);
+    range = range ? { start_line: Math.min(range.start_line, at), end_line: Math.max(range.end_line, at) } : { start_line: at, end_line: at };
+  }
+  return range;
+};
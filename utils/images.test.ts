@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ImageAnnotation } from '../types';
+import { createEvidenceImage, drawAnnotation, pastedImageName, renderEvidenceImage } from './images';
+
+// What the tests' stand-in for the browser's <canvas> was asked to do
+let canvases: Array<{ width: number; height: number; calls: string[]; type?: string }>;
+// Size of the next image the stand-in for `Image` loads; null makes it fail
+let imageSize: { width: number; height: number } | null;
+
+const fakeContext = (calls: string[]) =>
+  new Proxy({} as Record<string, unknown>, {
+    get: (target, key: string) => (key in target ? target[key] : (...args: unknown[]) => calls.push(`${key}(${args.join(', ')})`)),
+    set: (target, key: string, value) => {
+      target[key] = value;
+      return true;
+    },
+  }) as unknown as CanvasRenderingContext2D;
+
+beforeEach(() => {
+  canvases = [];
+  imageSize = { width: 800, height: 600 };
+  vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:test');
+  vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+  vi.stubGlobal('Image', class {
+    naturalWidth = 0;
+    naturalHeight = 0;
+    onload = () => {};
+    onerror = () => {};
+    set src(_url: string) {
+      setTimeout(() => {
+        if (!imageSize) return this.onerror();
+        this.naturalWidth = imageSize.width;
+        this.naturalHeight = imageSize.height;
+        this.onload();
+      });
+    }
+  });
+  vi.stubGlobal('document', {
+    createElement: () => {
+      const canvas = { width: 0, height: 0, calls: [] as string[], type: undefined as string | undefined };
+      canvases.push(canvas);
+      return {
+        set width(value: number) { canvas.width = value; },
+        set height(value: number) { canvas.height = value; },
+        getContext: () => fakeContext(canvas.calls),
+        toBlob: (resolve: (blob: Blob) => void, type: string) => {
+          canvas.type = type;
+          resolve(new Blob(['drawn'], { type }));
+        },
+      };
+    },
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const box: ImageAnnotation = { kind: 'box', x1: 0.5, y1: 0.5, x2: 0.25, y2: 0.25 };
+
+describe('renderEvidenceImage', () => {
+  it('sends a screenshot without annotations as it is', async () => {
+    const image = { ...createEvidenceImage(new Blob(['png bytes'], { type: 'image/png' }), 'actual.png'), label: ' Actual ' };
+    expect(await renderEvidenceImage(image)).toEqual({
+      name: 'actual.png', label: 'Actual', mimeType: 'image/png', data: btoa('png bytes'), annotated: false,
+    });
+    expect(canvases).toHaveLength(0);
+  });
+
+  it('draws the annotations in, scaling their coordinates to the image', async () => {
+    const image = { ...createEvidenceImage(new Blob(['png bytes'], { type: 'image/png' }), 'a.png'), annotations: [box] };
+    expect(await renderEvidenceImage(image)).toMatchObject({ mimeType: 'image/png', data: btoa('drawn'), annotated: true });
+    expect(canvases[0]).toMatchObject({ width: 800, height: 600 });
+    expect(canvases[0].calls).toContain('strokeRect(200, 150, 200, 150)');
+  });
+
+  it('scales large screenshots down to 2048px, keeping photos JPEG and making the rest PNG', async () => {
+    imageSize = { width: 4096, height: 1024 };
+    await renderEvidenceImage(createEvidenceImage(new Blob(['jpeg'], { type: 'image/jpeg' }), 'photo.jpg'));
+    expect(canvases[0]).toMatchObject({ width: 2048, height: 512, type: 'image/jpeg' });
+
+    imageSize = { width: 100, height: 100 };
+    const rendered = await renderEvidenceImage(createEvidenceImage(new Blob(['bmp'], { type: 'image/bmp' }), 'old.bmp'));
+    expect(rendered.mimeType).toBe('image/png');
+    expect(canvases[1]).toMatchObject({ width: 100, height: 100, type: 'image/png' });
+  });
+
+  it('renders an image once, but tries again after a failure', async () => {
+    const image = createEvidenceImage(new Blob(['bmp'], { type: 'image/bmp' }), 'a.bmp');
+    imageSize = null;
+    await expect(renderEvidenceImage(image)).rejects.toThrow('The image could not be read.');
+
+    imageSize = { width: 10, height: 10 };
+    const first = renderEvidenceImage(image);
+    expect(renderEvidenceImage(image)).toBe(first);
+    await first;
+    expect(canvases).toHaveLength(1);
+  });
+});
+
+describe('drawAnnotation', () => {
+  it('draws an arrow as a line and a filled head, thicker on larger images', () => {
+    const small: string[] = [];
+    const smallContext = fakeContext(small);
+    drawAnnotation(smallContext, { kind: 'arrow', x1: 0, y1: 0, x2: 1, y2: 0 }, 300, 200);
+    expect(smallContext.lineWidth).toBe(3);
+    expect(small.filter(call => /^(stroke|fill)\(/.test(call))).toEqual(['stroke()', 'fill()']);
+
+    const largeContext = fakeContext([]);
+    drawAnnotation(largeContext, box, 3000, 2000);
+    expect(largeContext.lineWidth).toBe(10);
+  });
+});
+
+describe('image names', () => {
+  it('gives each image its own id, and pasted ones a name from the time', () => {
+    const a = createEvidenceImage(new Blob(), 'a.png');
+    const b = createEvidenceImage(new Blob(), 'a.png');
+    expect(a.id).not.toBe(b.id);
+    expect(pastedImageName('image/webp')).toMatch(/^pasted-\d{4}-\d{2}-\d{2}T[\d-]+Z\.webp$/);
+  });
+});
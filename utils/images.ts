@@ -0,0 +1,118 @@
+import { EvidenceImage, ImageAnnotation, ImageEvidence } from '../types';
+import { blobToBase64 } from './media';
+
+// Formats every provider takes as is; anything else is re-encoded as PNG
+const SENDABLE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+
+// Larger screenshots cost more tokens without showing the model more; Claude scales them down anyway
+const MAX_IMAGE_EDGE = 2048;
+
+export const ANNOTATION_COLOR = '#ef4444';
+
+// Quick picks for the label of a screenshot
+export const IMAGE_LABELS = ['Actual', 'Expected', 'Before', 'After', 'Error message', 'Console'];
+
+let nextImageId = 0;
+
+export const createEvidenceImage = (file: Blob, name: string): EvidenceImage => ({
+  id: `image-${++nextImageId}`,
+  file,
+  name,
+  label: '',
+  annotations: [],
+});
+
+// Pasted screenshots have no useful name, so they are named by when they were pasted
+export const pastedImageName = (type: string) =>
+  `pasted-${new Date().toISOString().replace(/[:.]/g, '-')}.${type.split('/')[1] || 'png'}`;
+
+const loadImage = (blob: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The image could not be read.'));
+    };
+    image.src = url;
+  });
+
+/**
+ * Draws an annotation onto a canvas of the image's size. Coordinates are fractions of it,
+ * and strokes scale with the image so they stay visible on large screenshots.
+ */
+export const drawAnnotation = (context: CanvasRenderingContext2D, { kind, x1, y1, x2, y2 }: ImageAnnotation, width: number, height: number) => {
+  const lineWidth = Math.max(3, Math.round(Math.max(width, height) / 300));
+  const [ax, ay, bx, by] = [x1 * width, y1 * height, x2 * width, y2 * height];
+  context.strokeStyle = ANNOTATION_COLOR;
+  context.fillStyle = ANNOTATION_COLOR;
+  context.lineWidth = lineWidth;
+  context.lineJoin = 'round';
+  context.lineCap = 'round';
+
+  if (kind === 'box') {
+    context.strokeRect(Math.min(ax, bx), Math.min(ay, by), Math.abs(bx - ax), Math.abs(by - ay));
+    return;
+  }
+
+  const angle = Math.atan2(by - ay, bx - ax);
+  const head = lineWidth * 5;
+  context.beginPath();
+  context.moveTo(ax, ay);
+  context.lineTo(bx - Math.cos(angle) * head * 0.8, by - Math.sin(angle) * head * 0.8);
+  context.stroke();
+  context.beginPath();
+  context.moveTo(bx, by);
+  context.lineTo(bx - head * Math.cos(angle - Math.PI / 6), by - head * Math.sin(angle - Math.PI / 6));
+  context.lineTo(bx - head * Math.cos(angle + Math.PI / 6), by - head * Math.sin(angle + Math.PI / 6));
+  context.closePath();
+  context.fill();
+};
+
+// Flattened images are kept per edit, so refinements send the same bytes and the context cache still matches
+const renderCache = new WeakMap<EvidenceImage, Promise<ImageEvidence>>();
+
+const render = async (image: EvidenceImage): Promise<ImageEvidence> => {
+  const { file, name, label, annotations } = image;
+  const base = { name, label: label.trim(), annotated: annotations.length > 0 };
+
+  const element = await loadImage(file);
+  const scale = Math.min(1, MAX_IMAGE_EDGE / Math.max(element.naturalWidth, element.naturalHeight));
+  if (annotations.length === 0 && scale === 1 && SENDABLE_TYPES.includes(file.type)) {
+    return { ...base, mimeType: file.type, data: await blobToBase64(file) };
+  }
+
+  const width = Math.round(element.naturalWidth * scale);
+  const height = Math.round(element.naturalHeight * scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('The browser cannot draw images.');
+  context.drawImage(element, 0, 0, width, height);
+  annotations.forEach(annotation => drawAnnotation(context, annotation, width, height));
+
+  // Photos stay JPEG; screenshots and everything else become PNG, which keeps text sharp
+  const mimeType = file.type === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, 0.92));
+  if (!blob) throw new Error(`${name} could not be encoded.`);
+  return { ...base, mimeType, data: await blobToBase64(blob) };
+};
+
+/**
+ * The image as it is sent to the model: its annotations drawn in red, scaled down to at
+ * most 2048px on the longest side, and base64 encoded.
+ */
+export const renderEvidenceImage = (image: EvidenceImage): Promise<ImageEvidence> => {
+  let rendered = renderCache.get(image);
+  if (!rendered) {
+    rendered = render(image);
+    renderCache.set(image, rendered);
+    rendered.catch(() => renderCache.delete(image));
+  }
+  return rendered;
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { createLogEvidence, formatLogSections, mapStackFrame, parseHar, parseStackTrace, summarizeLog } from './logs';
+
+const files = [
+  { path: 'app/src/components/List.tsx', content: 'export const List = ({ items }) => items.map(String);' },
+  { path: 'app/src/api.ts', content: 'export const load = () => fetch("/api/items");' },
+];
+
+const CHROME_TRACE = `TypeError: Cannot read properties of undefined (reading 'map')
+    at List (http://localhost:5173/src/components/List.tsx?t=1712:12:19)
+    at async load (webpack:///./src/api.ts:3:5)
+    at renderWithHooks (http://localhost:5173/node_modules/.vite/deps/react-dom.js:1:2)`;
+
+const har = (entries: unknown[]) => JSON.stringify({ log: { version: '1.2', entries } });
+
+describe('parseStackTrace', () => {
+  it('reads Chrome and Node frames', () => {
+    expect(parseStackTrace(CHROME_TRACE)[0]).toEqual({
+      functionName: 'List',
+      location: 'http://localhost:5173/src/components/List.tsx?t=1712',
+      line: 12,
+      column: 19,
+    });
+    expect(parseStackTrace(CHROME_TRACE)[1].functionName).toBe('load');
+  });
+
+  it('reads Firefox, Safari and Python frames', () => {
+    expect(parseStackTrace('List@http://localhost:5173/src/List.tsx:12:19\n@debugger eval code:1:1')).toEqual([
+      { functionName: 'List', location: 'http://localhost:5173/src/List.tsx', line: 12, column: 19 },
+      { functionName: null, location: 'debugger eval code', line: 1, column: 1 },
+    ]);
+    expect(parseStackTrace('  File "app/views.py", line 42, in index')).toEqual([
+      { functionName: 'index', location: 'app/views.py', line: 42, column: null },
+    ]);
+  });
+});
+
+describe('mapStackFrame', () => {
+  it('maps dev-server URLs and webpack paths to submitted files', () => {
+    const [list, load, react] = parseStackTrace(CHROME_TRACE);
+    expect(mapStackFrame(list, files)).toBe('app/src/components/List.tsx');
+    expect(mapStackFrame(load, files)).toBe('app/src/api.ts');
+    expect(mapStackFrame(react, files)).toBeNull();
+  });
+});
+
+describe('parseHar', () => {
+  it('keeps the requests that failed or got no answer', () => {
+    const log = parseHar(har([
+      { request: { method: 'GET', url: '/api/items' }, response: { status: 500, statusText: 'Internal Server Error', content: { mimeType: 'application/json', text: '{"error":"db down"}' } }, time: 41.6 },
+      { request: { method: 'GET', url: '/ok' }, response: { status: 200, content: {} } },
+      { request: { method: 'POST', url: '/api/save' }, response: { status: 0, _error: 'net::ERR_CONNECTION_REFUSED', content: {} } },
+    ]), 'session.har');
+    expect(log).toMatchObject({ kind: 'har', name: 'session.har', totalRequests: 3 });
+    expect(log.kind === 'har' && log.failed).toEqual([
+      { method: 'GET', url: '/api/items', status: 500, statusText: 'Internal Server Error', mimeType: 'application/json', body: '{"error":"db down"}', timeMs: 42 },
+      { method: 'POST', url: '/api/save', status: 0, statusText: 'net::ERR_CONNECTION_REFUSED', mimeType: null, body: null, timeMs: null },
+    ]);
+  });
+
+  it('refuses text that is not a HAR', () => {
+    expect(() => parseHar('{"log":', 'a.har')).toThrow('a.har is not valid JSON');
+    expect(() => parseHar('{"entries": 1}', 'a.har')).toThrow('a.har has no log.entries');
+  });
+});
+
+describe('createLogEvidence', () => {
+  it('detects the kind from the content', () => {
+    expect(createLogEvidence(CHROME_TRACE, 'trace').kind).toBe('stack');
+    expect(createLogEvidence(har([]), 'network').kind).toBe('har');
+    expect(createLogEvidence('[vite] connected.\nWarning: Each child in a list should have a unique "key" prop.\nGET /api/items 500\nUncaught TypeError', 'console').kind).toBe('console');
+  });
+
+  it('keeps the end of a long log', () => {
+    const log = createLogEvidence(`${'noise\n'.repeat(5000)}the error`, 'console', 'console');
+    expect(log.kind !== 'har' && log.text).toMatch(/^\[earlier output cut\][\s\S]*the error$/);
+  });
+});
+
+describe('formatLogSections', () => {
+  it('writes one section per log with frames matched to the submitted files', () => {
+    const logs = [
+      createLogEvidence(CHROME_TRACE, 'trace.txt'),
+      createLogEvidence(har([{ request: { method: 'GET', url: '/api/items' }, response: { status: 404, statusText: 'Not Found', content: {} } }]), 'session.har'),
+    ];
+    const text = formatLogSections(logs, files);
+    expect(text).toContain('=== Evidence 1 of 2: stack trace (trace.txt) ===');
+    expect(text).toContain('1. List at http://localhost:5173/src/components/List.tsx?t=1712:12:19 -> submitted file app/src/components/List.tsx, line 12');
+    expect(text).toContain('3. renderWithHooks at http://localhost:5173/node_modules/.vite/deps/react-dom.js:1:2 -> not in the submitted code');
+    expect(text).toContain('=== Evidence 2 of 2: network log (session.har), 1 of 1 requests failed ===\n1. GET /api/items -> 404 Not Found');
+    expect(summarizeLog(logs[0], files)).toBe('3 frames, 2 in the submitted files');
+  });
+});
@@ -0,0 +1,164 @@
+import { FailedRequest, LogEvidence, SourceFile, StackFrame } from '../types';
+import { isIgnored, normalizePath, resolveSourcePath } from './sourceFiles';
+
+export type LogKind = LogEvidence['kind'];
+
+export const LOG_KINDS: { id: LogKind; label: string }[] = [
+  { id: 'console', label: 'Console output' },
+  { id: 'stack', label: 'Stack trace' },
+  { id: 'har', label: 'Network log' },
+];
+
+// Long logs keep their end, where the error usually is
+const MAX_LOG_CHARS = 8000;
+const MAX_FRAMES = 30;
+const MAX_FAILED_REQUESTS = 30;
+const MAX_BODY_CHARS = 500;
+
+// Chrome and Node: "at fn (url:12:5)", "at url:12:5" or "at async fn (url:12:5)"
+const V8_FRAME = /^\s*at\s+(?:(.+?)\s+\()?(.+?):(\d+)(?::(\d+))?\)?\s*$/;
+// Firefox and Safari: "fn@url:12:5" or "@url:12:5"
+const GECKO_FRAME = /^\s*([^\s@]*)@(.+?):(\d+)(?::(\d+))?\s*$/;
+// Python: 'File "app.py", line 12, in fn'
+const PYTHON_FRAME = /^\s*File "(.+?)", line (\d+)(?:, in (.+))?\s*$/;
+
+let nextLogId = 0;
+
+const parseFrame = (line: string): StackFrame | null => {
+  const v8 = line.match(V8_FRAME);
+  if (v8) {
+    return { functionName: v8[1]?.replace(/^async\s+/, '') || null, location: v8[2], line: Number(v8[3]), column: v8[4] ? Number(v8[4]) : null };
+  }
+  const gecko = line.match(GECKO_FRAME);
+  if (gecko) return { functionName: gecko[1] || null, location: gecko[2], line: Number(gecko[3]), column: gecko[4] ? Number(gecko[4]) : null };
+  const python = line.match(PYTHON_FRAME);
+  if (python) return { functionName: python[3] || null, location: python[1], line: Number(python[2]), column: null };
+  return null;
+};
+
+export const parseStackTrace = (text: string): StackFrame[] =>
+  text.split('\n').map(parseFrame).filter((frame): frame is StackFrame => frame !== null).slice(0, MAX_FRAMES);
+
+// "http://localhost:5173/src/App.tsx?t=1" and "webpack:///./src/App.tsx" both become "src/App.tsx"
+const locationPath = (location: string): string =>
+  normalizePath(
+    location
+      .replace(/^webpack(-internal)?:\/\/\/?/, '')
+      .replace(/^[a-z][\w+.-]*:\/\/[^/]*/i, '')
+      .replace(/^\/@fs\//, '/')
+      .replace(/[?#].*$/, '')
+  );
+
+/**
+ * The submitted file a stack frame points into, or null when it is in a dependency, a
+ * bundle or a file that wasn't submitted.
+ */
+export const mapStackFrame = (frame: StackFrame, files: SourceFile[]): string | null => {
+  const path = locationPath(frame.location);
+  return !path || isIgnored(path) ? null : resolveSourcePath(path, files);
+};
+
+const trimLog = (text: string): string =>
+  text.length > MAX_LOG_CHARS ? `[earlier output cut]\n${text.slice(-MAX_LOG_CHARS)}` : text;
+
+const isFailed = (entry: any): boolean => {
+  const status = Number(entry.response?.status ?? 0);
+  return status === 0 || status >= 400 || !!entry.response?._error;
+};
+
+const toFailedRequest = (entry: any): FailedRequest => {
+  const content = entry.response?.content || {};
+  const body = typeof content.text === 'string' && content.encoding !== 'base64' && content.text.trim() ? content.text.trim() : null;
+  return {
+    method: String(entry.request?.method || 'GET'),
+    url: String(entry.request?.url || ''),
+    status: Number(entry.response?.status ?? 0),
+    statusText: String(entry.response?.statusText || entry.response?._error || ''),
+    mimeType: content.mimeType || null,
+    body: body && (body.length > MAX_BODY_CHARS ? `${body.slice(0, MAX_BODY_CHARS)}…` : body),
+    timeMs: typeof entry.time === 'number' ? Math.round(entry.time) : null,
+  };
+};
+
+/**
+ * Reads a HAR export from the browser's network panel and keeps the requests that failed:
+ * error statuses, and requests that never got an answer. Throws when the text isn't a HAR.
+ */
+export const parseHar = (text: string, name: string): LogEvidence => {
+  let entries: any[];
+  try {
+    entries = JSON.parse(text)?.log?.entries;
+  } catch {
+    throw new Error(`${name} is not valid JSON, so it can't be read as a HAR file.`);
+  }
+  if (!Array.isArray(entries)) throw new Error(`${name} has no log.entries, so it isn't a HAR file.`);
+  return {
+    kind: 'har',
+    id: `log-${++nextLogId}`,
+    name,
+    totalRequests: entries.length,
+    failed: entries.filter(isFailed).slice(0, MAX_FAILED_REQUESTS).map(toFailedRequest),
+  };
+};
+
+const looksLikeHar = (text: string) => /^\s*\{[\s\S]*"entries"/.test(text.slice(0, 2000));
+
+// A trace is mostly frames, after an error message of a line or two
+const looksLikeStackTrace = (text: string, frames: StackFrame[]) =>
+  frames.length > 0 && text.split('\n').filter(line => line.trim() && !parseFrame(line)).length <= 3;
+
+/**
+ * Turns pasted or attached text into evidence of the given kind, or of the kind it looks
+ * like when none is given.
+ */
+export const createLogEvidence = (text: string, name: string, kind?: LogKind): LogEvidence => {
+  if (kind === 'har' || (!kind && looksLikeHar(text))) return parseHar(text, name);
+  const frames = parseStackTrace(text);
+  const detected = kind ?? (looksLikeStackTrace(text, frames) ? 'stack' : 'console');
+  return { kind: detected, id: `log-${++nextLogId}`, name, text: trimLog(text.trim()), frames };
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// One line about the evidence, for the list it is shown in and for exports
+export const summarizeLog = (log: LogEvidence, files: SourceFile[]): string => {
+  if (log.kind === 'har') return `${plural(log.failed.length, 'failed request')} of ${log.totalRequests}`;
+  const mapped = log.frames.filter(frame => mapStackFrame(frame, files)).length;
+  const frames = log.frames.length ? `${plural(log.frames.length, 'frame')}, ${mapped} in the submitted files` : null;
+  if (log.kind === 'stack') return frames || 'no frames recognised';
+  return [plural(log.text.split('\n').length, 'line'), frames].filter(Boolean).join(', ');
+};
+
+export const formatFrame = ({ functionName, location, line, column }: StackFrame): string =>
+  `${functionName ? `${functionName} at ` : ''}${location}:${line}${column ? `:${column}` : ''}`;
+
+const formatFrames = (frames: StackFrame[], files: SourceFile[], onlyMapped: boolean): string[] =>
+  frames.flatMap((frame, i) => {
+    const path = mapStackFrame(frame, files);
+    if (onlyMapped && !path) return [];
+    return [`${i + 1}. ${formatFrame(frame)} -> ${path ? `submitted file ${path}, line ${frame.line}` : 'not in the submitted code'}`];
+  });
+
+const formatRequest = (request: FailedRequest, i: number): string => {
+  const details = [request.mimeType, request.timeMs !== null ? `${request.timeMs} ms` : null].filter(Boolean).join(', ');
+  const status = request.status === 0 ? `no response${request.statusText ? ` (${request.statusText})` : ''}` : `${request.status} ${request.statusText}`.trim();
+  return `${i + 1}. ${request.method} ${request.url} -> ${status}${details ? ` [${details}]` : ''}${request.body ? `\n   Response: ${request.body.replace(/\s*\n\s*/g, ' ')}` : ''}`;
+};
+
+/**
+ * The evidence as prompt sections, one per item: logs as written, stack frames matched to
+ * the submitted files, and the failed requests of a HAR with their statuses and answers.
+ */
+export const formatLogSections = (logs: LogEvidence[], files: SourceFile[]): string =>
+  logs.map((log, i) => {
+    const heading = `=== Evidence ${i + 1} of ${logs.length}: ${LOG_KINDS.find(kind => kind.id === log.kind)!.label.toLowerCase()} (${log.name})`;
+    if (log.kind === 'har') {
+      const requests = log.failed.length ? log.failed.map(formatRequest).join('\n') : 'No request failed.';
+      return `${heading}, ${log.failed.length} of ${log.totalRequests} requests failed ===\n${requests}`;
+    }
+    if (log.kind === 'stack') {
+      return `${heading} ===\n${log.text}\nFrames, innermost first:\n${formatFrames(log.frames, files, false).join('\n') || 'None recognised.'}`;
+    }
+    const mapped = formatFrames(log.frames, files, true);
+    return `${heading} ===\n${log.text}${mapped.length ? `\nStack frames in the submitted files:\n${mapped.join('\n')}` : ''}`;
+  }).join('\n\n');
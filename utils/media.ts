@@ -0,0 +1,222 @@
+// Preferred container/codecs for MediaRecorder, best first
+const RECORDER_MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  'video/mp4',
+];
+
+export const pickRecorderMimeType = (): string => {
+  if (typeof MediaRecorder === 'undefined') return '';
+  return RECORDER_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || '';
+};
+
+export const formatDuration = (seconds: number): string => {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Reads a recording's length in seconds from its metadata, or null when the browser can't tell.
+ */
+export const readVideoDuration = (blob: Blob): Promise<number | null> =>
+  new Promise(resolve => {
+    const video = document.createElement('video');
+    const url = URL.createObjectURL(blob);
+    const done = (seconds: number | null) => {
+      URL.revokeObjectURL(url);
+      video.removeAttribute('src');
+      resolve(seconds);
+    };
+    video.preload = 'metadata';
+    video.muted = true;
+    video.onloadedmetadata = () => {
+      if (Number.isFinite(video.duration)) return done(video.duration);
+      // MediaRecorder output has no duration in its header; seeking past the end makes the browser find it
+      video.ondurationchange = () => {
+        if (Number.isFinite(video.duration)) done(video.duration);
+      };
+      video.currentTime = Number.MAX_SAFE_INTEGER;
+    };
+    video.onerror = () => done(null);
+    video.src = url;
+  });
+
+// Only Blob APIs are used, so a browser File and a file read from disk work alike
+export const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  // String.fromCharCode takes its bytes as arguments, so large files are converted in chunks
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const formatBytes = (bytes: number): string =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/**
+ * Combines the screen's video with the screen audio and microphone into one stream,
+ * mixing both audio sources so the narration and the app's sounds end up on one track.
+ */
+export const mixScreenAndMic = (screen: MediaStream, mic: MediaStream | null): { stream: MediaStream; close: () => void } => {
+  const audioSources = [screen, mic].filter((s): s is MediaStream => !!s && s.getAudioTracks().length > 0);
+  if (audioSources.length === 0) {
+    return { stream: new MediaStream(screen.getVideoTracks()), close: () => {} };
+  }
+
+  const context = new AudioContext();
+  const destination = context.createMediaStreamDestination();
+  audioSources.forEach(source => context.createMediaStreamSource(source).connect(destination));
+
+  return {
+    stream: new MediaStream([...screen.getVideoTracks(), ...destination.stream.getAudioTracks()]),
+    close: () => { context.close(); },
+  };
+};
+
+// Chrome exposes captureStream, Firefox the prefixed mozCaptureStream
+const captureElementStream = (video: HTMLVideoElement): MediaStream => {
+  const element = video as HTMLVideoElement & { captureStream?: () => MediaStream; mozCaptureStream?: () => MediaStream };
+  const capture = element.captureStream || element.mozCaptureStream;
+  if (!capture) throw new Error("This browser can't trim recordings.");
+  return capture.call(element);
+};
+
+/**
+ * Cuts a recording down to [start, end] seconds by playing that range and recording it again.
+ * Runs in real time, so trimming a 30 second range takes about 30 seconds.
+ */
+export const trimVideo = (blob: Blob, start: number, end: number, mimeType = pickRecorderMimeType()): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const video = document.createElement('video');
+    video.src = url;
+    // Left unmuted: some browsers drop the captured narration from a muted element
+    video.playsInline = true;
+
+    const chunks: Blob[] = [];
+    let recorder: MediaRecorder | null = null;
+    const cleanup = () => {
+      video.pause();
+      URL.revokeObjectURL(url);
+    };
+
+    video.onerror = () => {
+      cleanup();
+      reject(new Error("Failed to load the recording for trimming."));
+    };
+
+    video.onseeked = async () => {
+      if (recorder) return;
+      try {
+        recorder = new MediaRecorder(captureElementStream(video), mimeType ? { mimeType } : undefined);
+        recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+        recorder.onstop = () => {
+          cleanup();
+          resolve(new Blob(chunks, { type: recorder?.mimeType || blob.type }));
+        };
+        recorder.start();
+        await video.play();
+      } catch (e: any) {
+        cleanup();
+        reject(e);
+      }
+    };
+
+    video.ontimeupdate = () => {
+      if (recorder && recorder.state === 'recording' && video.currentTime >= end) {
+        recorder.stop();
+      }
+    };
+    video.onended = () => {
+      if (recorder && recorder.state === 'recording') recorder.stop();
+    };
+
+    video.onloadedmetadata = () => {
+      video.currentTime = start;
+    };
+  });
+
+export interface DownscaleOptions {
+  // Output height in pixels; width follows the source aspect ratio
+  maxHeight: number;
+  frameRate: number;
+  onProgress?: (fraction: number) => void;
+}
+
+// Roughly what screen content needs at a given height to stay legible
+const bitrateFor = (height: number, frameRate: number) =>
+  Math.round(height * height * 1.78 * frameRate * 0.1);
+
+/**
+ * Re-encodes a video at a lower resolution and frame rate by painting it onto a canvas
+ * and recording the canvas. Like trimVideo this plays the whole video once in real time.
+ */
+export const downscaleVideo = (blob: Blob, { maxHeight, frameRate, onProgress }: DownscaleOptions, mimeType = pickRecorderMimeType()): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const video = document.createElement('video');
+    video.src = url;
+    video.playsInline = true;
+
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    const chunks: Blob[] = [];
+    let recorder: MediaRecorder | null = null;
+    let frame = 0;
+    const cleanup = () => {
+      cancelAnimationFrame(frame);
+      video.pause();
+      URL.revokeObjectURL(url);
+    };
+
+    const paint = () => {
+      context?.drawImage(video, 0, 0, canvas.width, canvas.height);
+      if (video.duration) onProgress?.(Math.min(1, video.currentTime / video.duration));
+      frame = requestAnimationFrame(paint);
+    };
+
+    video.onerror = () => {
+      cleanup();
+      reject(new Error("Failed to load the video for downscaling."));
+    };
+
+    video.onloadedmetadata = async () => {
+      if (!context) {
+        cleanup();
+        reject(new Error("This browser can't downscale videos."));
+        return;
+      }
+      const scale = Math.min(1, maxHeight / (video.videoHeight || maxHeight));
+      // Encoders want even dimensions
+      canvas.width = Math.max(2, Math.round((video.videoWidth * scale) / 2) * 2);
+      canvas.height = Math.max(2, Math.round((video.videoHeight * scale) / 2) * 2);
+
+      try {
+        const audio = captureElementStream(video).getAudioTracks();
+        const stream = new MediaStream([...canvas.captureStream(frameRate).getVideoTracks(), ...audio]);
+        recorder = new MediaRecorder(stream, {
+          ...(mimeType ? { mimeType } : {}),
+          videoBitsPerSecond: bitrateFor(canvas.height, frameRate),
+        });
+        recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+        recorder.onstop = () => {
+          cleanup();
+          onProgress?.(1);
+          resolve(new Blob(chunks, { type: recorder?.mimeType || blob.type }));
+        };
+        recorder.start();
+        paint();
+        await video.play();
+      } catch (e: any) {
+        cleanup();
+        reject(e);
+      }
+    };
+
+    video.onended = () => {
+      if (recorder && recorder.state === 'recording') recorder.stop();
+    };
+  });
@@ -0,0 +1,23 @@
+/**
+ * Reads a newline-delimited JSON response body, calling `onEvent` for each line as it arrives.
+ */
+export const readNdjson = async <T>(response: Response, onEvent: (event: T) => void): Promise<void> => {
+  if (!response.body) throw new Error("Response has no body to stream.");
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.filter(line => line.trim()).forEach(line => onEvent(JSON.parse(line) as T));
+
+    if (done) break;
+  }
+
+  if (buffer.trim()) onEvent(JSON.parse(buffer) as T);
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { parsePartialJson } from './partialJson';
+
+describe('parsePartialJson', () => {
+  it('parses complete JSON as is', () => {
+    expect(parsePartialJson('{"a": [1, 2], "b": "c"}')).toEqual({ a: [1, 2], b: 'c' });
+  });
+
+  it('closes a string value that is still streaming', () => {
+    expect(parsePartialJson('{"bug_summary": "Button is inv')).toEqual({ bug_summary: 'Button is inv' });
+  });
+
+  it('closes open arrays and objects', () => {
+    expect(parsePartialJson('{"edits": [{"file_to_edit": "a.css"')).toEqual({ edits: [{ file_to_edit: 'a.css' }] });
+  });
+
+  it('drops a half-written key or literal', () => {
+    expect(parsePartialJson('{"a": 1, "bu')).toEqual({ a: 1 });
+    expect(parsePartialJson('{"a": 1, "b": tr')).toEqual({ a: 1 });
+  });
+
+  it('drops an escape or unicode sequence cut in half', () => {
+    expect(parsePartialJson('{"a": "x\\')).toEqual({ a: 'x' });
+    expect(parsePartialJson('{"a": "x\\u00')).toEqual({ a: 'x' });
+  });
+
+  it('ignores a Markdown fence', () => {
+    expect(parsePartialJson('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+  });
+
+  it('returns undefined when nothing usable has arrived', () => {
+    expect(parsePartialJson('')).toBeUndefined();
+    expect(parsePartialJson('tru')).toBeUndefined();
+  });
+
+  it('returns an empty object while the first key is being written', () => {
+    expect(parsePartialJson('{"a')).toEqual({});
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Parses JSON that may be cut off mid-stream, e.g. `{"bug_summary": "Button is inv`.
+ * Open strings, arrays and objects are closed; a half-written key or literal is dropped.
+ * Returns undefined when nothing usable has arrived yet.
+ */
+export const parsePartialJson = (input: string): any => {
+  const text = input.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+  if (!text) return undefined;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Fall through to repair
+  }
+
+  const stack: Array<'{' | '['> = [];
+  let inString = false;
+  let escape = false;
+  let unicodeDigits = 0;
+  let stringIsKey = false;
+  // Last structural character outside strings, to tell keys from values
+  let lastStructural = '';
+  // Longest prefix that is complete once the open containers are closed
+  let safeCut = -1;
+  let safeStack: Array<'{' | '['> = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (unicodeDigits > 0) {
+        unicodeDigits--;
+      } else if (escape) {
+        escape = false;
+        if (ch === 'u') unicodeDigits = 4;
+      } else if (ch === '\\') {
+        escape = true;
+      } else if (ch === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    switch (ch) {
+      case '"':
+        inString = true;
+        stringIsKey = stack[stack.length - 1] === '{' && (lastStructural === '{' || lastStructural === ',');
+        break;
+      case '{':
+      case '[':
+        stack.push(ch);
+        lastStructural = ch;
+        safeCut = i + 1;
+        safeStack = stack.slice();
+        break;
+      case '}':
+      case ']':
+        stack.pop();
+        lastStructural = ch;
+        safeCut = i + 1;
+        safeStack = stack.slice();
+        break;
+      case ',':
+        // Everything before a comma is a complete member
+        safeCut = i;
+        safeStack = stack.slice();
+        lastStructural = ch;
+        break;
+      case ':':
+        lastStructural = ch;
+        break;
+    }
+  }
+
+  const close = (stackToClose: Array<'{' | '['>) =>
+    stackToClose.slice().reverse().map(open => (open === '{' ? '}' : ']')).join('');
+
+  // Prefer keeping a half-streamed string value so text appears as it arrives
+  if (inString && !stringIsKey) {
+    let body = text;
+    if (unicodeDigits > 0) body = body.slice(0, body.lastIndexOf('\\u'));
+    else if (escape) body = body.slice(0, -1);
+    try {
+      return JSON.parse(body + '"' + close(stack));
+    } catch {
+      // Fall back to the last complete member
+    }
+  }
+
+  if (!inString) {
+    try {
+      return JSON.parse(text + close(stack));
+    } catch {
+      // e.g. a dangling key, colon or half-written literal
+    }
+  }
+
+  if (safeCut <= 0) return undefined;
+  try {
+    return JSON.parse(text.slice(0, safeCut) + close(safeStack));
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,76 @@
+import { SourceFile } from '../types';
+import { findSourceFile, normalizePath } from './sourceFiles';
+
+export interface ViewportPreset {
+  id: 'mobile' | 'tablet' | 'desktop';
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const VIEWPORT_PRESETS: ViewportPreset[] = [
+  { id: 'mobile', label: 'Mobile', width: 375, height: 667 },
+  { id: 'tablet', label: 'Tablet', width: 768, height: 1024 },
+  { id: 'desktop', label: 'Desktop', width: 1280, height: 800 },
+];
+
+const isHtml = (path: string) => /\.html?$/i.test(path);
+
+/**
+ * The page to render: an index.html closest to the root, otherwise the first HTML file.
+ * Returns null when there is no HTML to preview (e.g. only a stylesheet was submitted).
+ */
+export const findPreviewEntry = (files: SourceFile[]): string | null => {
+  const pages = files.filter(f => isHtml(f.path));
+  const depth = (path: string) => normalizePath(path).split('/').length;
+  const index = pages
+    .filter(f => /(^|\/)index\.html?$/i.test(normalizePath(f.path)))
+    .sort((a, b) => depth(a.path) - depth(b.path))[0];
+  return (index || pages[0])?.path ?? null;
+};
+
+// Resolves an href/src from the page against its folder; external URLs resolve to null
+const resolveReference = (from: string, reference: string): string | null => {
+  if (!reference || /^([a-z][a-z0-9+.-]*:|\/\/)/i.test(reference)) return null;
+  const clean = reference.split(/[?#]/)[0];
+  const segments = clean.startsWith('/') ? [] : normalizePath(from).split('/').slice(0, -1);
+  for (const segment of clean.split('/')) {
+    if (segment === '..') segments.pop();
+    else if (segment && segment !== '.') segments.push(segment);
+  }
+  return segments.join('/');
+};
+
+/**
+ * Builds a standalone document from the entry page, inlining the stylesheets and
+ * scripts it references from the submitted files so it renders inside a sandboxed iframe.
+ */
+export const buildPreviewDocument = (files: SourceFile[], entry: string): string | null => {
+  const page = findSourceFile(entry, files);
+  if (!page) return null;
+
+  const doc = new DOMParser().parseFromString(page.content, 'text/html');
+  const lookup = (reference: string | null) => {
+    const path = reference ? resolveReference(page.path, reference) : null;
+    return path ? findSourceFile(path, files) : undefined;
+  };
+
+  doc.querySelectorAll<HTMLLinkElement>('link[rel~="stylesheet"][href]').forEach(link => {
+    const sheet = lookup(link.getAttribute('href'));
+    if (!sheet) return;
+    const style = doc.createElement('style');
+    style.setAttribute('data-vibefix-source', sheet.path);
+    style.textContent = sheet.content;
+    link.replaceWith(style);
+  });
+
+  doc.querySelectorAll<HTMLScriptElement>('script[src]').forEach(script => {
+    const source = lookup(script.getAttribute('src'));
+    if (!source) return;
+    script.removeAttribute('src');
+    script.setAttribute('data-vibefix-source', source.path);
+    script.textContent = source.content;
+  });
+
+  return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+};
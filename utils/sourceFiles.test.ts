@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { SourceFile } from '../types';
+import { applyEdits, isIgnored, mergeSourceFiles, normalizePath, resolveSourcePath } from './sourceFiles';
+
+const files: SourceFile[] = [
+  { path: 'src/components/Button.tsx', content: 'button' },
+  { path: 'src/styles/button.css', content: 'css' },
+  { path: 'src/index.ts', content: 'index' },
+  { path: 'lib/index.ts', content: 'lib' },
+];
+
+describe('normalizePath', () => {
+  it('uses forward slashes without a leading ./ or /', () => {
+    expect(normalizePath(' ./src\\components//Button.tsx ')).toBe('src/components/Button.tsx');
+    expect(normalizePath('/src/index.ts')).toBe('src/index.ts');
+  });
+});
+
+describe('isIgnored', () => {
+  it('skips dependency, build and git folders at any depth', () => {
+    expect(isIgnored('node_modules/react/index.js')).toBe(true);
+    expect(isIgnored('packages/app/dist/main.js')).toBe(true);
+    expect(isIgnored('.git/config')).toBe(true);
+    expect(isIgnored('src/distance.ts')).toBe(false);
+  });
+});
+
+describe('resolveSourcePath', () => {
+  it('matches a submitted path exactly, however it is written', () => {
+    expect(resolveSourcePath('src/index.ts', files)).toBe('src/index.ts');
+    expect(resolveSourcePath('./src\\components\\Button.tsx', files)).toBe('src/components/Button.tsx');
+  });
+
+  it('matches when the model drops or adds a leading folder', () => {
+    expect(resolveSourcePath('components/Button.tsx', files)).toBe('src/components/Button.tsx');
+    expect(resolveSourcePath('app/src/styles/button.css', files)).toBe('src/styles/button.css');
+  });
+
+  it('gives up when the path is ambiguous or unknown', () => {
+    // Both src/index.ts and lib/index.ts end with it
+    expect(resolveSourcePath('index.ts', files)).toBeNull();
+    expect(resolveSourcePath('src/missing.ts', files)).toBeNull();
+    expect(resolveSourcePath('  ', files)).toBeNull();
+  });
+
+  it("doesn't match on part of a file name", () => {
+    expect(resolveSourcePath('Button.tsx', [{ path: 'src/BigButton.tsx', content: '' }])).toBeNull();
+  });
+});
+
+describe('mergeSourceFiles', () => {
+  it('replaces files with the same path and keeps the rest', () => {
+    const merged = mergeSourceFiles(files, [{ path: './src/index.ts', content: 'new' }, { path: 'src/new.ts', content: 'added' }]);
+    expect(merged).toHaveLength(5);
+    expect(merged.find(f => normalizePath(f.path) === 'src/index.ts')?.content).toBe('new');
+  });
+});
+
+describe('applyEdits', () => {
+  it('replaces edited files and adds the new ones, leaving the input alone', () => {
+    const patched = applyEdits(files, [
+      { file_to_edit: 'components/Button.tsx', explanation: '', code_patch: 'fixed' },
+      { file_to_edit: 'src/new.ts', explanation: '', code_patch: 'added' },
+    ]);
+    expect(patched.find(f => f.path === 'src/components/Button.tsx')?.content).toBe('fixed');
+    expect(patched.find(f => f.path === 'src/new.ts')?.content).toBe('added');
+    expect(files[0].content).toBe('button');
+  });
+});
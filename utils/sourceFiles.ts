@@ -0,0 +1,142 @@
+import { BugReport, FileEdit, SourceFile } from '../types';
+
+// Folders that never contain code worth sending to the model
+const IGNORED_DIRS = new Set(['node_modules', '.git', 'dist', 'build', '.next', 'coverage']);
+
+const TEXT_EXTENSIONS = new Set([
+  'html', 'htm', 'css', 'scss', 'sass', 'less', 'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx',
+  'json', 'md', 'vue', 'svelte', 'astro', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'swift',
+  'php', 'yml', 'yaml', 'toml', 'xml', 'svg', 'txt', 'sh', 'sql', 'graphql',
+]);
+
+/**
+ * Normalizes a path so the model's answer and our submitted files compare equal
+ * (forward slashes, no leading "./" or "/").
+ */
+export const normalizePath = (path: string): string =>
+  path.trim().replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '').replace(/\/{2,}/g, '/');
+
+export const isTextFile = (path: string): boolean => {
+  const ext = path.split('.').pop()?.toLowerCase() || '';
+  return TEXT_EXTENSIONS.has(ext);
+};
+
+export const isIgnored = (path: string): boolean =>
+  normalizePath(path).split('/').some(segment => IGNORED_DIRS.has(segment));
+
+/**
+ * Finds the submitted file a model-returned path refers to. Matches exactly first,
+ * then by path suffix (the model sometimes drops or adds a leading folder).
+ */
+export const resolveSourcePath = (path: string, files: SourceFile[]): string | null => {
+  const wanted = normalizePath(path);
+  if (!wanted) return null;
+
+  const exact = files.find(f => normalizePath(f.path) === wanted);
+  if (exact) return exact.path;
+
+  const suffixMatches = files.filter(f => {
+    const candidate = normalizePath(f.path);
+    return candidate.endsWith('/' + wanted) || wanted.endsWith('/' + candidate);
+  });
+  return suffixMatches.length === 1 ? suffixMatches[0].path : null;
+};
+
+export const findSourceFile = (path: string, files: SourceFile[]): SourceFile | undefined => {
+  const resolved = resolveSourcePath(path, files);
+  return resolved === null ? undefined : files.find(f => f.path === resolved);
+};
+
+/**
+ * Adds files to a list, replacing any existing entry with the same path.
+ */
+export const mergeSourceFiles = (existing: SourceFile[], incoming: SourceFile[]): SourceFile[] => {
+  const byPath = new Map(existing.map(f => [normalizePath(f.path), f]));
+  incoming.forEach(f => byPath.set(normalizePath(f.path), f));
+  return Array.from(byPath.values());
+};
+
+/**
+ * The submitted files with a report's edits applied: edited files take the corrected
+ * contents, and edits to paths that weren't submitted become new files.
+ */
+export const applyEdits = (files: SourceFile[], edits: FileEdit[]): SourceFile[] => {
+  const patched = files.map(f => ({ ...f }));
+  edits.forEach(edit => {
+    const target = findSourceFile(edit.file_to_edit, patched);
+    if (target) target.content = edit.code_patch;
+    else patched.push({ path: edit.file_to_edit, content: edit.code_patch });
+  });
+  return patched;
+};
+
+/**
+ * Every file a report changes, with its regression test (if any) as one more edit.
+ */
+export const editsWithTest = (report: BugReport): FileEdit[] => {
+  const test = report.regression_test;
+  if (!test) return report.edits;
+  return [...report.edits, { file_to_edit: test.file_path, explanation: test.explanation, code_patch: test.code }];
+};
+
+const readEntryFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+const readDirectoryEntries = async (entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = entry.createReader();
+  const all: FileSystemEntry[] = [];
+  // readEntries returns results in batches until it yields an empty array
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return all;
+    all.push(...batch);
+  }
+};
+
+const collectEntry = async (entry: FileSystemEntry, out: SourceFile[]): Promise<void> => {
+  const path = normalizePath(entry.fullPath || entry.name);
+  if (isIgnored(path)) return;
+
+  if (entry.isDirectory) {
+    const children = await readDirectoryEntries(entry as FileSystemDirectoryEntry);
+    for (const child of children) {
+      await collectEntry(child, out);
+    }
+  } else if (isTextFile(path)) {
+    const file = await readEntryFile(entry as FileSystemFileEntry);
+    out.push({ path, content: await file.text() });
+  }
+};
+
+/**
+ * Reads dropped files and folders, keeping each file's path relative to what was dropped.
+ */
+export const readDroppedSources = async (dataTransfer: DataTransfer): Promise<SourceFile[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  // Browsers without the entries API still give us plain files
+  if (entries.length === 0) {
+    return readFileListSources(dataTransfer.files);
+  }
+
+  const out: SourceFile[] = [];
+  for (const entry of entries) {
+    await collectEntry(entry, out);
+  }
+  return out;
+};
+
+/**
+ * Reads files from an <input type="file">, using the folder-relative path when a directory was picked.
+ */
+export const readFileListSources = async (files: FileList): Promise<SourceFile[]> => {
+  const out: SourceFile[] = [];
+  for (const file of Array.from(files)) {
+    const path = normalizePath(file.webkitRelativePath || file.name);
+    if (isIgnored(path) || !isTextFile(path)) continue;
+    out.push({ path, content: await file.text() });
+  }
+  return out;
+};
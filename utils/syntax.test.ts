@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { checkCss, checkHtml } from './syntax';
+
+describe('checkCss', () => {
+  it('accepts valid stylesheets, at-rules and url() values included', () => {
+    expect(checkCss('@media (max-width: 600px) {\n  .a { background: url(a;b.png); color: red }\n}\n/* done */\n')).toEqual([]);
+  });
+
+  it('finds unbalanced brackets', () => {
+    expect(checkCss('.a { color: red;\n')).toEqual([{ line: 1, message: '"{" is never closed.' }]);
+    expect(checkCss('.a { color: red; }\n}\n')).toEqual([{ line: 2, message: 'Unexpected "}".' }]);
+  });
+
+  it('finds unterminated comments and strings', () => {
+    expect(checkCss('.a { color: red; }\n/* note')).toEqual([{ line: 2, message: 'Unterminated comment.' }]);
+    expect(checkCss('.a { content: "x; }\n')).toContainEqual({ line: 1, message: 'Unterminated string.' });
+  });
+});
+
+describe('checkHtml', () => {
+  it('tolerates void elements and end tags HTML lets you leave out', () => {
+    expect(checkHtml('<ul><li>One<li>Two<br><img src="a.png"></ul><p>Text').issues).toEqual([]);
+  });
+
+  it('finds unclosed and stray tags', () => {
+    expect(checkHtml('<div>\n<span>\n</div>').issues).toEqual([{ line: 2, message: '<span> is not closed before </div>.' }]);
+    expect(checkHtml('<div></div></section>').issues).toEqual([{ line: 1, message: 'Closing tag </section> has no matching opening tag.' }]);
+  });
+
+  it('returns inline code blocks to check separately, leaving data scripts out', () => {
+    const { issues, embedded } = checkHtml('<style>.a {}</style>\n<script type="application/json">{}</script>\n<script>\nrun();\n</script>');
+    expect(issues).toEqual([]);
+    expect(embedded).toEqual([
+      { kind: 'style', line: 1, content: '.a {}' },
+      { kind: 'script', line: 3, content: '\nrun();\n' },
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+// Lightweight syntax checks for languages without a parser in the bundle. They catch
+// what a broken patch typically looks like (unbalanced braces, unclosed tags), not every error.
+
+export interface SyntaxIssue {
+  line: number;
+  message: string;
+}
+
+const lineAt = (text: string, index: number) => text.slice(0, index).split('\n').length;
+
+/**
+ * Checks a stylesheet for unterminated comments and strings, unbalanced brackets and
+ * declarations without a colon (e.g. `color red;`).
+ */
+export const checkCss = (css: string): SyntaxIssue[] => {
+  const issues: SyntaxIssue[] = [];
+  const stack: Array<{ ch: string; index: number }> = [];
+  const pairs: Record<string, string> = { '}': '{', ')': '(', ']': '[' };
+  // Start of the current declaration or selector, to check it once it ends
+  let segmentStart = 0;
+
+  const checkDeclaration = (end: number) => {
+    const inBlock = stack.some(open => open.ch === '{');
+    const segment = css.slice(segmentStart, end).replace(/\/\*[\s\S]*?\*\//g, '').trim();
+    if (inBlock && segment && !segment.startsWith('@') && !segment.includes(':')) {
+      issues.push({ line: lineAt(css, segmentStart + css.slice(segmentStart).search(/\S/)), message: `Declaration "${segment}" is missing a colon.` });
+    }
+  };
+
+  for (let i = 0; i < css.length; i++) {
+    const ch = css[i];
+    if (ch === '/' && css[i + 1] === '*') {
+      const end = css.indexOf('*/', i + 2);
+      if (end === -1) {
+        issues.push({ line: lineAt(css, i), message: 'Unterminated comment.' });
+        return issues;
+      }
+      i = end + 1;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      let j = i + 1;
+      while (j < css.length && css[j] !== ch && css[j] !== '\n') j += css[j] === '\\' ? 2 : 1;
+      if (css[j] !== ch) issues.push({ line: lineAt(css, i), message: 'Unterminated string.' });
+      i = j;
+      continue;
+    }
+    if (ch === '{' || ch === '(' || ch === '[') {
+      stack.push({ ch, index: i });
+      if (ch === '{') segmentStart = i + 1;
+    } else if (ch === '}' || ch === ')' || ch === ']') {
+      if (ch === '}') checkDeclaration(i);
+      const open = stack.pop();
+      if (!open || open.ch !== pairs[ch]) {
+        issues.push({ line: lineAt(css, i), message: `Unexpected "${ch}".` });
+        if (open) stack.push(open);
+      }
+      if (ch === '}') segmentStart = i + 1;
+    } else if (ch === ';' && stack[stack.length - 1]?.ch !== '(') {
+      checkDeclaration(i);
+      segmentStart = i + 1;
+    }
+  }
+
+  stack.forEach(open => issues.push({ line: lineAt(css, open.index), message: `"${open.ch}" is never closed.` }));
+  return issues;
+};
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+// Elements whose end tag may be left out
+const OPTIONAL_END = new Set([
+  'html', 'head', 'body', 'p', 'li', 'dt', 'dd', 'tr', 'td', 'th', 'thead', 'tbody', 'tfoot',
+  'option', 'optgroup', 'colgroup', 'caption', 'rt', 'rp',
+]);
+
+const TAG = /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\/?([a-zA-Z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/g;
+
+export interface HtmlCheck {
+  issues: SyntaxIssue[];
+  // Contents of <style> and <script> blocks, so they can be checked in their own language
+  embedded: Array<{ kind: 'style' | 'script'; line: number; content: string }>;
+}
+
+/**
+ * Checks that elements are properly nested and closed, tolerating void elements and
+ * the end tags HTML allows to be omitted.
+ */
+export const checkHtml = (html: string): HtmlCheck => {
+  const issues: SyntaxIssue[] = [];
+  const embedded: HtmlCheck['embedded'] = [];
+  const stack: Array<{ name: string; index: number }> = [];
+
+  TAG.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TAG.exec(html))) {
+    const [text, rawName, attributes] = match;
+    if (text.startsWith('<!--') && !text.endsWith('-->')) {
+      issues.push({ line: lineAt(html, match.index), message: 'Unterminated comment.' });
+      break;
+    }
+    if (!rawName) continue;
+
+    const name = rawName.toLowerCase();
+    const isClosing = text.startsWith('</');
+
+    if (!isClosing) {
+      if (name === 'script' || name === 'style') {
+        // Raw text: skip to the matching end tag without parsing the contents as HTML
+        const end = html.toLowerCase().indexOf(`</${name}`, TAG.lastIndex);
+        if (end === -1) {
+          issues.push({ line: lineAt(html, match.index), message: `<${name}> is never closed.` });
+          break;
+        }
+        // Scripts with a data type (JSON, templates) aren't JavaScript
+        const type = /\btype\s*=\s*["']?([^"'\s>]+)/i.exec(attributes)?.[1];
+        const isCode = name === 'style' || !type || /^(module|(text|application)\/(java|ecma)script)$/i.test(type);
+        if (isCode) {
+          embedded.push({ kind: name as 'style' | 'script', line: lineAt(html, TAG.lastIndex), content: html.slice(TAG.lastIndex, end) });
+        }
+        TAG.lastIndex = html.indexOf('>', end) + 1 || html.length;
+        continue;
+      }
+      if (!VOID_ELEMENTS.has(name) && !attributes.trim().endsWith('/')) {
+        stack.push({ name, index: match.index });
+      }
+      continue;
+    }
+
+    if (VOID_ELEMENTS.has(name)) continue;
+    const openIndex = stack.map(open => open.name).lastIndexOf(name);
+    if (openIndex === -1) {
+      issues.push({ line: lineAt(html, match.index), message: `Closing tag </${name}> has no matching opening tag.` });
+      continue;
+    }
+    // Anything still open inside this element must have been allowed to close implicitly
+    stack.splice(openIndex).slice(1).forEach(open => {
+      if (!OPTIONAL_END.has(open.name)) {
+        issues.push({ line: lineAt(html, open.index), message: `<${open.name}> is not closed before </${name}>.` });
+      }
+    });
+  }
+
+  stack.forEach(open => {
+    if (!OPTIONAL_END.has(open.name)) {
+      issues.push({ line: lineAt(html, open.index), message: `<${open.name}> is never closed.` });
+    }
+  });
+  return { issues, embedded };
+};
@@ -7,13 +7,16 @@ export default defineConfig(({ mode }) => {
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
+        // Only this machine by default: without VIBEFIX_API_TOKEN the server ships for local requests.
+        // `npm run dev -- --host` opens it to the network
+        host: 'localhost',
+        // The VibeFix server (`npm run server`) runs analyses with the API keys and handles shipping.
+        // X-Forwarded-For tells it who is calling, for its rate limits and access check
+        proxy: {
+          '/api': { target: `http://localhost:${env.SERVER_PORT || 8787}`, xfwd: true },
+        },
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),